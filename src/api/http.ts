@@ -0,0 +1,156 @@
+/**
+ * Timeouts, retries and concurrency for calls to n8n
+ */
+export interface RequestPolicy {
+  /** Time to wait for response headers and between body chunks, in milliseconds */
+  timeout: number
+  /** Retries after the first attempt, for idempotent requests only */
+  retries: number
+  /** Base delay of the exponential backoff, in milliseconds */
+  retryDelay: number
+  /** Upper bound for a single backoff or Retry-After delay, in milliseconds */
+  maxRetryDelay: number
+  /** Requests in flight at once */
+  concurrency: number
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeout: 30000,
+  retries: 3,
+  retryDelay: 500,
+  maxRetryDelay: 30000,
+  concurrency: 4
+}
+
+// Environment variables overriding the default policy
+const POLICY_ENV_VARS: Record<Exclude<keyof RequestPolicy, 'maxRetryDelay'>, string> = {
+  timeout: 'CRON8N_HTTP_TIMEOUT',
+  retries: 'CRON8N_HTTP_RETRIES',
+  retryDelay: 'CRON8N_HTTP_RETRY_DELAY',
+  concurrency: 'CRON8N_HTTP_CONCURRENCY'
+}
+
+// Only these methods are retried, since repeating them has no extra effect
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE']
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504]
+
+// Connection failures and timeouts reported by undici and Node
+const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]
+
+const TIMEOUT_ERROR_CODES = ['UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT', 'UND_ERR_CONNECT_TIMEOUT']
+
+/**
+ * Gets the request policy, with defaults overridden by CRON8N_HTTP_*
+ * environment variables and then by the given values
+ */
+export function getRequestPolicy(
+  overrides: Partial<RequestPolicy> = {},
+  env: NodeJS.ProcessEnv = process.env
+): RequestPolicy {
+  const policy = { ...DEFAULT_REQUEST_POLICY }
+  for (const [key, name] of Object.entries(POLICY_ENV_VARS) as Array<[keyof RequestPolicy, string]>) {
+    const value = Number(env[name])
+    if (env[name] && Number.isFinite(value) && value >= 0) {
+      policy[key] = value
+    }
+  }
+  return {
+    ...policy,
+    ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+  }
+}
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase())
+}
+
+export function isRetryableStatus(statusCode: number): boolean {
+  return RETRYABLE_STATUS_CODES.includes(statusCode)
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code)
+}
+
+export function isTimeoutError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' && TIMEOUT_ERROR_CODES.includes(code)
+}
+
+/**
+ * Parses a Retry-After header, given in seconds or as an HTTP date, into
+ * milliseconds from now
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now = Date.now()): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Gets the delay before a retry (attempt 0 being the first retry): the
+ * server's Retry-After when given, otherwise exponential backoff with
+ * full jitter. Both are capped at maxRetryDelay.
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: Pick<RequestPolicy, 'retryDelay' | 'maxRetryDelay'>,
+  retryAfter?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxRetryDelay)
+  }
+  const backoff = Math.min(policy.retryDelay * 2 ** attempt, policy.maxRetryDelay)
+  return Math.round(random() * backoff)
+}
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * Creates a limiter running tasks with at most `concurrency` of them in
+ * flight, starting queued tasks in call order
+ */
+export function createLimiter(concurrency: number): Limiter {
+  const max = Math.max(1, Math.floor(concurrency))
+  const queue: Array<() => void> = []
+  let active = 0
+
+  const next = (): void => {
+    if (active >= max) return
+    const start = queue.shift()
+    if (start) {
+      active++
+      start()
+    }
+  }
+
+  return <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      task().then(resolve, reject).finally(() => {
+        active--
+        next()
+      })
+    })
+    next()
+  })
+}
@@ -1,7 +1,22 @@
-import { request } from 'undici'
+import { request, type Dispatcher } from 'undici'
 import { z } from 'zod'
 import { requireAuth, getAuthHeader, type AuthCredentials } from '../config/store.js'
-import { ApiError } from '../utils/errors.js'
+import { ApiError, Cron8nError } from '../utils/errors.js'
+import { print } from '../utils/print.js'
+import { sleep } from '../utils/time.js'
+import {
+  createLimiter,
+  getRequestPolicy,
+  getRetryDelay,
+  isIdempotentMethod,
+  isRetryableError,
+  isRetryableStatus,
+  isTimeoutError,
+  parseRetryAfter,
+  type Limiter,
+  type RequestPolicy
+} from './http.js'
+import { createDispatcher, describeConnectionError } from './connection.js'
 
 // n8n API Types
 const N8nTagSchema = z.object({
@@ -13,6 +28,14 @@ const N8nTagSchema = z.object({
 
 export type N8nTag = z.infer<typeof N8nTagSchema>
 
+const N8nCredentialSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string()
+})
+
+export type N8nCredential = z.infer<typeof N8nCredentialSchema>
+
 const N8nNodeSchema = z.object({
   id: z.string().optional(),
   name: z.string(),
@@ -20,7 +43,9 @@ const N8nNodeSchema = z.object({
   typeVersion: z.number().optional(),
   position: z.array(z.number()),
   parameters: z.record(z.unknown()).optional(),
-  credentials: z.record(z.unknown()).optional()
+  credentials: z.record(z.unknown()).optional(),
+  // e.g. "continueRegularOutput" to pass errors on as items
+  onError: z.string().optional()
 })
 
 export type N8nNode = z.infer<typeof N8nNodeSchema>
@@ -49,6 +74,40 @@ const TagListResponseSchema = z.object({
   data: z.array(N8nTagSchema)
 })
 
+const N8nExecutionStatusSchema = z.enum([
+  'canceled',
+  'crashed',
+  'error',
+  'new',
+  'running',
+  'success',
+  'unknown',
+  'waiting'
+])
+
+export type N8nExecutionStatus = z.infer<typeof N8nExecutionStatusSchema>
+
+const N8nExecutionSchema = z.object({
+  id: z.coerce.string(),
+  workflowId: z.coerce.string(),
+  finished: z.boolean().optional(),
+  mode: z.string().optional(),
+  status: N8nExecutionStatusSchema.optional(),
+  startedAt: z.string().nullable().optional(),
+  stoppedAt: z.string().nullable().optional(),
+  retryOf: z.coerce.string().nullable().optional(),
+  retrySuccessId: z.coerce.string().nullable().optional(),
+  waitTill: z.string().nullable().optional(),
+  data: z.record(z.unknown()).optional()
+})
+
+export type N8nExecution = z.infer<typeof N8nExecutionSchema>
+
+const ExecutionListResponseSchema = z.object({
+  data: z.array(N8nExecutionSchema),
+  nextCursor: z.string().nullable().optional()
+})
+
 export interface ListWorkflowsOptions {
   active?: boolean
   tags?: string[]
@@ -56,6 +115,21 @@ export interface ListWorkflowsOptions {
   cursor?: string
 }
 
+/**
+ * Execution statuses accepted by the executions list filter
+ */
+export const EXECUTION_STATUS_FILTERS = ['error', 'success', 'waiting'] as const
+
+export type ExecutionStatusFilter = typeof EXECUTION_STATUS_FILTERS[number]
+
+export interface ListExecutionsOptions {
+  workflowId?: string
+  status?: ExecutionStatusFilter
+  includeData?: boolean
+  limit?: number
+  cursor?: string
+}
+
 export interface CreateWorkflowOptions {
   name: string
   nodes: N8nNode[]
@@ -64,18 +138,56 @@ export interface CreateWorkflowOptions {
   active?: boolean
 }
 
+export interface CreateCredentialOptions {
+  name: string
+  type: string
+  data: Record<string, unknown>
+}
+
 export interface UpdateWorkflowOptions extends Partial<CreateWorkflowOptions> {
   id: string
 }
 
+/**
+ * Overrides of the request policy (timeouts, retries, concurrency)
+ */
+export type ClientOptions = Partial<RequestPolicy>
+
+interface HttpResponse {
+  statusCode: number
+  body: string
+}
+
+export interface RequestStats {
+  requests: number
+  retries: number
+}
+
+// Counted across clients for the --verbose summary
+const requestStats: RequestStats = { requests: 0, retries: 0 }
+
+/**
+ * Gets the number of HTTP requests and retries made so far
+ */
+export function getRequestStats(): RequestStats {
+  return { ...requestStats }
+}
+
 class N8nClient {
   private auth: AuthCredentials
+  private policy: RequestPolicy
+  // Shared by all calls of this client
+  private limit: Limiter
+  // Created on the first request since it reads the profile's PEM files
+  private dispatcher?: Promise<Dispatcher | undefined>
 
-  constructor(auth: AuthCredentials) {
+  constructor(auth: AuthCredentials, options: ClientOptions = {}) {
     this.auth = auth
+    this.policy = getRequestPolicy(options)
+    this.limit = createLimiter(this.policy.concurrency)
   }
 
-  private get baseUrl(): string {
+  get baseUrl(): string {
     return this.auth.baseUrl.replace(/\/$/, '')
   }
 
@@ -87,6 +199,66 @@ class N8nClient {
     }
   }
 
+  /**
+   * Sends a request within the concurrency limit and the timeout. Failed
+   * idempotent requests are retried on connection errors, timeouts, 429
+   * and 5xx responses, with backoff honoring Retry-After.
+   */
+  private async send(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: string
+  ): Promise<HttpResponse> {
+    const retries = isIdempotentMethod(method) ? this.policy.retries : 0
+    this.dispatcher ??= createDispatcher(this.auth.connection)
+    const dispatcher = await this.dispatcher
+
+    for (let attempt = 0; ; attempt++) {
+      let reason: string
+      let retryAfter: number | undefined
+
+      try {
+        const response = await this.limit(async () => {
+          const response = await request(url, {
+            method,
+            headers,
+            body,
+            headersTimeout: this.policy.timeout,
+            bodyTimeout: this.policy.timeout,
+            ...(dispatcher ? { dispatcher } : {})
+          })
+          return { statusCode: response.statusCode, headers: response.headers, body: await response.body.text() }
+        })
+        requestStats.requests++
+
+        if (attempt >= retries || !isRetryableStatus(response.statusCode)) {
+          return response
+        }
+        reason = `status ${response.statusCode}`
+        retryAfter = parseRetryAfter(response.headers?.['retry-after'])
+      } catch (error) {
+        requestStats.requests++
+        if (attempt >= retries || !isRetryableError(error)) {
+          if (isTimeoutError(error)) {
+            throw new ApiError(
+              `Request timed out after ${this.policy.timeout}ms`,
+              undefined,
+              'Set CRON8N_HTTP_TIMEOUT (milliseconds) to wait longer'
+            )
+          }
+          throw error
+        }
+        reason = error instanceof Error ? error.message : String(error)
+      }
+
+      const delay = getRetryDelay(attempt, this.policy, retryAfter)
+      requestStats.retries++
+      print.verbose(`${method} ${url} failed (${reason}), retry ${attempt + 1}/${retries} in ${delay}ms`)
+      await sleep(delay)
+    }
+  }
+
   private async request<T>(
     method: string,
     path: string,
@@ -95,13 +267,8 @@ class N8nClient {
     const url = `${this.baseUrl}/api/v1${path}`
 
     try {
-      const response = await request(url, {
-        method,
-        headers: this.headers,
-        body: body ? JSON.stringify(body) : undefined
-      })
-
-      const responseBody = await response.body.text()
+      const response = await this.send(method, url, this.headers, body ? JSON.stringify(body) : undefined)
+      const responseBody = response.body
 
       if (response.statusCode >= 400) {
         let errorMessage = `API request failed with status ${response.statusCode}`
@@ -122,12 +289,25 @@ class N8nClient {
 
       return JSON.parse(responseBody) as T
     } catch (error) {
-      if (error instanceof ApiError) throw error
-      if (error instanceof Error) {
-        throw new ApiError(`Request failed: ${error.message}`)
-      }
-      throw new ApiError('An unexpected error occurred')
+      throw this.toApiError(error)
+    }
+  }
+
+  private toApiError(error: unknown): Error {
+    if (error instanceof Cron8nError) return error
+    if (error instanceof Error) {
+      const { message, hint } = describeConnectionError(error, this.auth.connection)
+      return new ApiError(message, undefined, hint)
     }
+    return new ApiError('An unexpected error occurred')
+  }
+
+  /**
+   * Checks that n8n is reachable with the credentials, failing with the
+   * reason otherwise
+   */
+  async verifyConnection(): Promise<void> {
+    await this.request('GET', '/workflows?limit=1')
   }
 
   /**
@@ -135,7 +315,7 @@ class N8nClient {
    */
   async testConnection(): Promise<boolean> {
     try {
-      await this.request('GET', '/workflows?limit=1')
+      await this.verifyConnection()
       return true
     } catch {
       return false
@@ -284,19 +464,108 @@ class N8nClient {
     const allTagIds = [...new Set([...existingTagIds, ...tagIds])]
     await this.setWorkflowTags(workflowId, allTagIds)
   }
+
+  /**
+   * Creates a credential; n8n never returns its data
+   */
+  async createCredential(options: CreateCredentialOptions): Promise<N8nCredential> {
+    const response = await this.request<N8nCredential>('POST', '/credentials', options)
+    return N8nCredentialSchema.parse(response)
+  }
+
+  /**
+   * Deletes a credential
+   */
+  async deleteCredential(id: string): Promise<void> {
+    await this.request('DELETE', `/credentials/${id}`)
+  }
+
+  /**
+   * Calls a production webhook of an active workflow, with extra headers
+   * such as the token of an authenticated webhook
+   */
+  async triggerWebhook(path: string, payload: unknown = {}, headers: Record<string, string> = {}): Promise<void> {
+    const url = `${this.baseUrl}/webhook/${path}`
+
+    try {
+      const response = await this.send('POST', url, { ...headers, 'Content-Type': 'application/json' }, JSON.stringify(payload))
+
+      if (response.statusCode === 404) {
+        throw new ApiError(
+          'Webhook not registered',
+          response.statusCode,
+          'Make sure the workflow is active and was deployed with --run-trigger'
+        )
+      }
+
+      if (response.statusCode >= 400) {
+        throw new ApiError(
+          `Webhook call failed with status ${response.statusCode}`,
+          response.statusCode,
+          response.statusCode === 401 || response.statusCode === 403
+            ? 'The run trigger token is derived from the API key; redeploy after changing it'
+            : undefined
+        )
+      }
+    } catch (error) {
+      throw this.toApiError(error)
+    }
+  }
+
+  /**
+   * Lists executions with optional filtering
+   */
+  async listExecutions(options: ListExecutionsOptions = {}): Promise<N8nExecution[]> {
+    const executions: N8nExecution[] = []
+    let cursor: string | undefined = options.cursor
+
+    do {
+      const params = new URLSearchParams()
+      if (options.workflowId) params.set('workflowId', options.workflowId)
+      if (options.status) params.set('status', options.status)
+      if (options.includeData) params.set('includeData', 'true')
+      if (options.limit) params.set('limit', String(options.limit))
+      if (cursor) params.set('cursor', cursor)
+
+      const query = params.toString()
+      const path = `/executions${query ? `?${query}` : ''}`
+
+      const response = await this.request<z.infer<typeof ExecutionListResponseSchema>>('GET', path)
+      const parsed = ExecutionListResponseSchema.parse(response)
+
+      executions.push(...parsed.data)
+      cursor = parsed.nextCursor ?? undefined
+
+      // If limit was specified, don't paginate
+      if (options.limit) break
+    } while (cursor)
+
+    return executions
+  }
+
+  /**
+   * Gets a single execution by ID
+   */
+  async getExecution(id: string, includeData = false): Promise<N8nExecution> {
+    const query = includeData ? '?includeData=true' : ''
+    const response = await this.request<N8nExecution>('GET', `/executions/${id}${query}`)
+    return N8nExecutionSchema.parse(response)
+  }
 }
 
+export type { N8nClient }
+
 /**
  * Creates a new n8n API client with provided auth
  */
-export function createClient(auth: AuthCredentials): N8nClient {
-  return new N8nClient(auth)
+export function createClient(auth: AuthCredentials, options?: ClientOptions): N8nClient {
+  return new N8nClient(auth, options)
 }
 
 /**
- * Gets the default client using stored auth
+ * Gets a client using stored auth of a profile (the active one by default)
  */
-export async function getClient(): Promise<N8nClient> {
-  const auth = await requireAuth()
-  return new N8nClient(auth)
+export async function getClient(profile?: string, options?: ClientOptions): Promise<N8nClient> {
+  const auth = await requireAuth(profile)
+  return new N8nClient(auth, options)
 }
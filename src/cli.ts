@@ -1,16 +1,32 @@
 import { Command } from 'commander'
+import { setActiveProfile } from './config/store.js'
+import { loadProjectConfig } from './config/project.js'
+import { print, setVerbose } from './utils/print.js'
+import { handleError } from './utils/errors.js'
+import { getRequestStats } from './api/n8nClient.js'
 import { createAuthLoginCommand } from './commands/auth.login.js'
 import { createAuthStatusCommand } from './commands/auth.status.js'
+import { createAuthUseCommand } from './commands/auth.use.js'
 import { createCronNewCommand } from './commands/cron.new.js'
 import { createCronDeployCommand } from './commands/cron.deploy.js'
 import { createCronListCommand } from './commands/cron.list.js'
 import { createCronInspectCommand } from './commands/cron.inspect.js'
+import { createCronExecsCommand } from './commands/cron.execs.js'
+import { createCronRunCommand } from './commands/cron.run.js'
+import { createCronDiffCommand } from './commands/cron.diff.js'
+import { createCronPullCommand } from './commands/cron.pull.js'
+import { createCronPlanCommand } from './commands/cron.plan.js'
+import { createCronApplyCommand } from './commands/cron.apply.js'
+import { createCronPromoteCommand } from './commands/cron.promote.js'
 import { createCronImportCommand } from './commands/cron.import.js'
 import { createCronValidateCommand } from './commands/cron.validate.js'
+import { createCronCalendarCommand } from './commands/cron.calendar.js'
+import { createCronAnalyzeCommand } from './commands/cron.analyze.js'
 import { createCronArchiveCommand } from './commands/cron.archive.js'
 import { createCronActivateCommand } from './commands/cron.activate.js'
 import { createCronDeactivateCommand } from './commands/cron.deactivate.js'
 import { createCronEditCommand } from './commands/cron.edit.js'
+import { createCronTemplateSaveCommand } from './commands/cron.template.save.js'
 import { createUiCommand } from './commands/ui.js'
 
 const program = new Command()
@@ -19,6 +35,26 @@ program
   .name('cron8n')
   .description('CLI tool for managing n8n cron-triggered workflows')
   .version('1.0.0')
+  .option('--profile <name>', 'n8n instance profile to use (default: $CRON8N_PROFILE or the default profile)')
+  .option('--verbose', 'Show HTTP retries and request counts')
+  .hook('preAction', async () => {
+    const options = program.opts<{ profile?: string; verbose?: boolean }>()
+    setActiveProfile(options.profile)
+    setVerbose(!!options.verbose)
+    try {
+      await loadProjectConfig()
+    } catch (error) {
+      handleError(error)
+    }
+  })
+
+// On exit rather than after the action, so failed commands report it too
+process.on('exit', () => {
+  const { requests, retries } = getRequestStats()
+  if (requests > 0) {
+    print.verbose(`HTTP requests: ${requests}, retries: ${retries}`)
+  }
+})
 
 // Auth commands
 const authCommand = new Command('auth')
@@ -26,6 +62,7 @@ const authCommand = new Command('auth')
 
 authCommand.addCommand(createAuthLoginCommand())
 authCommand.addCommand(createAuthStatusCommand())
+authCommand.addCommand(createAuthUseCommand())
 
 program.addCommand(authCommand)
 
@@ -36,14 +73,31 @@ const cronCommand = new Command('cron')
 cronCommand.addCommand(createCronNewCommand())
 cronCommand.addCommand(createCronEditCommand())
 cronCommand.addCommand(createCronDeployCommand())
+cronCommand.addCommand(createCronDiffCommand())
+cronCommand.addCommand(createCronPullCommand())
+cronCommand.addCommand(createCronPlanCommand())
+cronCommand.addCommand(createCronApplyCommand())
+cronCommand.addCommand(createCronPromoteCommand())
 cronCommand.addCommand(createCronListCommand())
 cronCommand.addCommand(createCronInspectCommand())
+cronCommand.addCommand(createCronExecsCommand())
+cronCommand.addCommand(createCronRunCommand())
 cronCommand.addCommand(createCronImportCommand())
 cronCommand.addCommand(createCronValidateCommand())
+cronCommand.addCommand(createCronCalendarCommand())
+cronCommand.addCommand(createCronAnalyzeCommand())
 cronCommand.addCommand(createCronActivateCommand())
 cronCommand.addCommand(createCronDeactivateCommand())
 cronCommand.addCommand(createCronArchiveCommand())
 
+// Template commands
+const templateCommand = new Command('template')
+  .description('Manage user workflow templates')
+
+templateCommand.addCommand(createCronTemplateSaveCommand())
+
+cronCommand.addCommand(templateCommand)
+
 program.addCommand(cronCommand)
 
 // UI command
@@ -1,57 +1,118 @@
 import { Command } from 'commander'
-import { getAuth, printAuthStatus } from '../config/store.js'
+import kleur from 'kleur'
+import {
+  getAuth,
+  getActiveProfileName,
+  getSecretBackendDescription,
+  listProfiles,
+  printAuthStatus,
+  type AuthCredentials
+} from '../config/store.js'
 import { createClient } from '../api/n8nClient.js'
 import { print } from '../utils/print.js'
-import { handleError } from '../utils/errors.js'
+import { handleError, AuthError } from '../utils/errors.js'
 
 interface StatusOptions {
   json?: boolean
 }
 
+/**
+ * Gets why the connection to n8n fails, or undefined when it works
+ */
+async function getConnectionError(auth: AuthCredentials): Promise<string | undefined> {
+  try {
+    await createClient(auth).verifyConnection()
+    return undefined
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
 async function statusAction(options: StatusOptions): Promise<void> {
   try {
-    const auth = await getAuth()
+    const profiles = await listProfiles()
+    const secretBackend = await getSecretBackendDescription()
+
+    // A profile whose secret backend fails (unset variable, failing command,
+    // wrong passphrase) is still reported, with the reason
+    let auth: AuthCredentials | null = null
+    let secretError: AuthError | undefined
+    try {
+      auth = await getAuth()
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error
+      secretError = error
+    }
 
     if (options.json) {
       if (!auth) {
-        print.json({ authenticated: false })
+        print.json({
+          authenticated: false,
+          ...(secretError ? { profile: await getActiveProfileName(), secretBackend, secretError: secretError.message } : {}),
+          profiles
+        })
         return
       }
 
-      const client = createClient(auth)
-      const isConnected = await client.testConnection()
+      const connectionError = await getConnectionError(auth)
 
       print.json({
         authenticated: true,
+        profile: auth.profile,
         baseUrl: auth.baseUrl,
         authMode: auth.authMode,
         secretMasked: '*'.repeat(auth.secret.length - 4) + auth.secret.slice(-4),
-        connectionValid: isConnected
+        secretBackend,
+        connectionValid: !connectionError,
+        ...(connectionError ? { connectionError } : {}),
+        connection: auth.connection ?? {},
+        profiles
       })
       return
     }
 
     print.header('Authentication Status')
 
-    if (!auth) {
-      print.warning('Not authenticated')
-      print.info('Run "cron8n auth login" to authenticate')
-      return
-    }
+    if (secretError) {
+      print.keyValue('Profile', await getActiveProfileName())
+      print.keyValue('Secret Backend', secretBackend ?? '')
+      print.error(`Cannot read the secret: ${secretError.message}`)
+      if (secretError.hint) print.dim(`  ${secretError.hint}`)
+    } else if (!auth) {
+      const profile = await getActiveProfileName()
+      print.warning(`Not authenticated (profile: ${profile})`)
+      print.info(`Run "cron8n auth login --profile ${profile}" to authenticate`)
+    } else {
+      await printAuthStatus()
 
-    await printAuthStatus()
+      print.newline()
+      print.info('Verifying connection...')
 
-    print.newline()
-    print.info('Verifying connection...')
+      const connectionError = await getConnectionError(auth)
 
-    const client = createClient(auth)
-    const isConnected = await client.testConnection()
+      if (!connectionError) {
+        print.success('Connection verified')
+      } else {
+        print.error(`Connection failed: ${connectionError}`)
+        print.warning('Your credentials may be invalid or the server is unreachable')
+      }
+    }
 
-    if (isConnected) {
-      print.success('Connection verified')
-    } else {
-      print.error('Connection failed')
-      print.warning('Your credentials may be invalid or the server is unreachable')
+    if (profiles.length > 0) {
+      print.newline()
+      print.header('Profiles')
+      const headers = ['', 'Profile', 'Base URL', 'Auth Mode', 'Secret', 'Default']
+      const rows = profiles.map(p => [
+        p.isActive ? kleur.green('●') : ' ',
+        p.name,
+        p.baseUrl,
+        p.authMode,
+        p.secretBackend,
+        p.isDefault ? kleur.green('✓') : ''
+      ])
+      print.table(headers, rows)
+      print.newline()
+      print.dim('  ● active profile (select with --profile or CRON8N_PROFILE)')
     }
   } catch (error) {
     handleError(error)
@@ -60,7 +121,7 @@ async function statusAction(options: StatusOptions): Promise<void> {
 
 export function createAuthStatusCommand(): Command {
   return new Command('status')
-    .description('Show current authentication status')
+    .description('Show authentication status and configured profiles')
     .option('--json', 'Output as JSON')
     .action(statusAction)
 }
@@ -0,0 +1,20 @@
+import { Command } from 'commander'
+import { setDefaultProfile } from '../config/store.js'
+import { print } from '../utils/print.js'
+import { handleError } from '../utils/errors.js'
+
+async function useAction(profile: string): Promise<void> {
+  try {
+    await setDefaultProfile(profile)
+    print.success(`Default profile set to "${profile}"`)
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createAuthUseCommand(): Command {
+  return new Command('use')
+    .description('Set the default n8n instance profile')
+    .argument('<profile>', 'Profile name')
+    .action(useAction)
+}
@@ -1,9 +1,15 @@
 import { Command } from 'commander'
 import { print } from '../utils/print.js'
-import { handleError, ValidationError } from '../utils/errors.js'
+import { handleError } from '../utils/errors.js'
 import { getClient } from '../api/n8nClient.js'
-import { loadManifest, manifestExists } from '../workflows/manifest.js'
-import { getCwd } from '../utils/fs.js'
+import { getActiveProfileName } from '../config/store.js'
+import {
+  loadManifest,
+  manifestExists,
+  updateManifestActive,
+  requireDeployedWorkflowId
+} from '../workflows/manifest.js'
+import { getProjectRoot } from '../config/project.js'
 
 interface ActivateOptions {
   json?: boolean
@@ -11,21 +17,15 @@ interface ActivateOptions {
 
 async function activateAction(slugOrId: string, options: ActivateOptions): Promise<void> {
   try {
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
     let workflowId = slugOrId
+    let slug: string | undefined
 
     // Check if it's a local slug
     if (await manifestExists(slugOrId, basePath)) {
       const manifest = await loadManifest(slugOrId, basePath)
-      
-      if (!manifest.lastDeployedWorkflowId) {
-        throw new ValidationError(
-          `Workflow "${slugOrId}" is not deployed yet`,
-          `Deploy first with: cron8n cron deploy ${slugOrId}`
-        )
-      }
-      
-      workflowId = manifest.lastDeployedWorkflowId
+      workflowId = requireDeployedWorkflowId(manifest, await getActiveProfileName())
+      slug = manifest.slug
       print.info(`Activating workflow: ${manifest.name}`)
     } else {
       print.info(`Activating workflow: ${workflowId}`)
@@ -34,6 +34,11 @@ async function activateAction(slugOrId: string, options: ActivateOptions): Promi
     const client = await getClient()
     const workflow = await client.activateWorkflow(workflowId)
 
+    // Record the desired state for "cron plan"
+    if (slug) {
+      await updateManifestActive(slug, true, basePath)
+    }
+
     if (options.json) {
       print.json({
         id: workflow.id,
@@ -0,0 +1,152 @@
+import { Command } from 'commander'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError } from '../utils/errors.js'
+
+import { loadAllManifests } from '../workflows/manifest.js'
+import {
+  analyzeSchedules,
+  getManifestSchedules,
+  getRemoteSchedules,
+  type AnalysisReport
+} from '../workflows/analyze.js'
+import { getClient } from '../api/n8nClient.js'
+import { getProjectRoot } from '../config/project.js'
+
+interface AnalyzeCommandOptions {
+  remote?: boolean
+  from?: string
+  days?: string
+  threshold?: string
+  duration?: string
+  json?: boolean
+}
+
+// Keeps the overlap table readable when many jobs share a slot
+const MAX_OVERLAP_ROWS = 20
+
+function parsePositiveInt(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback
+  const parsed = parseInt(value, 10)
+  if (Number.isNaN(parsed) || parsed < 1) {
+    throw new ValidationError(`Invalid ${name}: ${value}`, `${name} must be a positive number`)
+  }
+  return parsed
+}
+
+function printReport(report: AnalysisReport, threshold: number, duration: number): void {
+  print.header(`Collisions (${threshold}+ jobs in the same minute, UTC)`)
+  if (report.collisions.length === 0) {
+    print.success('No collisions found')
+  } else {
+    print.table(
+      ['UTC', 'Jobs', 'Times', 'Workflows'],
+      report.collisions.map(c => [c.time, String(c.jobs.length), String(c.occurrences), c.jobs.join(', ')])
+    )
+  }
+
+  print.header(`Overlapping runs (expected duration ${duration}m)`)
+  if (report.overlaps.length === 0) {
+    print.success('No overlapping runs found')
+  } else {
+    print.table(
+      ['Workflow', 'Workflow', 'Overlapping runs'],
+      report.overlaps.slice(0, MAX_OVERLAP_ROWS).map(o => [o.jobs[0], o.jobs[1], String(o.count)])
+    )
+    if (report.overlaps.length > MAX_OVERLAP_ROWS) {
+      print.dim(`  ...and ${report.overlaps.length - MAX_OVERLAP_ROWS} more (use --json for all)`)
+    }
+  }
+
+  if (report.selfOverlaps.length > 0) {
+    print.newline()
+    print.warning('Workflows that start again before the previous run is expected to finish:')
+    print.list(report.selfOverlaps.map(s => `${s.job} (runs every ${s.minGapMinutes}m)`))
+  }
+
+  if (report.suggestions.length > 0 || report.unresolved.length > 0) {
+    print.header('Suggested offsets')
+    if (report.suggestions.length > 0) {
+      print.table(
+        ['Workflow', 'Current', 'Suggested', 'Offset'],
+        report.suggestions.map(s => [s.job, s.from, s.to, `+${s.offsetMinutes}m`])
+      )
+    }
+    if (report.unresolved.length > 0) {
+      print.dim(`  Could not suggest an offset for: ${report.unresolved.join(', ')}`)
+    }
+  }
+
+  print.newline()
+  print.keyValue('Period', `${report.from} → ${report.to}`)
+  print.keyValue('Workflows', String(report.jobs))
+  print.keyValue('Runs', String(report.runs))
+
+  for (const job of report.truncated) {
+    print.warning(`${job}: too many runs, analysis truncated`)
+  }
+  for (const job of report.invalid) {
+    print.warning(`${job}: invalid cron expression, skipped`)
+  }
+}
+
+async function analyzeAction(options: AnalyzeCommandOptions): Promise<void> {
+  try {
+    const from = options.from ? new Date(options.from) : new Date()
+    if (Number.isNaN(from.getTime())) {
+      throw new ValidationError(`Invalid date: ${options.from}`, 'Use an ISO date, e.g. 2026-03-01 or 2026-03-01T08:00:00Z')
+    }
+
+    const days = options.days ? parseInt(options.days, 10) : 7
+    if (Number.isNaN(days) || days < 1 || days > 366) {
+      throw new ValidationError(`Invalid number of days: ${options.days}`, 'Days must be between 1 and 366')
+    }
+    const threshold = parsePositiveInt(options.threshold, 3, 'threshold')
+    const duration = parsePositiveInt(options.duration, 5, 'duration')
+
+    let schedules
+    if (options.remote) {
+      const client = await getClient()
+      if (!options.json) {
+        print.info('Fetching workflows from n8n...')
+      }
+      schedules = getRemoteSchedules(await client.listWorkflows())
+    } else {
+      schedules = getManifestSchedules(await loadAllManifests(getProjectRoot()))
+    }
+
+    const report = analyzeSchedules(schedules, { from, days, threshold, duration })
+
+    if (options.json) {
+      print.json({ source: options.remote ? 'remote' : 'local', threshold, duration, ...report })
+      return
+    }
+
+    if (schedules.length === 0) {
+      print.warning(options.remote ? 'No active cron workflows found' : 'No local workflows found')
+      return
+    }
+
+    print.info(`Analyzing ${schedules.length} ${options.remote ? 'remote' : 'local'} schedule(s) over ${days} day(s)`)
+    printReport(report, threshold, duration)
+
+    if (report.collisions.length > 0) {
+      print.newline()
+      print.dim('  Apply a suggestion with: cron8n cron edit <slug> --cron "<expression>"')
+      print.dim('  For schedule <slug>#<n> of a job with several, use --remove-schedule <n> and --add-schedule')
+    }
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronAnalyzeCommand(): Command {
+  return new Command('analyze')
+    .description('Find schedule collisions and overlapping runs across workflows')
+    .option('--remote', 'Analyze active workflows on the n8n server instead of local manifests')
+    .option('--from <date>', 'Start of the analyzed period (default: now)')
+    .option('--days <n>', 'Number of days to analyze (default: 7)')
+    .option('--threshold <n>', 'Jobs in the same minute to report a collision (default: 3)')
+    .option('--duration <minutes>', 'Expected job duration used for overlaps (default: 5)')
+    .option('--json', 'Output as JSON')
+    .action(analyzeAction)
+}
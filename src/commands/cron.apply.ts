@@ -0,0 +1,157 @@
+import { Command } from 'commander'
+import prompts from 'prompts'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError } from '../utils/errors.js'
+
+import { getClient } from '../api/n8nClient.js'
+import { getActiveProfileName } from '../config/store.js'
+import { loadManifest, loadWorkflow, updateManifestActive } from '../workflows/manifest.js'
+import { deployWorkflow, deleteDeployedWorkflow } from '../workflows/deploy.js'
+import { createPlan, loadPlanInput, type PlanAction } from '../workflows/plan.js'
+import { removeRegistryEntry } from '../config/registry.js'
+import { printPlan } from './cron.plan.js'
+import { getProjectRoot } from '../config/project.js'
+
+interface ApplyOptions {
+  yes?: boolean
+  json?: boolean
+}
+
+interface ApplyResult extends PlanAction {
+  success: boolean
+  error?: string
+}
+
+async function applyAction(options: ApplyOptions): Promise<void> {
+  try {
+    // JSON output is for scripts, which cannot answer the confirmation
+    if (options.json && !options.yes) {
+      throw new ValidationError('--json needs --yes', 'Run "cron8n cron plan --json" to preview the changes')
+    }
+
+    const basePath = getProjectRoot()
+    const env = await getActiveProfileName()
+    const client = await getClient()
+
+    if (!options.json) {
+      print.info('Comparing local manifests with n8n...')
+    }
+
+    const plan = createPlan(await loadPlanInput(client, basePath, env))
+
+    if (plan.actions.length === 0) {
+      if (options.json) {
+        print.json({ plan, results: [] })
+        return
+      }
+      printPlan(plan)
+      return
+    }
+
+    if (!options.json) {
+      printPlan(plan)
+      print.newline()
+    }
+
+    // Confirm if not forced
+    if (!options.yes) {
+      const { confirm } = await prompts({
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Apply these changes?',
+        initial: false
+      })
+
+      if (!confirm) {
+        print.warning('Apply cancelled')
+        return
+      }
+    }
+
+    const results: ApplyResult[] = []
+    // Workflow IDs of workflows created during this run, by slug
+    const createdIds = new Map<string, string>()
+
+    for (const action of plan.actions) {
+      try {
+        switch (action.type) {
+          case 'create':
+          case 'update': {
+            const manifest = await loadManifest(action.slug, basePath)
+            const workflowData = await loadWorkflow(action.slug, basePath)
+            // Creates must not reuse a stale deployed ID
+            const result = await deployWorkflow(
+              client,
+              manifest,
+              workflowData,
+              basePath,
+              env,
+              action.type === 'create' ? undefined : action.workflowId
+            )
+            createdIds.set(action.slug, result.workflowId)
+            break
+          }
+          case 'activate':
+          case 'deactivate': {
+            const workflowId = action.workflowId ?? createdIds.get(action.slug)
+            if (!workflowId) {
+              throw new Error('Workflow was not created')
+            }
+            if (action.type === 'activate') {
+              await client.activateWorkflow(workflowId)
+            } else {
+              await client.deactivateWorkflow(workflowId)
+            }
+            await updateManifestActive(action.slug, action.type === 'activate', basePath)
+            break
+          }
+          case 'delete':
+            await deleteDeployedWorkflow(client, action.workflowId!, action.resources)
+            await removeRegistryEntry(action.slug, basePath)
+            break
+        }
+
+        results.push({ ...action, success: true })
+        if (!options.json) {
+          print.success(`${action.type} ${action.slug}`)
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        results.push({ ...action, success: false, error: message })
+        if (!options.json) {
+          print.error(`${action.type} ${action.slug}: ${message}`)
+        }
+        // Stop at the first failure, like a partial deploy would
+        break
+      }
+    }
+
+    const failed = results.some(r => !r.success)
+    if (failed) {
+      process.exitCode = 1
+    }
+
+    if (options.json) {
+      print.json({ plan, results })
+      return
+    }
+
+    print.newline()
+    if (failed) {
+      print.error(`Apply stopped after ${results.length} of ${plan.actions.length} actions`)
+      print.info('Run "cron8n cron plan" to see the remaining changes')
+    } else {
+      print.success(`Apply complete: ${results.length} action(s) applied`)
+    }
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronApplyCommand(): Command {
+  return new Command('apply')
+    .description('Apply the plan: create, update, activate, deactivate and delete workflows')
+    .option('--yes', 'Skip confirmation prompt')
+    .option('--json', 'Output as JSON (needs --yes)')
+    .action(applyAction)
+}
@@ -5,7 +5,6 @@ import { handleError, FileError } from '../utils/errors.js'
 import { 
   exists, 
   writeFile, 
-  getCwd, 
   join, 
   ensureDir,
   moveFile
@@ -14,11 +13,15 @@ import {
   loadManifest, 
   getWorkflowPath, 
   getManifestPath,
-  getWorkflowsDir
+  getWorkflowsDir,
+  getDeployment
 } from '../workflows/manifest.js'
+import { deleteDeployedWorkflow } from '../workflows/deploy.js'
 import { getClient } from '../api/n8nClient.js'
+import { getActiveProfileName } from '../config/store.js'
 import { removeRegistryEntry } from '../config/registry.js'
 import { getISOTimestamp } from '../utils/time.js'
+import { getProjectRoot, getWorkflowsDirName } from '../config/project.js'
 
 interface ArchiveOptions {
   deleteRemote?: boolean
@@ -28,7 +31,7 @@ interface ArchiveOptions {
 
 async function archiveAction(slug: string, options: ArchiveOptions): Promise<void> {
   try {
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
     const workflowPath = getWorkflowPath(slug, basePath)
     const manifestPath = getManifestPath(slug, basePath)
 
@@ -36,7 +39,7 @@ async function archiveAction(slug: string, options: ArchiveOptions): Promise<voi
     if (!(await exists(manifestPath))) {
       throw new FileError(
         `Manifest not found for slug: ${slug}`,
-        `Make sure the workflow exists in ./workflows/${slug}.cron8n.json`
+        `Make sure the workflow exists in ./${getWorkflowsDirName()}/${slug}.cron8n.json`
       )
     }
 
@@ -62,21 +65,23 @@ async function archiveAction(slug: string, options: ArchiveOptions): Promise<voi
     }
 
     const client = await getClient()
+    const deployment = getDeployment(manifest, await getActiveProfileName())
+    const workflowId = deployment?.workflowId
 
     // Handle remote workflow
-    if (manifest.lastDeployedWorkflowId) {
+    if (workflowId) {
       print.info('Processing remote workflow...')
 
       try {
         if (options.deleteRemote) {
-          // Delete from n8n
+          // Delete from n8n, with its error workflow and run trigger credential
           print.info('Deleting workflow from n8n...')
-          await client.deleteWorkflow(manifest.lastDeployedWorkflowId)
+          await deleteDeployedWorkflow(client, workflowId, deployment)
           print.success('Workflow deleted from n8n')
         } else {
           // Just deactivate
           print.info('Deactivating workflow in n8n...')
-          await client.deactivateWorkflow(manifest.lastDeployedWorkflowId)
+          await client.deactivateWorkflow(workflowId)
           print.success('Workflow deactivated in n8n')
         }
       } catch (error) {
@@ -0,0 +1,169 @@
+import { Command } from 'commander'
+import kleur from 'kleur'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError } from '../utils/errors.js'
+
+import { loadAllManifests } from '../workflows/manifest.js'
+import {
+  expandSchedules,
+  buildHourlyGrid,
+  getBusiestSlots,
+  getZonedHour,
+  type CalendarDay,
+  type CalendarEvent
+} from '../workflows/calendar.js'
+import { getManifestSchedules } from '../workflows/analyze.js'
+import { getProjectRoot } from '../config/project.js'
+
+interface CalendarOptions {
+  from?: string
+  days?: string
+  timezone?: string
+  agenda?: boolean
+  json?: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function formatCount(count: number): string {
+  const cell = count === 0 ? '·' : count > 99 ? '++' : String(count)
+  const padded = cell.padStart(2)
+  if (count === 0) return kleur.dim(padded)
+  if (count <= 2) return kleur.green(padded)
+  if (count <= 5) return kleur.yellow(padded)
+  return kleur.red(padded)
+}
+
+function printGrid(grid: CalendarDay[]): void {
+  const hours = Array.from({ length: 24 }, (_, h) => String(h).padStart(2, '0'))
+  print.bold(`${''.padEnd(10)}  ${hours.join(' ')}`)
+
+  for (const day of grid) {
+    print.line(`${day.date}  ${day.hours.map(events => formatCount(events.length)).join(' ')}`)
+  }
+}
+
+function printAgenda(events: CalendarEvent[], timezone: string): void {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  })
+
+  let currentDate: string | undefined
+  let index = 0
+
+  while (index < events.length) {
+    const time = events[index]!.time.getTime()
+    const sameTime: CalendarEvent[] = []
+    while (index < events.length && events[index]!.time.getTime() === time) {
+      sameTime.push(events[index]!)
+      index++
+    }
+
+    const { date } = getZonedHour(new Date(time), timezone)
+    if (date !== currentDate) {
+      print.header(date)
+      currentDate = date
+    }
+
+    const slugs = sameTime.map(e => e.slug).join(', ')
+    const label = formatter.format(new Date(time))
+    print.line(`  ${kleur.cyan(label)}  ${sameTime.length > 1 ? kleur.yellow(slugs) : slugs}`)
+  }
+}
+
+async function calendarAction(options: CalendarOptions): Promise<void> {
+  try {
+    const from = options.from ? new Date(options.from) : new Date()
+    if (Number.isNaN(from.getTime())) {
+      throw new ValidationError(`Invalid date: ${options.from}`, 'Use an ISO date, e.g. 2026-03-01 or 2026-03-01T08:00:00Z')
+    }
+
+    const days = options.days ? parseInt(options.days, 10) : 7
+    if (Number.isNaN(days) || days < 1 || days > 366) {
+      throw new ValidationError(`Invalid number of days: ${options.days}`, 'Days must be between 1 and 366')
+    }
+
+    const timezone = options.timezone ?? 'UTC'
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    } catch {
+      throw new ValidationError(`Invalid timezone: ${timezone}`, 'Use an IANA timezone, e.g. UTC or Europe/Istanbul')
+    }
+
+    const to = new Date(from.getTime() + days * DAY_MS)
+    const manifests = await loadAllManifests(getProjectRoot())
+    const { events, truncated, invalid } = expandSchedules(getManifestSchedules(manifests), from, to)
+    const grid = buildHourlyGrid(events, from, to, timezone)
+
+    if (options.json) {
+      print.json({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        timezone,
+        events: events.map(e => ({ slug: e.slug, name: e.name, time: e.time.toISOString() })),
+        grid: grid.map(day => ({
+          date: day.date,
+          hours: day.hours.map(hourEvents => hourEvents.map(e => e.slug))
+        })),
+        truncated,
+        invalid
+      })
+      return
+    }
+
+    if (manifests.length === 0) {
+      print.warning('No local workflows found')
+      return
+    }
+
+    print.header(`Schedule from ${from.toISOString()} (${days} day${days === 1 ? '' : 's'}, ${timezone})`)
+
+    if (options.agenda) {
+      printAgenda(events, timezone)
+    } else {
+      print.newline()
+      printGrid(grid)
+      print.newline()
+      print.dim('  Runs per hour: · none, green 1-2, yellow 3-5, red 6+')
+
+      const busiest = getBusiestSlots(grid)
+      if (busiest.length > 0) {
+        print.header('Busiest hours')
+        for (const slot of busiest) {
+          const slugs = [...new Set(slot.events.map(e => e.slug))]
+          print.keyValue(slot.label, `${slot.events.length} run(s): ${slugs.join(', ')}`)
+        }
+      }
+    }
+
+    print.newline()
+    print.keyValue('Workflows', String(manifests.length))
+    print.keyValue('Runs', String(events.length))
+
+    for (const slug of truncated) {
+      print.warning(`${slug}: too many runs, output truncated`)
+    }
+    for (const slug of invalid) {
+      print.warning(`${slug}: invalid cron expression, skipped`)
+    }
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronCalendarCommand(): Command {
+  return new Command('calendar')
+    .description('Show when all local workflows run, as an hourly grid or agenda')
+    .option('--from <date>', 'Start date (default: now)')
+    .option('--days <n>', 'Number of days to show (default: 7)')
+    .option('--timezone <tz>', 'Timezone to display times in (default: UTC)')
+    .option('--agenda', 'List every run instead of an hourly grid')
+    .option('--json', 'Output as JSON')
+    .action(calendarAction)
+}
@@ -2,8 +2,14 @@ import { Command } from 'commander'
 import { print } from '../utils/print.js'
 import { handleError, ValidationError } from '../utils/errors.js'
 import { getClient } from '../api/n8nClient.js'
-import { loadManifest, manifestExists } from '../workflows/manifest.js'
-import { getCwd } from '../utils/fs.js'
+import { getActiveProfileName } from '../config/store.js'
+import {
+  loadManifest,
+  manifestExists,
+  updateManifestActive,
+  getDeployedWorkflowId
+} from '../workflows/manifest.js'
+import { getProjectRoot } from '../config/project.js'
 
 interface DeactivateOptions {
   json?: boolean
@@ -11,21 +17,25 @@ interface DeactivateOptions {
 
 async function deactivateAction(slugOrId: string, options: DeactivateOptions): Promise<void> {
   try {
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
     let workflowId = slugOrId
+    let slug: string | undefined
 
     // Check if it's a local slug
     if (await manifestExists(slugOrId, basePath)) {
       const manifest = await loadManifest(slugOrId, basePath)
+      const env = await getActiveProfileName()
+      const deployedId = getDeployedWorkflowId(manifest, env)
       
-      if (!manifest.lastDeployedWorkflowId) {
+      if (!deployedId) {
         throw new ValidationError(
-          `Workflow "${slugOrId}" is not deployed yet`,
+          `Workflow "${slugOrId}" is not deployed to "${env}" yet`,
           'Nothing to deactivate'
         )
       }
       
-      workflowId = manifest.lastDeployedWorkflowId
+      workflowId = deployedId
+      slug = manifest.slug
       print.info(`Deactivating workflow: ${manifest.name}`)
     } else {
       print.info(`Deactivating workflow: ${workflowId}`)
@@ -34,6 +44,11 @@ async function deactivateAction(slugOrId: string, options: DeactivateOptions): P
     const client = await getClient()
     const workflow = await client.deactivateWorkflow(workflowId)
 
+    // Record the desired state for "cron plan"
+    if (slug) {
+      await updateManifestActive(slug, false, basePath)
+    }
+
     if (options.json) {
       print.json({
         id: workflow.id,
@@ -1,19 +1,28 @@
 import { Command } from 'commander'
 import { print } from '../utils/print.js'
-import { handleError, ValidationError, FileError } from '../utils/errors.js'
-import { readJson, getCwd } from '../utils/fs.js'
+import { handleError } from '../utils/errors.js'
 import { 
   resolveManifest, 
-  updateManifestDeployment, 
-  getWorkflowPath,
-  createTags
+  loadWorkflow,
+  saveManifest,
+  updateManifestActive,
+  getDeployment,
+  getDeployedWorkflowId,
+  getSchedules,
+  getDeployTags
 } from '../workflows/manifest.js'
-import { getClient, type N8nWorkflow } from '../api/n8nClient.js'
-import { updateWorkflowId } from '../config/registry.js'
+import { formatAlert, getErrorWorkflowName } from '../workflows/alerts.js'
+import { createRunTriggerPath } from '../workflows/runTrigger.js'
+import { deployWorkflow } from '../workflows/deploy.js'
+import { getClient } from '../api/n8nClient.js'
+import { getActiveProfileName } from '../config/store.js'
+import { findDstWarnings } from '../utils/time.js'
 
 interface DeployOptions {
   activate?: boolean
   dryRun?: boolean
+  runTrigger?: boolean
+  env?: string
 }
 
 async function deployAction(slugOrPath: string, options: DeployOptions): Promise<void> {
@@ -21,25 +30,25 @@ async function deployAction(slugOrPath: string, options: DeployOptions): Promise
     // Resolve manifest
     const { manifest, basePath } = await resolveManifest(slugOrPath)
 
+    // Environments are profile names, each with its own deployed workflow
+    const env = options.env ?? await getActiveProfileName()
+
     print.info(`Deploying workflow: ${manifest.name}`)
     print.keyValue('Slug', manifest.slug)
+    print.keyValue('Environment', env)
 
-    // Load workflow JSON
-    const workflowPath = getWorkflowPath(manifest.slug, basePath)
-    let workflowData: N8nWorkflow
-
-    try {
-      workflowData = await readJson<N8nWorkflow>(workflowPath)
-    } catch {
-      throw new FileError(
-        `Workflow file not found: ${workflowPath}`,
-        'Make sure the workflow JSON file exists'
-      )
+    for (const schedule of getSchedules(manifest)) {
+      for (const warning of findDstWarnings(schedule.cronExpression, schedule.timezone)) {
+        print.warning(warning.message)
+      }
     }
 
+    // Load workflow JSON
+    const workflowData = await loadWorkflow(manifest.slug, basePath)
+
     // Determine if this is a create or update
-    const isUpdate = !!manifest.lastDeployedWorkflowId
-    const workflowId = manifest.lastDeployedWorkflowId
+    const workflowId = getDeployedWorkflowId(manifest, env)
+    const isUpdate = !!workflowId
 
     // Dry run mode
     if (options.dryRun) {
@@ -50,68 +59,56 @@ async function deployAction(slugOrPath: string, options: DeployOptions): Promise
       }
       print.keyValue('Name', workflowData.name)
       print.keyValue('Activate', String(options.activate ?? false))
-      print.keyValue('Tags', manifest.tags.join(', '))
+      print.keyValue('Tags', getDeployTags(manifest).join(', '))
+      print.keyValue('Run Trigger', String(!!(options.runTrigger || manifest.runTriggerPath)))
+      const errorWorkflowId = getDeployment(manifest, env)?.errorWorkflowId
+      if (manifest.alert) {
+        print.keyValue('Alert', formatAlert(manifest.alert))
+        print.keyValue('Error Workflow', errorWorkflowId
+          ? `UPDATE ${errorWorkflowId}`
+          : `CREATE "${getErrorWorkflowName(manifest)}"`)
+      } else if (errorWorkflowId) {
+        print.keyValue('Error Workflow', `DELETE ${errorWorkflowId} (alert removed)`)
+      }
       return
     }
 
-    const client = await getClient()
-
-    let deployedWorkflow: N8nWorkflow
-
-    if (isUpdate && workflowId) {
-      // Update existing workflow
-      print.info('Updating existing workflow...')
-      
-      deployedWorkflow = await client.updateWorkflow({
-        id: workflowId,
-        name: workflowData.name,
-        nodes: workflowData.nodes,
-        connections: workflowData.connections,
-        settings: workflowData.settings
-      })
-
-      print.success('Workflow updated!')
-    } else {
-      // Create new workflow
-      print.info('Creating new workflow...')
-      
-      deployedWorkflow = await client.createWorkflow({
-        name: workflowData.name,
-        nodes: workflowData.nodes,
-        connections: workflowData.connections,
-        settings: workflowData.settings
-      })
-
-      print.success('Workflow created!')
+    // Enable on-demand runs (persisted so later deploys keep the trigger)
+    if (options.runTrigger && !manifest.runTriggerPath) {
+      manifest.runTriggerPath = createRunTriggerPath(manifest.slug)
+      await saveManifest(manifest, basePath)
     }
 
-    const finalWorkflowId = deployedWorkflow.id!
+    const client = await getClient(env)
 
-    // Add cron8n tags
-    print.info('Setting tags...')
-    const tags = createTags(manifest.slug)
-    await client.addTagsToWorkflow(finalWorkflowId, tags)
+    print.info(isUpdate ? 'Updating existing workflow...' : 'Creating new workflow...')
+    const result = await deployWorkflow(client, manifest, workflowData, basePath, env, workflowId)
+    print.success(result.created ? 'Workflow created!' : 'Workflow updated!')
 
     // Activate if requested
     if (options.activate) {
       print.info('Activating workflow...')
-      await client.activateWorkflow(finalWorkflowId)
+      await client.activateWorkflow(result.workflowId)
+      await updateManifestActive(manifest.slug, true, basePath)
       print.success('Workflow activated!')
     }
 
-    // Update manifest with deployment info
-    await updateManifestDeployment(manifest.slug, finalWorkflowId, basePath)
-
-    // Update registry
-    await updateWorkflowId(manifest.slug, basePath, finalWorkflowId)
-
     // Output summary
     print.newline()
     print.header('Deployment Summary')
-    print.keyValue('Workflow ID', finalWorkflowId)
-    print.keyValue('Name', deployedWorkflow.name)
-    print.keyValue('Active', String(deployedWorkflow.active ?? false))
-    print.keyValue('Tags', tags.join(', '))
+    print.keyValue('Environment', env)
+    print.keyValue('Workflow ID', result.workflowId)
+    print.keyValue('Name', result.workflow.name)
+    print.keyValue('Active', String(result.workflow.active ?? false))
+    print.keyValue('Tags', result.tags.join(', '))
+    if (manifest.alert && result.errorWorkflowId) {
+      print.keyValue('Alert', formatAlert(manifest.alert))
+      print.keyValue('Error Workflow ID', result.errorWorkflowId)
+      if (manifest.alert.type === 'email') {
+        print.newline()
+        print.warning('Select an SMTP credential for the error workflow\'s Notify node in n8n')
+      }
+    }
   } catch (error) {
     handleError(error)
   }
@@ -124,5 +121,7 @@ export function createCronDeployCommand(): Command {
     .option('--activate', 'Activate the workflow after deployment')
     .option('--no-activate', 'Do not activate the workflow')
     .option('--dry-run', 'Show what would be done without making changes')
+    .option('--env <profile>', 'Environment (auth profile) to deploy to (default: active profile)')
+    .option('--run-trigger', 'Add a webhook trigger so the workflow can be started with "cron run"')
     .action(deployAction)
 }
@@ -0,0 +1,119 @@
+import { Command } from 'commander'
+import kleur from 'kleur'
+import { print } from '../utils/print.js'
+import { handleError } from '../utils/errors.js'
+import {
+  resolveManifest,
+  getWorkflowPath,
+  loadWorkflow,
+  getDeployment,
+  requireDeployedWorkflowId
+} from '../workflows/manifest.js'
+import { diffWorkflows, type ValueChange, type WorkflowDiff } from '../workflows/diff.js'
+import { removeErrorWorkflow } from '../workflows/alerts.js'
+import { getClient } from '../api/n8nClient.js'
+import { getActiveProfileName } from '../config/store.js'
+
+interface DiffOptions {
+  json?: boolean
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return kleur.dim('(none)')
+  const json = JSON.stringify(value)
+  return json.length > 80 ? `${json.substring(0, 77)}...` : json
+}
+
+function printChange(change: ValueChange, indent = '  '): void {
+  print.line(`${indent}${kleur.yellow('~')} ${change.path}: ${formatValue(change.local)} ${kleur.dim('→')} ${formatValue(change.remote)}`)
+}
+
+function printDiff(diff: WorkflowDiff): void {
+  if (diff.name) {
+    print.header('Name')
+    printChange(diff.name)
+  }
+
+  const { added, removed, changed } = diff.nodes
+  if (added.length > 0 || removed.length > 0 || changed.length > 0) {
+    print.header('Nodes')
+    for (const name of added) print.line(`  ${kleur.green('+')} ${name}`)
+    for (const name of removed) print.line(`  ${kleur.red('-')} ${name}`)
+    for (const node of changed) {
+      print.line(`  ${kleur.yellow('~')} ${node.name}`)
+      for (const change of node.changes) printChange(change, '    ')
+    }
+  }
+
+  if (diff.connections.added.length > 0 || diff.connections.removed.length > 0) {
+    print.header('Connections')
+    for (const edge of diff.connections.added) print.line(`  ${kleur.green('+')} ${edge}`)
+    for (const edge of diff.connections.removed) print.line(`  ${kleur.red('-')} ${edge}`)
+  }
+
+  if (diff.schedules.length > 0) {
+    print.header('Schedules')
+    for (const schedule of diff.schedules) {
+      const local = schedule.local
+        ? `${schedule.local.cronExpression ?? 'N/A'} (${schedule.local.timezone ?? 'default'})`
+        : kleur.dim('(none)')
+      const remote = schedule.remote
+        ? `${schedule.remote.cronExpression ?? 'N/A'} (${schedule.remote.timezone ?? 'default'})`
+        : kleur.dim('(none)')
+      print.line(`  ${kleur.yellow('~')} ${schedule.nodeName}: ${local} ${kleur.dim('→')} ${remote}`)
+    }
+  }
+
+  if (diff.settings.length > 0) {
+    print.header('Settings')
+    for (const change of diff.settings) printChange(change)
+  }
+}
+
+async function diffAction(slugOrPath: string, options: DiffOptions): Promise<void> {
+  try {
+    const { manifest, basePath } = await resolveManifest(slugOrPath)
+    const env = await getActiveProfileName()
+    const workflowId = requireDeployedWorkflowId(manifest, env)
+
+    const workflowPath = getWorkflowPath(manifest.slug, basePath)
+    const local = await loadWorkflow(manifest.slug, basePath)
+
+    const client = await getClient()
+    const remote = await client.getWorkflow(workflowId)
+    const diff = diffWorkflows(local, removeErrorWorkflow(remote, getDeployment(manifest, env)?.errorWorkflowId))
+
+    if (diff.hasDrift) {
+      process.exitCode = 1
+    }
+
+    if (options.json) {
+      print.json({ slug: manifest.slug, workflowId, ...diff })
+      return
+    }
+
+    print.info(`Comparing ${workflowPath} with workflow ${workflowId}`)
+
+    if (!diff.hasDrift) {
+      print.success('No drift: remote workflow matches local file')
+      return
+    }
+
+    print.warning('Remote workflow differs from local file')
+    print.dim('  Values are shown as local → remote')
+    printDiff(diff)
+
+    print.newline()
+    print.info(`Deploying will overwrite remote changes: cron8n cron deploy ${manifest.slug}`)
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronDiffCommand(): Command {
+  return new Command('diff')
+    .description('Show differences between local and deployed workflow (exits 1 on drift)')
+    .argument('<slug|path>', 'Workflow slug or path to manifest')
+    .option('--json', 'Output as JSON')
+    .action(diffAction)
+}
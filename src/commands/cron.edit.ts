@@ -1,22 +1,73 @@
 import { Command } from 'commander'
 import prompts from 'prompts'
 import { print } from '../utils/print.js'
-import { handleError, FileError } from '../utils/errors.js'
-import { parseCron, CRON_PRESETS, getTimezoneOptions } from '../utils/time.js'
-import { readJson, writeJson, getCwd } from '../utils/fs.js'
+import { handleError, FileError, ValidationError } from '../utils/errors.js'
+import {
+  parseCron,
+  findDstWarnings,
+  describeCron,
+  normalizeCronExpression,
+  getDefaultTimezone,
+  CRON_PRESETS,
+  getTimezoneOptions
+} from '../utils/time.js'
+import { readJson, writeJson } from '../utils/fs.js'
 import { 
   loadManifest, 
   saveManifest,
   getWorkflowPath,
-  manifestExists 
+  manifestExists,
+  parseScheduleSpec,
+  setSchedules,
+  createTags,
+  setManifestMetadata,
+  validateTags,
+  type ManifestMetadata,
+  type Schedule
 } from '../workflows/manifest.js'
+import { applySchedules } from '../workflows/templates.js'
+import { parseAlertSpec, formatAlert } from '../workflows/alerts.js'
 import type { N8nWorkflow, N8nNode } from '../api/n8nClient.js'
+import { getProjectRoot, getWorkflowsDirName } from '../config/project.js'
 
 interface EditOptions {
   name?: string
   cron?: string
   timezone?: string
   shellCommand?: string
+  addSchedule?: string[]
+  removeSchedule?: string[]
+  /** Alert destination, or false for --no-alert */
+  alert?: string | false
+  addTag?: string[]
+  removeTag?: string[]
+  owner?: string
+  description?: string
+  runbookUrl?: string
+  label?: string[]
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Parses --label flags; an empty value (--label key=) removes the label
+ */
+function parseLabels(specs: string[]): Record<string, string> {
+  const labels: Record<string, string> = {}
+  for (const spec of specs) {
+    const index = spec.indexOf('=')
+    if (index <= 0) {
+      throw new ValidationError(`Invalid label: ${spec}`, 'Use --label <key>=<value>, or --label <key>= to remove it')
+    }
+    labels[spec.slice(0, index).trim()] = spec.slice(index + 1).trim()
+  }
+  return labels
+}
+
+function formatSchedule(schedule: Schedule): string {
+  return `${schedule.cronExpression} @ ${schedule.timezone} (${describeCron(schedule.cronExpression)})`
 }
 
 /**
@@ -56,18 +107,18 @@ function getCronExpression(node: N8nNode): string {
  */
 function getTimezone(node: N8nNode): string {
   const options = node.parameters?.['options'] as { timezone?: string } | undefined
-  return options?.timezone || 'Europe/Istanbul'
+  return options?.timezone || getDefaultTimezone()
 }
 
 async function editAction(slug: string, options: EditOptions): Promise<void> {
   try {
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
 
     // Check if manifest exists
     if (!(await manifestExists(slug, basePath))) {
       throw new FileError(
         `Workflow "${slug}" not found`,
-        `Make sure the workflow exists in ./workflows/${slug}.cron8n.json`
+        `Make sure the workflow exists in ./${getWorkflowsDirName()}/${slug}.cron8n.json`
       )
     }
 
@@ -94,16 +145,70 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
     let newCron = options.cron
     let newTimezone = options.timezone
     let newShellCommand = options.shellCommand
+    const additionalSchedules = [...(manifest.additionalSchedules ?? [])]
+    const addedSchedules: Schedule[] = []
+    const removedSchedules: Schedule[] = []
+
+    // Schedules are numbered from 2, after the primary one
+    const removeIndexes = (options.removeSchedule ?? []).map(value => parseInt(value, 10)).sort((a, b) => b - a)
+    for (const index of removeIndexes) {
+      const removed = additionalSchedules[index - 2]
+      if (Number.isNaN(index) || !removed) {
+        throw new ValidationError(
+          `Invalid schedule number: ${index}`,
+          additionalSchedules.length > 0
+            ? `Choose an additional schedule between 2 and ${additionalSchedules.length + 1}`
+            : 'This workflow has no additional schedules'
+        )
+      }
+      additionalSchedules.splice(index - 2, 1)
+      removedSchedules.push(removed)
+    }
+
+    for (const spec of options.addSchedule ?? []) {
+      const schedule = parseScheduleSpec(spec, newTimezone ?? currentTimezone)
+      const result = parseCron(schedule.cronExpression, schedule.timezone)
+      if (!result.isValid) {
+        throw new ValidationError(`Invalid cron expression "${schedule.cronExpression}": ${result.error}`)
+      }
+      additionalSchedules.push(schedule)
+      addedSchedules.push(schedule)
+    }
+
+    const hasScheduleOptions = addedSchedules.length > 0 || removedSchedules.length > 0
+    const newAlert = options.alert ? parseAlertSpec(options.alert) : undefined
+
+    let tags = [...manifest.tags]
+    const addedTags = validateTags(options.addTag ?? [], slug)
+    const removedTags = validateTags(options.removeTag ?? [], slug)
+    const metadata: ManifestMetadata = {
+      owner: options.owner,
+      description: options.description,
+      runbookUrl: options.runbookUrl,
+      labels: parseLabels(options.label ?? [])
+    }
+    const hasMetadataOptions = addedTags.length > 0 || removedTags.length > 0 ||
+      options.owner !== undefined || options.description !== undefined ||
+      options.runbookUrl !== undefined || Object.keys(metadata.labels ?? {}).length > 0
 
     // If no options provided, show interactive menu
-    if (!newName && !newCron && !newTimezone && !newShellCommand) {
+    if (!newName && !newCron && !newTimezone && !newShellCommand && !hasScheduleOptions && !hasMetadataOptions && options.alert === undefined) {
       // Loop until user selects "Done"
       while (true) {
         const editChoices = [
           { title: `✏️  Name: ${manifest.name}`, value: 'name' },
-          { title: `⏰ Cron: ${currentCron}`, value: 'cron' },
+          { title: `⏰ Cron: ${currentCron} (${describeCron(currentCron)})`, value: 'cron' },
           { title: `🌍 Timezone: ${currentTimezone}`, value: 'timezone' },
           ...(hasShellCommand ? [{ title: `💻 Shell: ${currentShellCommand?.substring(0, 50)}${(currentShellCommand?.length || 0) > 50 ? '...' : ''}`, value: 'shell' }] : []),
+          ...additionalSchedules.map((schedule, index) => ({
+            title: `🗑️  Remove schedule ${index + 2}: ${formatSchedule(schedule)}`,
+            value: `remove:${index}`
+          })),
+          { title: '➕ Add schedule', value: 'add' },
+          { title: `👤 Owner: ${metadata.owner ?? manifest.owner ?? '-'}`, value: 'owner' },
+          { title: `📝 Description: ${metadata.description ?? manifest.description ?? '-'}`, value: 'description' },
+          { title: `📖 Runbook: ${metadata.runbookUrl ?? manifest.runbookUrl ?? '-'}`, value: 'runbookUrl' },
+          { title: `🏷️  Tags: ${tags.join(', ')}`, value: 'tags' },
           { title: '✅ Done - Save changes', value: 'done' }
         ]
 
@@ -138,7 +243,7 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
             name: 'cronType',
             message: 'New cron schedule:',
             choices: [
-              { title: `Keep current (${currentCron})`, value: currentCron },
+              { title: `Keep current (${currentCron})`, value: currentCron, description: describeCron(currentCron) },
               ...CRON_PRESETS.map(p => ({
                 title: `${p.name} (${p.expression})`,
                 value: p.expression,
@@ -159,7 +264,10 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
                 return result.isValid || `Invalid cron: ${result.error}`
               }
             })
-            if (customCron) newCron = customCron
+            if (customCron) {
+              newCron = customCron
+              print.dim(`  ${describeCron(customCron)}`)
+            }
           } else if (cronType) {
             newCron = cronType
           }
@@ -181,6 +289,57 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
             validate: (v: string) => v.trim().length > 0 || 'Command is required'
           })
           if (value) newShellCommand = value
+        } else if (field === 'add') {
+          const { value } = await prompts({
+            type: 'text',
+            name: 'value',
+            message: 'Cron expression (optionally <cron>@<timezone>):',
+            validate: (v: string) => {
+              const schedule = parseScheduleSpec(v, newTimezone ?? currentTimezone)
+              const result = parseCron(schedule.cronExpression, schedule.timezone)
+              return result.isValid || `Invalid cron: ${result.error}`
+            }
+          })
+          if (value) {
+            const schedule = parseScheduleSpec(value, newTimezone ?? currentTimezone)
+            additionalSchedules.push(schedule)
+            addedSchedules.push(schedule)
+            print.dim(`  ${describeCron(schedule.cronExpression)}`)
+          }
+        } else if (field === 'owner' || field === 'description' || field === 'runbookUrl') {
+          const key = field as 'owner' | 'description' | 'runbookUrl'
+          const { value } = await prompts({
+            type: 'text',
+            name: 'value',
+            message: key === 'runbookUrl' ? 'Runbook URL (empty to remove):' : `${key === 'owner' ? 'Owner' : 'Description'} (empty to remove):`,
+            initial: metadata[key] ?? manifest[key] ?? ''
+          })
+          if (value !== undefined) metadata[key] = value
+        } else if (field === 'tags') {
+          // The cron8n tags are always kept, so only the user tags are edited
+          const kept = tags.filter(tag => createTags(slug).includes(tag))
+          const splitTags = (input: string) => input.split(',').map(tag => tag.trim()).filter(Boolean)
+          const { value } = await prompts({
+            type: 'list',
+            name: 'value',
+            message: 'Tags (comma-separated):',
+            initial: tags.filter(tag => !kept.includes(tag)).join(', '),
+            separator: ',',
+            validate: (v: string) => {
+              try {
+                validateTags(splitTags(v), slug)
+                return true
+              } catch (error) {
+                return error instanceof Error ? error.message : 'Invalid tags'
+              }
+            }
+          })
+          if (Array.isArray(value)) {
+            tags = [...new Set([...kept, ...validateTags(splitTags((value as string[]).join(',')), slug)])]
+          }
+        } else if (typeof field === 'string' && field.startsWith('remove:')) {
+          const [removed] = additionalSchedules.splice(parseInt(field.slice('remove:'.length), 10), 1)
+          if (removed) removedSchedules.push(removed)
         }
       }
     }
@@ -196,31 +355,43 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
       print.success(`Name updated: ${newName}`)
     }
 
-    // Update cron expression
-    if (newCron && newCron !== currentCron) {
-      manifest.cronExpression = newCron
-      if (scheduleNode && scheduleNode.parameters) {
-        const rule = scheduleNode.parameters['rule'] as { interval: Array<{ field: string; expression: string }> }
-        if (rule?.interval?.[0]) {
-          rule.interval[0].expression = newCron
-        }
+    // Update schedules
+    if (newCron) {
+      const result = parseCron(newCron)
+      if (!result.isValid) {
+        throw new ValidationError(`Invalid cron expression: ${result.error}`)
       }
-      changed = true
-      print.success(`Cron expression updated: ${newCron}`)
+      newCron = normalizeCronExpression(newCron)
     }
+    const cronChanged = !!newCron && newCron !== currentCron
+    const timezoneChanged = !!newTimezone && newTimezone !== currentTimezone
+    const schedulesChanged = cronChanged || timezoneChanged || addedSchedules.length > 0 || removedSchedules.length > 0
+    const schedules: Schedule[] = [
+      { cronExpression: newCron ?? currentCron, timezone: newTimezone ?? currentTimezone },
+      ...additionalSchedules
+    ]
 
-    // Update timezone
-    if (newTimezone && newTimezone !== currentTimezone) {
-      manifest.timezone = newTimezone
-      if (scheduleNode && scheduleNode.parameters) {
-        const opts = scheduleNode.parameters['options'] as { timezone: string }
-        if (opts) {
-          opts.timezone = newTimezone
-        }
+    if (schedulesChanged) {
+      setSchedules(manifest, schedules)
+      // Legacy Cron nodes are left alone, only the manifest is updated
+      if (scheduleNode?.type === 'n8n-nodes-base.scheduleTrigger') {
+        applySchedules(workflow, schedules)
       }
       changed = true
+    }
+
+    if (cronChanged) {
+      print.success(`Cron expression updated: ${newCron} (${describeCron(newCron!)})`)
+    }
+    if (timezoneChanged) {
       print.success(`Timezone updated: ${newTimezone}`)
     }
+    for (const schedule of removedSchedules) {
+      print.success(`Schedule removed: ${formatSchedule(schedule)}`)
+    }
+    for (const schedule of addedSchedules) {
+      print.success(`Schedule added: ${formatSchedule(schedule)}`)
+    }
 
     // Update shell command
     if (newShellCommand && executeNode && newShellCommand !== currentShellCommand) {
@@ -231,6 +402,35 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
       print.success(`Shell command updated: ${newShellCommand}`)
     }
 
+    // Update tags and metadata (pushed to n8n on the next deploy)
+    tags = [...new Set([...tags, ...addedTags])].filter(tag => !removedTags.includes(tag))
+    for (const tag of removedTags.filter(tag => !manifest.tags.includes(tag))) {
+      print.warning(`Tag not found: ${tag}`)
+    }
+    if (tags.join('\n') !== manifest.tags.join('\n')) {
+      manifest.tags = tags
+      changed = true
+      print.success(`Tags updated: ${tags.join(', ')}`)
+    }
+    for (const key of setManifestMetadata(manifest, metadata)) {
+      changed = true
+      const [field, label] = key.split('.')
+      const value = label ? manifest.labels?.[label] : manifest[field as 'owner' | 'description' | 'runbookUrl']
+      const title = label ? `Label ${label}` : { owner: 'Owner', description: 'Description', runbookUrl: 'Runbook URL' }[field!]
+      print.success(value ? `${title} updated: ${value}` : `${title} removed`)
+    }
+
+    // Update alert destination (the error workflow changes on the next deploy)
+    if (newAlert && JSON.stringify(newAlert) !== JSON.stringify(manifest.alert)) {
+      manifest.alert = newAlert
+      changed = true
+      print.success(`Alert destination updated: ${formatAlert(newAlert)}`)
+    } else if (options.alert === false && manifest.alert) {
+      delete manifest.alert
+      changed = true
+      print.success('Alert destination removed')
+    }
+
     if (!changed) {
       print.info('No changes made')
       return
@@ -245,7 +445,19 @@ async function editAction(slug: string, options: EditOptions): Promise<void> {
     print.success('Workflow updated successfully!')
     print.newline()
 
-    if (manifest.lastDeployedWorkflowId) {
+    if (schedulesChanged) {
+      const dstWarnings = schedules.flatMap(schedule =>
+        findDstWarnings(schedule.cronExpression, schedule.timezone)
+      )
+      for (const warning of dstWarnings) {
+        print.warning(warning.message)
+      }
+      if (dstWarnings.length > 0) {
+        print.newline()
+      }
+    }
+
+    if (manifest.deployments && Object.keys(manifest.deployments).length > 0) {
       print.warning('Note: Changes are local only. Run deploy to update the remote workflow:')
       print.info(`  cron8n cron deploy ${slug}`)
     }
@@ -262,5 +474,15 @@ export function createCronEditCommand(): Command {
     .option('--cron <expression>', 'New cron expression')
     .option('--timezone <tz>', 'New timezone')
     .option('--shell-command <command>', 'New shell command (for shell-command workflows)')
+    .option('--add-schedule <expression>', 'Add a schedule as "<cron>" or "<cron>@<timezone>" (repeatable)', collect)
+    .option('--remove-schedule <n>', 'Remove an additional schedule by number, starting at 2 (repeatable)', collect)
+    .option('--alert <destination>', 'Report failures to slack:<webhook-url>, email:<address> or http:<url>')
+    .option('--no-alert', 'Stop reporting failures (the error workflow is deleted on the next deploy)')
+    .option('--add-tag <tag>', 'Add a tag, e.g. team:payments (repeatable)', collect)
+    .option('--remove-tag <tag>', 'Remove a tag (repeatable)', collect)
+    .option('--owner <owner>', 'New owner (empty to remove)')
+    .option('--description <text>', 'New description (empty to remove)')
+    .option('--runbook-url <url>', 'New runbook URL (empty to remove)')
+    .option('--label <key=value>', 'Set a label, or remove it with <key>= (repeatable)', collect)
     .action(editAction)
 }
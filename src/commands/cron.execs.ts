@@ -0,0 +1,136 @@
+import { Command } from 'commander'
+import kleur from 'kleur'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError } from '../utils/errors.js'
+import {
+  getClient,
+  EXECUTION_STATUS_FILTERS,
+  type ExecutionStatusFilter
+} from '../api/n8nClient.js'
+import { loadManifest, manifestExists, requireDeployedWorkflowId } from '../workflows/manifest.js'
+import { getActiveProfileName } from '../config/store.js'
+import { summarizeExecution, getExecutionError, type ExecutionSummary } from '../workflows/executions.js'
+import { formatDuration } from '../utils/time.js'
+import { getProjectRoot } from '../config/project.js'
+
+interface ExecsOptions {
+  status?: string
+  limit?: string
+  json?: boolean
+}
+
+function formatStatus(status: string): string {
+  switch (status) {
+    case 'success':
+      return kleur.green(status)
+    case 'error':
+    case 'crashed':
+      return kleur.red(status)
+    case 'running':
+    case 'waiting':
+    case 'new':
+      return kleur.yellow(status)
+    default:
+      return kleur.dim(status)
+  }
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.substring(0, length - 3)}...` : value
+}
+
+async function execsAction(slugOrId: string, options: ExecsOptions): Promise<void> {
+  try {
+    const basePath = getProjectRoot()
+    let workflowId = slugOrId
+    let workflowName = slugOrId
+
+    if (options.status && !EXECUTION_STATUS_FILTERS.includes(options.status as ExecutionStatusFilter)) {
+      throw new ValidationError(
+        `Invalid status: ${options.status}`,
+        `Use one of: ${EXECUTION_STATUS_FILTERS.join(', ')}`
+      )
+    }
+
+    const limit = options.limit ? parseInt(options.limit, 10) : 20
+    if (Number.isNaN(limit) || limit < 1) {
+      throw new ValidationError(`Invalid limit: ${options.limit}`, 'Limit must be a positive number')
+    }
+
+    // Check if it's a local slug
+    if (await manifestExists(slugOrId, basePath)) {
+      const manifest = await loadManifest(slugOrId, basePath)
+      workflowId = requireDeployedWorkflowId(manifest, await getActiveProfileName())
+      workflowName = manifest.name
+    }
+
+    const client = await getClient()
+
+    if (!options.json) {
+      print.info(`Fetching executions for ${workflowName}...`)
+    }
+
+    const executions = await client.listExecutions({
+      workflowId,
+      status: options.status as ExecutionStatusFilter | undefined,
+      limit
+    })
+
+    const summaries: ExecutionSummary[] = []
+    for (const execution of executions) {
+      const summary = summarizeExecution(execution)
+
+      // Error details are only included in the full execution data
+      if (summary.status === 'error' || summary.status === 'crashed') {
+        try {
+          const detailed = await client.getExecution(execution.id, true)
+          summary.error = getExecutionError(detailed)
+        } catch {
+          // Keep the summary without error details
+        }
+      }
+
+      summaries.push(summary)
+    }
+
+    if (options.json) {
+      print.json({ workflowId, executions: summaries })
+      return
+    }
+
+    print.header(`Executions: ${workflowName}`)
+
+    if (summaries.length === 0) {
+      print.dim('  No executions found')
+      return
+    }
+
+    const headers = ['ID', 'Status', 'Mode', 'Started', 'Duration', 'Error']
+    const rows = summaries.map(s => [
+      s.id,
+      formatStatus(s.status),
+      s.mode ?? '-',
+      s.startedAt ? new Date(s.startedAt).toLocaleString() : '-',
+      s.durationMs !== undefined ? formatDuration(s.durationMs) : '-',
+      s.error ? truncate(s.error, 60) : ''
+    ])
+    print.table(headers, rows)
+
+    print.newline()
+    const failed = summaries.filter(s => s.status === 'error' || s.status === 'crashed').length
+    print.keyValue('Shown', String(summaries.length))
+    print.keyValue('Failed', failed > 0 ? kleur.red(String(failed)) : '0')
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronExecsCommand(): Command {
+  return new Command('execs')
+    .description('Show recent executions of a workflow')
+    .argument('<slug|workflow-id>', 'Local slug or remote workflow ID')
+    .option('--status <status>', `Filter by status: ${EXECUTION_STATUS_FILTERS.join(', ')}`)
+    .option('--limit <n>', 'Number of executions to show (default: 20)')
+    .option('--json', 'Output as JSON')
+    .action(execsAction)
+}
@@ -3,21 +3,25 @@ import prompts from 'prompts'
 import { print } from '../utils/print.js'
 import { handleError, ValidationError } from '../utils/errors.js'
 import { createSlug, isValidSlug } from '../utils/slug.js'
-import { writeJson, getCwd } from '../utils/fs.js'
-import { getClient, type N8nWorkflow } from '../api/n8nClient.js'
+import { writeJson } from '../utils/fs.js'
+import { getClient } from '../api/n8nClient.js'
 import { 
   getCronNodes, 
-  isCron8nManaged, 
-  suggestSlug 
+  isCron8nManaged
 } from '../workflows/discover.js'
 import { 
   createManifest, 
   saveManifest, 
   getWorkflowPath,
   getManifestPath,
-  manifestExists 
+  manifestExists,
+  setDeployment
 } from '../workflows/manifest.js'
+import { getActiveProfileName } from '../config/store.js'
+import { toLocalWorkflow } from '../workflows/sync.js'
 import { upsertRegistryEntry } from '../config/registry.js'
+import { createProjectSlug, getProjectRoot } from '../config/project.js'
+import { getDefaultTimezone } from '../utils/time.js'
 
 interface ImportOptions {
   slug?: string
@@ -49,7 +53,7 @@ async function importAction(workflowId: string, options: ImportOptions): Promise
     }
 
     // Determine slug
-    let slug = options.slug ?? suggestSlug(workflow.name)
+    let slug = options.slug ?? createProjectSlug(workflow.name)
 
     // Validate and potentially prompt for new slug
     if (!isValidSlug(slug) || await manifestExists(slug)) {
@@ -80,7 +84,7 @@ async function importAction(workflowId: string, options: ImportOptions): Promise
     // Extract cron info from the first cron node
     const primaryCron = cronNodes[0]!
     const cronExpression = primaryCron.cronExpression ?? '0 * * * *'
-    const timezone = primaryCron.timezone ?? 'Europe/Istanbul'
+    const timezone = primaryCron.timezone ?? getDefaultTimezone()
 
     // Create manifest
     const manifest = createManifest(
@@ -92,20 +96,13 @@ async function importAction(workflowId: string, options: ImportOptions): Promise
     )
 
     // Set the deployed workflow ID since it already exists
-    manifest.lastDeployedWorkflowId = workflow.id
-    manifest.lastDeployedAt = new Date().toISOString()
+    setDeployment(manifest, await getActiveProfileName(), workflowId, client.baseUrl)
 
     // Prepare workflow data for local storage
-    const workflowData: N8nWorkflow = {
-      name: workflow.name,
-      active: workflow.active,
-      nodes: workflow.nodes,
-      connections: workflow.connections,
-      settings: workflow.settings
-    }
+    const workflowData = toLocalWorkflow(workflow)
 
     // Save files
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
     const workflowPath = getWorkflowPath(slug, basePath)
     const manifestPath = getManifestPath(slug, basePath)
 
@@ -10,14 +10,19 @@ import {
   getCron8nSlug,
   suggestSlug 
 } from '../workflows/discover.js'
-import { parseCron, formatDate } from '../utils/time.js'
+import { parseCron, describeCron, formatDate, mergeRunTimes } from '../utils/time.js'
 import { 
   loadManifest, 
   manifestExists, 
-  getWorkflowPath 
+  getWorkflowPath,
+  getDeployedWorkflowId,
+  getSchedules,
+  getDeployTags
 } from '../workflows/manifest.js'
-import { exists, readJson, getCwd } from '../utils/fs.js'
+import { getActiveProfileName } from '../config/store.js'
+import { exists, readJson } from '../utils/fs.js'
 import type { N8nWorkflow } from '../api/n8nClient.js'
+import { getProjectRoot } from '../config/project.js'
 
 interface InspectOptions {
   json?: boolean
@@ -25,7 +30,7 @@ interface InspectOptions {
 }
 
 async function inspectLocalAction(slug: string, options: InspectOptions): Promise<void> {
-  const basePath = getCwd()
+  const basePath = getProjectRoot()
   
   // Load manifest
   const manifest = await loadManifest(slug, basePath)
@@ -42,6 +47,11 @@ async function inspectLocalAction(slug: string, options: InspectOptions): Promis
     print.json({
       source: 'local',
       manifest,
+      schedule: describeCron(manifest.cronExpression),
+      schedules: getSchedules(manifest).map(schedule => ({
+        ...schedule,
+        description: describeCron(schedule.cronExpression)
+      })),
       workflow: workflow ? {
         name: workflow.name,
         nodeCount: workflow.nodes.length,
@@ -56,32 +66,57 @@ async function inspectLocalAction(slug: string, options: InspectOptions): Promis
   print.keyValue('Name', manifest.name)
   print.keyValue('Template', manifest.template)
   print.keyValue('Created', new Date(manifest.createdAt).toLocaleString())
+  if (manifest.owner) print.keyValue('Owner', manifest.owner)
+  if (manifest.description) print.keyValue('Description', manifest.description)
+  if (manifest.runbookUrl) print.keyValue('Runbook', manifest.runbookUrl)
+  for (const [key, value] of Object.entries(manifest.labels ?? {})) {
+    print.keyValue(`Label ${key}`, value)
+  }
 
   print.newline()
   print.header('Cron Configuration')
   print.keyValue('Expression', manifest.cronExpression)
+  print.keyValue('Schedule', describeCron(manifest.cronExpression))
   print.keyValue('Timezone', manifest.timezone)
 
-  // Show next runs
-  const cronInfo = parseCron(manifest.cronExpression, manifest.timezone)
-  if (cronInfo.isValid) {
+  for (const [index, schedule] of (manifest.additionalSchedules ?? []).entries()) {
+    print.keyValue(
+      `Schedule ${index + 2}`,
+      `${schedule.cronExpression} (${schedule.timezone}) - ${describeCron(schedule.cronExpression)}`
+    )
+  }
+
+  // Show next runs across all schedules
+  const nextRuns = mergeRunTimes(
+    getSchedules(manifest).flatMap(schedule => parseCron(schedule.cronExpression, schedule.timezone).nextRuns)
+  ).slice(0, 5)
+  if (nextRuns.length > 0) {
     print.newline()
     print.dim('  Next 5 scheduled runs:')
-    for (const date of cronInfo.nextRuns) {
+    for (const date of nextRuns) {
       print.dim(`    • ${formatDate(date)}`)
     }
   }
 
   print.newline()
   print.header('Deployment Status')
-  if (manifest.lastDeployedWorkflowId) {
-    print.success('Deployed to n8n')
-    print.keyValue('Workflow ID', manifest.lastDeployedWorkflowId)
-    print.keyValue('Last Deployed', manifest.lastDeployedAt 
-      ? new Date(manifest.lastDeployedAt).toLocaleString() 
-      : 'N/A')
-    print.newline()
-    print.info(`View remote: cron8n cron inspect ${manifest.lastDeployedWorkflowId}`)
+  const deployments = Object.entries(manifest.deployments ?? {})
+  if (deployments.length > 0) {
+    const env = await getActiveProfileName()
+    const headers = ['Environment', 'Workflow ID', 'Base URL', 'Last Deployed']
+    const rows = deployments.map(([name, deployment]) => [
+      name === env ? kleur.green(name) : name,
+      deployment.workflowId,
+      deployment.baseUrl ?? 'N/A',
+      new Date(deployment.deployedAt).toLocaleString()
+    ])
+    print.table(headers, rows)
+
+    const workflowId = getDeployedWorkflowId(manifest, env)
+    if (workflowId) {
+      print.newline()
+      print.info(`View remote: cron8n cron inspect ${workflowId}`)
+    }
   } else {
     print.warning('Not deployed yet')
     print.info(`Deploy with: cron8n cron deploy ${slug}`)
@@ -89,7 +124,7 @@ async function inspectLocalAction(slug: string, options: InspectOptions): Promis
 
   print.newline()
   print.header('Tags')
-  print.list(manifest.tags)
+  print.list(getDeployTags(manifest))
 
   if (workflow) {
     print.newline()
@@ -120,7 +155,14 @@ async function inspectRemoteAction(workflowId: string, options: InspectOptions):
 
       return {
         ...node,
-        nextRuns: cronInfo?.nextRuns.map(d => d.toISOString()) ?? []
+        description: cronInfo?.description,
+        nextRuns: cronInfo?.nextRuns.map(d => d.toISOString()) ?? [],
+        schedules: node.schedules.map(schedule => ({
+          ...schedule,
+          nextRuns: schedule.cronExpression
+            ? parseCron(schedule.cronExpression, node.timezone).nextRuns.map(d => d.toISOString())
+            : []
+        }))
       }
     })
 
@@ -183,20 +225,32 @@ async function inspectRemoteAction(workflowId: string, options: InspectOptions):
       
       print.keyValue('Node Name', node.nodeName)
       print.keyValue('Node Type', node.nodeType)
-      print.keyValue('Cron Expression', node.cronExpression ?? 'N/A')
       print.keyValue('Timezone', node.timezone ?? 'default')
 
-      if (node.cronExpression) {
-        const cronInfo = parseCron(node.cronExpression, node.timezone)
-        
-        if (cronInfo.isValid) {
-          print.newline()
-          print.dim('  Next 5 scheduled runs:')
-          for (const date of cronInfo.nextRuns) {
-            print.dim(`    • ${formatDate(date)}`)
+      if (node.schedules.length === 0) {
+        print.keyValue('Cron Expression', 'N/A')
+      }
+
+      for (const [scheduleIndex, schedule] of node.schedules.entries()) {
+        print.newline()
+        if (node.schedules.length > 1) {
+          print.dim(`  Interval ${scheduleIndex + 1} of ${node.schedules.length}`)
+        }
+        print.keyValue('Mode', schedule.mode)
+        print.keyValue('Cron Expression', schedule.cronExpression ?? 'N/A (no cron equivalent)')
+        print.keyValue('Schedule', schedule.description)
+
+        if (schedule.cronExpression) {
+          const cronInfo = parseCron(schedule.cronExpression, node.timezone)
+
+          if (cronInfo.isValid) {
+            print.dim('  Next 5 scheduled runs:')
+            for (const date of cronInfo.nextRuns) {
+              print.dim(`    • ${formatDate(date)}`)
+            }
+          } else {
+            print.error(`Invalid cron expression: ${cronInfo.error}`)
           }
-        } else {
-          print.error(`Invalid cron expression: ${cronInfo.error}`)
         }
       }
     }
@@ -218,20 +272,21 @@ async function inspectRemoteAction(workflowId: string, options: InspectOptions):
 
 async function inspectAction(slugOrId: string, options: InspectOptions): Promise<void> {
   try {
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
     
     // Check if it's a local slug first
     if (await manifestExists(slugOrId, basePath)) {
       // If --local or no remote deployment, show local
       const manifest = await loadManifest(slugOrId, basePath)
+      const workflowId = getDeployedWorkflowId(manifest, await getActiveProfileName())
       
-      if (options.local || !manifest.lastDeployedWorkflowId) {
+      if (options.local || !workflowId) {
         await inspectLocalAction(slugOrId, options)
         return
       }
       
-      // Has remote deployment, show remote
-      await inspectRemoteAction(manifest.lastDeployedWorkflowId, options)
+      // Has remote deployment in the active environment, show remote
+      await inspectRemoteAction(workflowId, options)
       return
     }
 
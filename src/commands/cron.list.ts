@@ -1,11 +1,21 @@
 import { Command } from 'commander'
 import kleur from 'kleur'
 import { print } from '../utils/print.js'
-import { handleError } from '../utils/errors.js'
+import { handleError, ValidationError } from '../utils/errors.js'
 import { getClient } from '../api/n8nClient.js'
 import { groupWorkflows, type WorkflowCronInfo } from '../workflows/discover.js'
-import { loadAllManifests, getWorkflowsDir, type Manifest } from '../workflows/manifest.js'
-import { getCwd, exists, listFiles, join, readJson } from '../utils/fs.js'
+import {
+  loadAllManifests,
+  getWorkflowsDir,
+  getSchedules,
+  matchesManifestFilter,
+  matchesWorkflowFilter,
+  type Manifest,
+  type ManifestFilter
+} from '../workflows/manifest.js'
+import { exists, listFiles, join, readJson } from '../utils/fs.js'
+import { describeCron } from '../utils/time.js'
+import { getProjectRoot } from '../config/project.js'
 
 interface ListOptions {
   managed?: boolean
@@ -14,6 +24,32 @@ interface ListOptions {
   archived?: boolean
   json?: boolean
   all?: boolean
+  tag?: string[]
+  owner?: string
+  label?: string[]
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Builds the manifest filter from --tag, --owner and --label
+ */
+function getFilter(options: ListOptions): ManifestFilter {
+  const labels: Record<string, string> = {}
+  for (const spec of options.label ?? []) {
+    const index = spec.indexOf('=')
+    if (index <= 0) {
+      throw new ValidationError(`Invalid label: ${spec}`, 'Use --label <key>=<value>')
+    }
+    labels[spec.slice(0, index).trim()] = spec.slice(index + 1).trim()
+  }
+  return { tags: options.tag, owner: options.owner, labels }
+}
+
+function hasFilter(filter: ManifestFilter): boolean {
+  return !!filter.tags?.length || !!filter.owner || Object.keys(filter.labels ?? {}).length > 0
 }
 
 interface ArchivedManifest extends Manifest {
@@ -22,12 +58,29 @@ interface ArchivedManifest extends Manifest {
 }
 
 function formatCronExpressions(cronNodes: WorkflowCronInfo['cronNodes']): string {
-  if (cronNodes.length === 0) return 'N/A'
-  return cronNodes
-    .map(n => n.cronExpression ?? 'N/A')
+  const schedules = cronNodes.flatMap(n => n.schedules)
+  if (schedules.length === 0) return 'N/A'
+  return schedules
+    .map(s => s.cronExpression ?? `(${s.mode})`)
     .join(', ')
 }
 
+function formatSchedules(cronNodes: WorkflowCronInfo['cronNodes']): string {
+  const schedules = cronNodes.flatMap(n => n.schedules)
+  if (schedules.length === 0) return '-'
+  return schedules
+    .map(s => s.description)
+    .join('; ')
+}
+
+function formatManifestCrons(manifest: Manifest): string {
+  return getSchedules(manifest).map(s => s.cronExpression).join(', ')
+}
+
+function formatManifestSchedules(manifest: Manifest): string {
+  return getSchedules(manifest).map(s => describeCron(s.cronExpression)).join('; ')
+}
+
 function formatTimezone(cronNodes: WorkflowCronInfo['cronNodes']): string {
   if (cronNodes.length === 0) return 'N/A'
   const timezones = [...new Set(cronNodes.map(n => n.timezone).filter(Boolean))]
@@ -59,13 +112,16 @@ async function loadArchivedManifests(basePath?: string): Promise<ArchivedManifes
 }
 
 async function listLocalAction(options: ListOptions): Promise<void> {
-  const basePath = getCwd()
+  const basePath = getProjectRoot()
+  const filter = getFilter(options)
   
   // Load active manifests
-  const activeManifests = await loadAllManifests(basePath)
+  const activeManifests = (await loadAllManifests(basePath)).filter(m => matchesManifestFilter(m, filter))
   
   // Load archived manifests if requested
-  const archivedManifests = options.archived ? await loadArchivedManifests(basePath) : []
+  const archivedManifests = options.archived
+    ? (await loadArchivedManifests(basePath)).filter(m => matchesManifestFilter(m, filter))
+    : []
 
   if (options.json) {
     const output: Record<string, unknown> = {
@@ -83,16 +139,24 @@ async function listLocalAction(options: ListOptions): Promise<void> {
     print.header('Local Workflows')
     
     if (activeManifests.length === 0) {
-      print.dim('  No local workflows found')
-      print.info('  Create one with: cron8n cron new')
+      if (hasFilter(filter)) {
+        print.dim('  No local workflows match the filters')
+      } else {
+        print.dim('  No local workflows found')
+        print.info('  Create one with: cron8n cron new')
+      }
     } else {
-      const headers = ['Slug', 'Name', 'Cron', 'Timezone', 'Deployed']
+      const headers = ['Slug', 'Name', 'Owner', 'Cron', 'Schedule', 'Timezone', 'Deployed']
       const rows = activeManifests.map(m => [
         m.slug,
         m.name,
-        m.cronExpression,
-        m.timezone,
-        m.lastDeployedWorkflowId ? kleur.green('✓') : kleur.dim('✗')
+        m.owner ?? '-',
+        formatManifestCrons(m),
+        formatManifestSchedules(m),
+        [...new Set(getSchedules(m).map(s => s.timezone))].join(', '),
+        m.deployments && Object.keys(m.deployments).length > 0
+          ? kleur.green(Object.keys(m.deployments).join(', '))
+          : kleur.dim('✗')
       ])
       print.table(headers, rows)
     }
@@ -106,11 +170,12 @@ async function listLocalAction(options: ListOptions): Promise<void> {
     if (archivedManifests.length === 0) {
       print.dim('  No archived workflows found')
     } else {
-      const headers = ['Slug', 'Name', 'Cron', 'Archived At']
+      const headers = ['Slug', 'Name', 'Cron', 'Schedule', 'Archived At']
       const rows = archivedManifests.map(m => [
         m.slug,
         m.name,
-        m.cronExpression,
+        formatManifestCrons(m),
+        formatManifestSchedules(m),
         m.archivedAt ? new Date(m.archivedAt).toLocaleString() : '-'
       ])
       print.table(headers, rows)
@@ -135,10 +200,16 @@ async function listLocalAction(options: ListOptions): Promise<void> {
 async function listRemoteAction(options: ListOptions): Promise<void> {
   const client = await getClient()
 
+  // Owners are pushed as "owner:<name>" tags; labels stay local
+  const filter = getFilter(options)
+  if (Object.keys(filter.labels ?? {}).length > 0) {
+    throw new ValidationError('Labels are not pushed to n8n', 'Filter by --label without --remote')
+  }
+
   print.info('Fetching workflows from n8n...')
   const workflows = await client.listWorkflows()
 
-  const { managed, unmanaged } = groupWorkflows(workflows)
+  const { managed, unmanaged } = groupWorkflows(workflows.filter(w => matchesWorkflowFilter(w, filter)))
 
   // Filter based on options
   let showManaged = true
@@ -166,13 +237,14 @@ async function listRemoteAction(options: ListOptions): Promise<void> {
     if (managed.length === 0) {
       print.dim('  No managed workflows found')
     } else {
-      const headers = ['ID', 'Name', 'Slug', 'Active', 'Cron', 'Timezone']
+      const headers = ['ID', 'Name', 'Slug', 'Active', 'Cron', 'Schedule', 'Timezone']
       const rows = managed.map(w => [
         w.workflowId,
         w.workflowName,
         w.managedSlug ?? '-',
         w.active ? kleur.green('✓') : kleur.dim('✗'),
         formatCronExpressions(w.cronNodes),
+        formatSchedules(w.cronNodes),
         formatTimezone(w.cronNodes)
       ])
       print.table(headers, rows)
@@ -186,12 +258,13 @@ async function listRemoteAction(options: ListOptions): Promise<void> {
     if (unmanaged.length === 0) {
       print.dim('  No unmanaged cron workflows found')
     } else {
-      const headers = ['ID', 'Name', 'Active', 'Cron', 'Timezone', 'Tags']
+      const headers = ['ID', 'Name', 'Active', 'Cron', 'Schedule', 'Timezone', 'Tags']
       const rows = unmanaged.map(w => [
         w.workflowId,
         w.workflowName,
         w.active ? kleur.green('✓') : kleur.dim('✗'),
         formatCronExpressions(w.cronNodes),
+        formatSchedules(w.cronNodes),
         formatTimezone(w.cronNodes),
         w.tags.slice(0, 3).join(', ') + (w.tags.length > 3 ? '...' : '')
       ])
@@ -236,5 +309,8 @@ export function createCronListCommand(): Command {
     .option('--unmanaged', 'Show only unmanaged remote cron workflows (implies --remote)')
     .option('--json', 'Output as JSON')
     .option('--all', 'Show workflows from all registered projects')
+    .option('--tag <tag>', 'Only workflows with this tag, e.g. team:payments (repeatable)', collect)
+    .option('--owner <owner>', 'Only workflows owned by this person or team')
+    .option('--label <key=value>', 'Only local workflows with this label (repeatable)', collect)
     .action(listAction)
 }
@@ -2,34 +2,184 @@ import { Command } from 'commander'
 import prompts from 'prompts'
 import { print } from '../utils/print.js'
 import { handleError, ValidationError } from '../utils/errors.js'
-import { createSlug, isValidSlug } from '../utils/slug.js'
-import { parseCron, CRON_PRESETS, getTimezoneOptions } from '../utils/time.js'
-import { writeJson, getCwd } from '../utils/fs.js'
+import { isValidSlug } from '../utils/slug.js'
+import {
+  parseCron,
+  mergeRunTimes,
+  normalizeCronExpression,
+  getDefaultTimezone,
+  CRON_PRESETS,
+  getTimezoneOptions
+} from '../utils/time.js'
+import { writeJson } from '../utils/fs.js'
 import { 
   createManifest, 
   saveManifest, 
   getWorkflowPath, 
   getManifestPath,
-  manifestExists 
+  manifestExists,
+  parseScheduleSpec,
+  setManifestMetadata,
+  validateTags,
+  type Schedule
 } from '../workflows/manifest.js'
-import { getTemplate, getTemplateChoices, type TemplateName, type TemplateOptions } from '../workflows/templates.js'
+import {
+  getTemplate,
+  getTemplateChoices,
+  getTemplateFieldFlag,
+  getTemplateNames,
+  isTemplateFieldActive,
+  resolveTemplateFields,
+  validateHttpOptions,
+  HTTP_METHODS,
+  HTTP_AUTH_TYPES,
+  TEMPLATES,
+  type HttpAuthType,
+  type TemplateField,
+  type TemplateFieldName,
+  type TemplateName,
+  type TemplateOptions
+} from '../workflows/templates.js'
+import { loadTemplates } from '../workflows/userTemplates.js'
+import { parseAlertSpec, formatAlert } from '../workflows/alerts.js'
 import { upsertRegistryEntry } from '../config/registry.js'
+import { applyNamePrefix, createProjectSlug, getProjectConfig, getProjectRoot } from '../config/project.js'
 
-interface NewOptions {
+type TemplateFieldValues = Partial<Record<TemplateFieldName, unknown>>
+
+interface NewOptions extends Partial<Record<TemplateFieldName, string>> {
   name?: string
   cron?: string
   timezone?: string
   template?: TemplateName
   shellCommand?: string
+  addSchedule?: string[]
+  option?: string[]
+  httpUrl?: string
+  httpMethod?: string
+  webhookUrl?: string
+  header?: string[]
+  query?: string[]
+  body?: string
+  auth?: string
+  timeout?: string
+  alert?: string
+  tag?: string[]
+  owner?: string
+  description?: string
+  runbookUrl?: string
+  label?: string[]
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Parses repeated "<name><separator><value>" flags such as --option key=value
+ */
+function parsePairs(specs: string[], separator: string, usage: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const spec of specs) {
+    const index = spec.indexOf(separator)
+    if (index <= 0) {
+      throw new ValidationError(`Invalid value: ${spec}`, `Use ${usage}`)
+    }
+    values[spec.slice(0, index).trim()] = spec.slice(index + 1).trim()
+  }
+  return values
+}
+
+/**
+ * Builds the HTTP template options from flags
+ */
+function getHttpOptions(options: NewOptions): TemplateOptions {
+  const httpOptions: TemplateOptions = {}
+  if (options.httpUrl) httpOptions.httpUrl = options.httpUrl
+  if (options.httpMethod) httpOptions.httpMethod = options.httpMethod.toUpperCase()
+  if (options.webhookUrl) httpOptions.webhookUrl = options.webhookUrl
+  if (options.header) httpOptions.httpHeaders = parsePairs(options.header, ':', '--header "<name>: <value>"')
+  if (options.query) httpOptions.httpQuery = parsePairs(options.query, '=', '--query <name>=<value>')
+  if (options.body !== undefined) httpOptions.httpBody = options.body
+  if (options.auth) httpOptions.httpAuth = options.auth as HttpAuthType
+  if (options.timeout !== undefined) httpOptions.httpTimeout = Number(options.timeout)
+
+  validateHttpOptions(httpOptions)
+  return httpOptions
+}
+
+/**
+ * Lists the fields of the built-in templates once each, with the templates
+ * using them
+ */
+function getTemplateFieldFlags(): Array<{ field: TemplateField; templates: string[] }> {
+  const flags = new Map<TemplateFieldName, { field: TemplateField; templates: string[] }>()
+  for (const [name, template] of Object.entries(TEMPLATES)) {
+    for (const field of template.fields ?? []) {
+      const flag = flags.get(field.name) ?? { field, templates: [] }
+      flag.templates.push(name)
+      flags.set(field.name, flag)
+    }
+  }
+  return [...flags.values()]
+}
+
+/**
+ * Prompts for the template fields not given as flags, skipping fields
+ * that do not apply to the values so far
+ */
+async function promptTemplateFields(fields: TemplateField[], flagValues: TemplateFieldValues): Promise<TemplateFieldValues> {
+  const values: TemplateFieldValues = { ...flagValues }
+  for (const field of fields) {
+    if (values[field.name] !== undefined || !isTemplateFieldActive(field, values)) continue
+
+    const { value } = await prompts({
+      type: field.type === 'select' ? 'select' : field.type === 'boolean' ? 'confirm' : field.type,
+      name: 'value',
+      message: `${field.label}:`,
+      ...(field.type === 'select'
+        ? {
+            choices: field.choices!.map(choice => ({ title: choice, value: choice })),
+            initial: Math.max(0, field.choices!.indexOf(String(field.default)))
+          }
+        : { initial: field.default ?? '' }),
+      validate: (input: unknown) => !field.required || String(input ?? '').trim().length > 0 || `${field.label} is required`
+    }, {
+      onCancel: () => {
+        print.warning('Cancelled')
+        process.exit(0)
+      }
+    })
+    values[field.name] = value
+  }
+  return values
 }
 
 async function newAction(options: NewOptions): Promise<void> {
   try {
     let workflowName = options.name
     let cronExpression = options.cron
-    let timezone = options.timezone
-    let template = options.template
+    const project = getProjectConfig()
+    let timezone = options.timezone ?? project.timezone
+    let template = options.template ?? project.template as TemplateName | undefined
     let shellCommand = options.shellCommand
+    const optionValues = parsePairs(options.option ?? [], '=', '--option <key>=<value>')
+    const httpOptions = getHttpOptions(options)
+    const alert = options.alert ? parseAlertSpec(options.alert) : undefined
+    const labels = parsePairs(options.label ?? [], '=', '--label <key>=<value>')
+    const fieldValues: TemplateFieldValues = Object.fromEntries(
+      getTemplateFieldFlags()
+        .map(({ field }) => [field.name, options[field.name]])
+        .filter(([, value]) => value !== undefined)
+    )
+
+    const { templates, errors: templateErrors } = await loadTemplates(getProjectRoot())
+    for (const { path, error } of templateErrors) {
+      print.warning(`Skipping template ${path}: ${error}`)
+    }
+    if (template) {
+      getTemplate(template, templates)
+    }
 
     // Interactive prompts if options not provided
     if (!workflowName || !cronExpression || !timezone || !template) {
@@ -69,13 +219,13 @@ async function newAction(options: NewOptions): Promise<void> {
           name: 'timezone',
           message: 'Timezone:',
           choices: getTimezoneOptions().map(tz => ({ title: tz, value: tz })),
-          initial: 0
+          initial: Math.max(0, getTimezoneOptions().indexOf(getDefaultTimezone()))
         },
         {
           type: template ? null : 'select',
           name: 'template',
           message: 'Workflow template:',
-          choices: getTemplateChoices()
+          choices: getTemplateChoices(templates)
         }
       ], {
         onCancel: () => {
@@ -108,6 +258,72 @@ async function newAction(options: NewOptions): Promise<void> {
       shellCommand = shellAnswer['shellCommand'] as string
     }
 
+    // URL, method and auth prompts for the HTTP templates
+    const urlField = template === 'http-request' ? 'httpUrl' : template === 'webhook-call' ? 'webhookUrl' : undefined
+    if (urlField && !httpOptions[urlField]) {
+      const httpAnswers = await prompts([
+        {
+          type: 'text',
+          name: 'url',
+          message: urlField === 'httpUrl' ? 'Request URL:' : 'Webhook URL:',
+          validate: (value: string) => {
+            try {
+              validateHttpOptions({ [urlField]: value.trim() })
+              return true
+            } catch (error) {
+              return error instanceof Error ? error.message : 'Invalid URL'
+            }
+          }
+        },
+        {
+          type: httpOptions.httpMethod ? null : 'select',
+          name: 'method',
+          message: 'HTTP method:',
+          choices: HTTP_METHODS.map(method => ({ title: method, value: method })),
+          initial: HTTP_METHODS.indexOf(urlField === 'httpUrl' ? 'GET' : 'POST')
+        },
+        {
+          type: httpOptions.httpAuth ? null : 'select',
+          name: 'auth',
+          message: 'Authentication:',
+          choices: HTTP_AUTH_TYPES.map(auth => ({ title: auth, value: auth }))
+        }
+      ], {
+        onCancel: () => {
+          print.warning('Cancelled')
+          process.exit(0)
+        }
+      })
+      httpOptions[urlField] = (httpAnswers['url'] as string).trim()
+      httpOptions.httpMethod = httpOptions.httpMethod ?? httpAnswers['method'] as string
+      httpOptions.httpAuth = httpOptions.httpAuth ?? httpAnswers['auth'] as HttpAuthType
+    }
+
+    // Prompt for the options a user template declares
+    const templateConfig = template ? getTemplate(template, templates) : undefined
+    for (const option of templateConfig?.options ?? []) {
+      if (optionValues[option.key] !== undefined) continue
+      const { value } = await prompts({
+        type: 'text',
+        name: 'value',
+        message: option.message,
+        initial: option.default ?? '',
+        validate: (input: string) => !option.required || input.trim().length > 0 || `${option.key} is required`
+      }, {
+        onCancel: () => {
+          print.warning('Cancelled')
+          process.exit(0)
+        }
+      })
+      optionValues[option.key] = value as string
+    }
+
+    // Prompt for the fields of a built-in template
+    const templateFields = templateConfig?.fields ?? []
+    const templateFieldValues = templateFields.length > 0
+      ? await promptTemplateFields(templateFields, fieldValues)
+      : {}
+
     // Validate inputs
     if (!workflowName) {
       throw new ValidationError('Workflow name is required')
@@ -121,18 +337,53 @@ async function newAction(options: NewOptions): Promise<void> {
       throw new ValidationError('Timezone is required')
     }
 
-    if (!template) {
+    if (!template || !templateConfig) {
       throw new ValidationError('Template is required')
     }
 
     // Validate cron expression
-    const cronInfo = parseCron(cronExpression, timezone)
+    const cronInfo = parseCron(cronExpression, timezone, 5, { dstWarnings: true })
     if (!cronInfo.isValid) {
       throw new ValidationError(`Invalid cron expression: ${cronInfo.error}`)
     }
+    cronExpression = normalizeCronExpression(cronExpression)
+
+    // Additional schedules, from --add-schedule or prompted when the cron was prompted
+    const additionalSchedules: Schedule[] = (options.addSchedule ?? []).map(spec => parseScheduleSpec(spec, timezone!))
+    if (!options.cron) {
+      while (true) {
+        const { extraCron } = await prompts({
+          type: 'text',
+          name: 'extraCron',
+          message: 'Additional cron expression (optionally <cron>@<timezone>, empty to finish):',
+          validate: (value: string) => {
+            if (!value.trim()) return true
+            const schedule = parseScheduleSpec(value, timezone!)
+            const result = parseCron(schedule.cronExpression, schedule.timezone)
+            return result.isValid || `Invalid cron: ${result.error}`
+          }
+        }, {
+          onCancel: () => {
+            print.warning('Cancelled')
+            process.exit(0)
+          }
+        })
+        if (!extraCron?.trim()) break
+        additionalSchedules.push(parseScheduleSpec(extraCron, timezone))
+      }
+    }
+
+    const additionalInfos = additionalSchedules.map(schedule => {
+      const info = parseCron(schedule.cronExpression, schedule.timezone, 5, { dstWarnings: true })
+      if (!info.isValid) {
+        throw new ValidationError(`Invalid cron expression "${schedule.cronExpression}": ${info.error}`)
+      }
+      return info
+    })
 
     // Generate slug
-    let slug = createSlug(workflowName)
+    workflowName = applyNamePrefix(workflowName)
+    let slug = createProjectSlug(workflowName)
     
     // Check if slug already exists
     if (await manifestExists(slug)) {
@@ -162,17 +413,38 @@ async function newAction(options: NewOptions): Promise<void> {
 
     // Create manifest
     const manifest = createManifest(slug, workflowName, template, cronExpression, timezone)
+    if (additionalSchedules.length > 0) {
+      manifest.additionalSchedules = additionalSchedules
+    }
+    if (alert) {
+      manifest.alert = alert
+    }
+    manifest.tags = [...new Set([...manifest.tags, ...validateTags(options.tag ?? [], slug)])]
+    setManifestMetadata(manifest, {
+      owner: options.owner,
+      description: options.description,
+      runbookUrl: options.runbookUrl,
+      labels
+    })
 
     // Create workflow from template
-    const templateConfig = getTemplate(template)
-    const templateOptions: TemplateOptions = {}
+    const templateOptions: TemplateOptions = {
+      ...httpOptions,
+      ...resolveTemplateFields(templateConfig, templateFieldValues)
+    }
     if (shellCommand) {
       templateOptions.shellCommand = shellCommand
     }
+    if (Object.keys(optionValues).length > 0) {
+      templateOptions.values = optionValues
+    }
+    if (additionalSchedules.length > 0) {
+      templateOptions.additionalSchedules = additionalSchedules
+    }
     const workflow = templateConfig.create(workflowName, cronExpression, timezone, templateOptions)
 
     // Save files
-    const basePath = getCwd()
+    const basePath = getProjectRoot()
     const workflowPath = getWorkflowPath(slug, basePath)
     const manifestPath = getManifestPath(slug, basePath)
 
@@ -193,16 +465,44 @@ async function newAction(options: NewOptions): Promise<void> {
     print.keyValue('Name', workflowName)
     print.keyValue('Template', templateConfig.name)
     print.keyValue('Cron', cronExpression)
+    print.keyValue('Schedule', cronInfo.description ?? cronExpression)
     print.keyValue('Timezone', timezone)
+    if (alert) {
+      print.keyValue('Alert', formatAlert(alert))
+    }
+    if (manifest.owner) {
+      print.keyValue('Owner', manifest.owner)
+    }
+    if (manifest.runbookUrl) {
+      print.keyValue('Runbook', manifest.runbookUrl)
+    }
+    additionalSchedules.forEach((schedule, index) => {
+      print.keyValue(
+        `Schedule ${index + 2}`,
+        `${schedule.cronExpression} (${schedule.timezone}) - ${additionalInfos[index]!.description ?? schedule.cronExpression}`
+      )
+    })
     print.newline()
     print.header('Files created')
     print.list([workflowPath, manifestPath])
     print.newline()
     print.header('Next scheduled runs')
-    cronInfo.nextRuns.slice(0, 5).forEach(date => {
+    const allInfos = [cronInfo, ...additionalInfos]
+    mergeRunTimes(allInfos.flatMap(info => info.nextRuns)).slice(0, 5).forEach(date => {
       print.dim(`  ${date.toLocaleString()}`)
     })
     print.newline()
+    const dstWarnings = allInfos.flatMap(info => info.dstWarnings ?? [])
+    for (const warning of dstWarnings) {
+      print.warning(warning.message)
+    }
+    if (dstWarnings.length > 0) {
+      print.newline()
+    }
+    if (templateOptions.httpAuth && templateOptions.httpAuth !== 'none') {
+      print.warning(`Select a ${templateOptions.httpAuth} auth credential for the HTTP node in n8n after deploying`)
+      print.newline()
+    }
     print.info(`Deploy with: cron8n cron deploy ${slug}`)
   } catch (error) {
     handleError(error)
@@ -210,12 +510,34 @@ async function newAction(options: NewOptions): Promise<void> {
 }
 
 export function createCronNewCommand(): Command {
-  return new Command('new')
+  const command = new Command('new')
     .description('Create a new cron workflow')
     .option('--name <name>', 'Workflow name')
     .option('--cron <expression>', 'Cron expression')
-    .option('--timezone <tz>', 'Timezone (default: Europe/Istanbul)')
-    .option('--template <template>', 'Template: cron-only, http-request, webhook-call, shell-command')
+    .option('--timezone <tz>', 'Timezone (default: the project config timezone)')
+    .option('--template <template>', `Template: ${getTemplateNames().join(', ')}, or a user template`)
     .option('--shell-command <command>', 'Shell command to execute (for shell-command template)')
-    .action(newAction)
+    .option('--add-schedule <expression>', 'Additional schedule as "<cron>" or "<cron>@<timezone>" (repeatable)', collect)
+    .option('--option <key=value>', 'Value for a user template option (repeatable)', collect)
+    .option('--http-url <url>', 'Request URL (for http-request template)')
+    .option('--http-method <method>', `HTTP method: ${HTTP_METHODS.join(', ')}`)
+    .option('--webhook-url <url>', 'Webhook URL (for webhook-call template)')
+    .option('--header <header>', 'Request header as "<name>: <value>" (repeatable)', collect)
+    .option('--query <param>', 'Query parameter as <name>=<value> (repeatable)', collect)
+    .option('--body <json>', 'JSON request body')
+    .option('--auth <type>', `Authentication: ${HTTP_AUTH_TYPES.join(', ')} (credentials are selected in n8n)`)
+    .option('--timeout <ms>', 'Request timeout in milliseconds')
+    .option('--alert <destination>', 'Report failures to slack:<webhook-url>, email:<address> or http:<url>')
+    .option('--tag <tag>', 'Tag pushed to n8n on deploy, e.g. team:payments (repeatable)', collect)
+    .option('--owner <owner>', 'Person or team owning the workflow')
+    .option('--description <text>', 'What the workflow does')
+    .option('--runbook-url <url>', 'Runbook to follow when the workflow fails')
+    .option('--label <key=value>', 'Free-form label (repeatable)', collect)
+
+  for (const { field, templates } of getTemplateFieldFlags()) {
+    const choices = field.choices ? `: ${field.choices.join(', ')}` : ''
+    command.option(`${getTemplateFieldFlag(field)} <value>`, `${field.label}${choices} (for ${templates.join(', ')})`)
+  }
+
+  return command.action(newAction)
 }
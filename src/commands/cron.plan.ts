@@ -0,0 +1,93 @@
+import { Command } from 'commander'
+import kleur from 'kleur'
+import { print } from '../utils/print.js'
+import { handleError } from '../utils/errors.js'
+
+import { getClient } from '../api/n8nClient.js'
+import { getActiveProfileName } from '../config/store.js'
+import { createPlan, loadPlanInput, type Plan, type PlanActionType } from '../workflows/plan.js'
+import { getProjectRoot } from '../config/project.js'
+
+interface PlanOptions {
+  json?: boolean
+  detailedExitcode?: boolean
+}
+
+const ACTION_SYMBOLS: Record<PlanActionType, string> = {
+  create: kleur.green('+ create'),
+  update: kleur.yellow('~ update'),
+  activate: kleur.green('▶ activate'),
+  deactivate: kleur.yellow('■ deactivate'),
+  delete: kleur.red('- delete')
+}
+
+/**
+ * Prints a plan in human-readable form
+ */
+export function printPlan(plan: Plan): void {
+  for (const warning of plan.warnings) {
+    print.warning(warning)
+  }
+
+  print.header('Execution Plan')
+
+  if (plan.actions.length === 0) {
+    print.success('No changes. Remote workflows match local manifests.')
+    return
+  }
+
+  const headers = ['Action', 'Slug', 'Name', 'Workflow ID', 'Reason']
+  const rows = plan.actions.map(action => [
+    ACTION_SYMBOLS[action.type],
+    action.slug,
+    action.name,
+    action.workflowId ?? kleur.dim('(new)'),
+    action.reason
+  ])
+  print.table(headers, rows)
+
+  print.newline()
+  const { create, update, activate, deactivate } = plan.summary
+  print.bold(
+    `Plan: ${create} to create, ${update} to update, ${activate} to activate, ` +
+    `${deactivate} to deactivate, ${plan.summary.delete} to delete.`
+  )
+}
+
+async function planAction(options: PlanOptions): Promise<void> {
+  try {
+    const client = await getClient()
+
+    if (!options.json) {
+      print.info('Comparing local manifests with n8n...')
+    }
+
+    const plan = createPlan(await loadPlanInput(client, getProjectRoot(), await getActiveProfileName()))
+
+    if (options.detailedExitcode && plan.actions.length > 0) {
+      process.exitCode = 2
+    }
+
+    if (options.json) {
+      print.json(plan)
+      return
+    }
+
+    printPlan(plan)
+
+    if (plan.actions.length > 0) {
+      print.newline()
+      print.info('Apply with: cron8n cron apply')
+    }
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronPlanCommand(): Command {
+  return new Command('plan')
+    .description('Show changes needed to bring n8n in line with local workflows')
+    .option('--json', 'Output as JSON')
+    .option('--detailed-exitcode', 'Exit with code 2 when there are changes')
+    .action(planAction)
+}
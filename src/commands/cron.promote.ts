@@ -0,0 +1,149 @@
+import { Command } from 'commander'
+import kleur from 'kleur'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError } from '../utils/errors.js'
+import {
+  resolveManifest,
+  getDeployedWorkflowId,
+  requireDeployedWorkflowId,
+  updateManifestActive
+} from '../workflows/manifest.js'
+import { promoteWorkflow, type PromoteChange } from '../workflows/promote.js'
+import { deployWorkflow } from '../workflows/deploy.js'
+import { getClient } from '../api/n8nClient.js'
+
+interface PromoteOptions {
+  from: string
+  to: string
+  activate?: boolean
+  dryRun?: boolean
+  allowUnmapped?: boolean
+  json?: boolean
+}
+
+function printChanges(changes: PromoteChange[]): void {
+  if (changes.length === 0) {
+    print.dim('  No environment-specific values rewritten')
+    return
+  }
+
+  for (const change of changes) {
+    print.line(`  ${kleur.yellow('~')} ${change.node} ${kleur.dim(change.path)}`)
+    print.line(`      ${kleur.red(change.from)} ${kleur.dim('→')} ${kleur.green(change.to)}`)
+  }
+}
+
+async function promoteAction(slugOrPath: string, options: PromoteOptions): Promise<void> {
+  try {
+    if (options.from === options.to) {
+      throw new ValidationError('Source and target environments are the same', 'Pass different --from and --to profiles')
+    }
+
+    const { manifest, basePath } = await resolveManifest(slugOrPath)
+    const sourceId = requireDeployedWorkflowId(manifest, options.from)
+    const targetId = getDeployedWorkflowId(manifest, options.to)
+
+    const source = await getClient(options.from)
+    const target = await getClient(options.to)
+
+    if (!options.json) {
+      print.info(`Promoting ${manifest.name}: ${options.from} → ${options.to}`)
+    }
+
+    const remote = await source.getWorkflow(sourceId)
+    const result = promoteWorkflow(
+      remote,
+      manifest,
+      { env: options.from, baseUrl: source.baseUrl },
+      { env: options.to, baseUrl: target.baseUrl }
+    )
+
+    if (result.unmappedCredentials.length > 0 && !options.allowUnmapped) {
+      throw new ValidationError(
+        `Credentials without a "${options.to}" mapping: ${result.unmappedCredentials.join(', ')}`,
+        `Add their IDs under "credentials" in the manifest, or pass --allow-unmapped`
+      )
+    }
+
+    if (options.dryRun) {
+      if (options.json) {
+        print.json({
+          slug: manifest.slug,
+          from: options.from,
+          to: options.to,
+          sourceWorkflowId: sourceId,
+          targetWorkflowId: targetId ?? null,
+          dryRun: true,
+          changes: result.changes,
+          unmappedCredentials: result.unmappedCredentials
+        })
+        return
+      }
+
+      print.header('Dry Run - No changes will be made')
+      print.keyValue('Operation', targetId ? 'UPDATE' : 'CREATE')
+      if (targetId) {
+        print.keyValue('Target Workflow ID', targetId)
+      }
+      print.newline()
+      printChanges(result.changes)
+      return
+    }
+
+    const deployed = await deployWorkflow(target, manifest, result.workflow, basePath, options.to, targetId)
+
+    if (options.activate) {
+      await target.activateWorkflow(deployed.workflowId)
+      await updateManifestActive(manifest.slug, true, basePath)
+    }
+
+    if (options.json) {
+      print.json({
+        slug: manifest.slug,
+        from: options.from,
+        to: options.to,
+        sourceWorkflowId: sourceId,
+        targetWorkflowId: deployed.workflowId,
+        created: deployed.created,
+        activated: !!options.activate,
+        changes: result.changes,
+        unmappedCredentials: result.unmappedCredentials
+      })
+      return
+    }
+
+    print.success(deployed.created ? 'Workflow created in target!' : 'Workflow updated in target!')
+
+    print.newline()
+    print.header('Rewritten Values')
+    printChanges(result.changes)
+
+    if (result.unmappedCredentials.length > 0) {
+      print.newline()
+      print.warning('Credentials kept as-is (no mapping):')
+      print.list(result.unmappedCredentials)
+    }
+
+    print.newline()
+    print.header('Promotion Summary')
+    print.keyValue('Source', `${options.from} (${sourceId})`)
+    print.keyValue('Target', `${options.to} (${deployed.workflowId})`)
+    print.keyValue('Active', options.activate ? 'Yes' : String(deployed.workflow.active ?? false))
+    print.keyValue('Tags', deployed.tags.join(', '))
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronPromoteCommand(): Command {
+  return new Command('promote')
+    .description('Copy a deployed workflow from one environment to another')
+    .argument('<slug|path>', 'Workflow slug or path to manifest')
+    .requiredOption('--from <profile>', 'Environment (auth profile) to promote from')
+    .requiredOption('--to <profile>', 'Environment (auth profile) to promote to')
+    .option('--activate', 'Activate the workflow in the target environment')
+    .option('--dry-run', 'Show what would be rewritten without making changes')
+    .option('--allow-unmapped', 'Promote even if some credentials have no target mapping')
+    .option('--json', 'Output as JSON')
+    .action(promoteAction)
+}
@@ -0,0 +1,161 @@
+import { Command } from 'commander'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError } from '../utils/errors.js'
+import { exists, readJson, writeJson } from '../utils/fs.js'
+import {
+  resolveManifest,
+  loadAllManifests,
+  saveManifest,
+  getWorkflowPath,
+  getDeployment,
+  getDeployedWorkflowId,
+  type Manifest
+} from '../workflows/manifest.js'
+import { removeErrorWorkflow } from '../workflows/alerts.js'
+import { diffWorkflows } from '../workflows/diff.js'
+import { toLocalWorkflow, syncManifestFromWorkflow, type ManifestUpdate } from '../workflows/sync.js'
+import { getClient, type N8nClient, type N8nWorkflow } from '../api/n8nClient.js'
+import { updateWorkflowId } from '../config/registry.js'
+import { getActiveProfileName } from '../config/store.js'
+import { getProjectRoot } from '../config/project.js'
+
+interface PullOptions {
+  all?: boolean
+  dryRun?: boolean
+  json?: boolean
+}
+
+interface PullResult {
+  slug: string
+  workflowId?: string
+  status: 'updated' | 'unchanged' | 'skipped' | 'failed'
+  manifestUpdates: ManifestUpdate[]
+  message?: string
+}
+
+async function pullOne(
+  client: N8nClient,
+  manifest: Manifest,
+  basePath: string,
+  env: string,
+  options: PullOptions
+): Promise<PullResult> {
+  const workflowId = getDeployedWorkflowId(manifest, env)
+
+  if (!workflowId) {
+    return { slug: manifest.slug, status: 'skipped', manifestUpdates: [], message: `Not deployed to "${env}" yet` }
+  }
+
+  const remote = await client.getWorkflow(workflowId)
+  const workflow = toLocalWorkflow(removeErrorWorkflow(remote, getDeployment(manifest, env)?.errorWorkflowId))
+  const workflowPath = getWorkflowPath(manifest.slug, basePath)
+
+  const local = await exists(workflowPath)
+    ? await readJson<N8nWorkflow>(workflowPath)
+    : undefined
+
+  const manifestUpdates = syncManifestFromWorkflow(manifest, workflow)
+  const workflowChanged = !local || diffWorkflows(local, workflow).hasDrift
+
+  if (!workflowChanged && manifestUpdates.length === 0) {
+    return { slug: manifest.slug, workflowId, status: 'unchanged', manifestUpdates }
+  }
+
+  if (!options.dryRun) {
+    await writeJson(workflowPath, workflow)
+    await saveManifest(manifest, basePath)
+    await updateWorkflowId(manifest.slug, basePath, workflowId)
+  }
+
+  return { slug: manifest.slug, workflowId, status: 'updated', manifestUpdates }
+}
+
+async function pullAction(slugOrPath: string | undefined, options: PullOptions): Promise<void> {
+  try {
+    if (!slugOrPath && !options.all) {
+      throw new ValidationError('Workflow slug is required', 'Pass a slug or use --all')
+    }
+
+    const targets: Array<{ manifest: Manifest; basePath: string }> = []
+
+    if (options.all) {
+      const basePath = getProjectRoot()
+      for (const manifest of await loadAllManifests(basePath)) {
+        targets.push({ manifest, basePath })
+      }
+    } else {
+      targets.push(await resolveManifest(slugOrPath!))
+    }
+
+    const env = await getActiveProfileName()
+    const client = await getClient()
+    const results: PullResult[] = []
+
+    for (const { manifest, basePath } of targets) {
+      try {
+        results.push(await pullOne(client, manifest, basePath, env, options))
+      } catch (error) {
+        // With a single target, surface the error directly
+        if (!options.all) throw error
+        results.push({
+          slug: manifest.slug,
+          workflowId: getDeployedWorkflowId(manifest, env),
+          status: 'failed',
+          manifestUpdates: [],
+          message: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    if (results.some(r => r.status === 'failed')) {
+      process.exitCode = 1
+    }
+
+    if (options.json) {
+      print.json({ dryRun: !!options.dryRun, results })
+      return
+    }
+
+    if (options.dryRun) {
+      print.header('Dry Run - No files will be written')
+    }
+
+    for (const result of results) {
+      switch (result.status) {
+        case 'updated':
+          print.success(`${result.slug}: ${options.dryRun ? 'would be updated' : 'updated from n8n'}`)
+          for (const update of result.manifestUpdates) {
+            print.dim(`    ${update.field}: ${update.from} → ${update.to}`)
+          }
+          break
+        case 'unchanged':
+          print.dim(`  ${result.slug}: already up to date`)
+          break
+        case 'skipped':
+          print.warning(`${result.slug}: skipped (${result.message})`)
+          break
+        case 'failed':
+          print.error(`${result.slug}: ${result.message}`)
+          break
+      }
+    }
+
+    const updated = results.filter(r => r.status === 'updated').length
+    if (updated > 0 && !options.dryRun) {
+      print.newline()
+      print.info('Review the changes with git diff before committing')
+    }
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronPullCommand(): Command {
+  return new Command('pull')
+    .description('Pull deployed workflows from n8n into local files')
+    .argument('[slug|path]', 'Workflow slug or path to manifest')
+    .option('--all', 'Pull all deployed local workflows')
+    .option('--dry-run', 'Show what would be updated without writing files')
+    .option('--json', 'Output as JSON')
+    .action(pullAction)
+}
@@ -0,0 +1,160 @@
+import { Command } from 'commander'
+import kleur from 'kleur'
+import { print } from '../utils/print.js'
+import { handleError, ValidationError, ApiError } from '../utils/errors.js'
+import { createClient, type N8nExecution } from '../api/n8nClient.js'
+import { resolveManifest, getDeployedWorkflowId } from '../workflows/manifest.js'
+import { getActiveProfileName, requireAuth } from '../config/store.js'
+import { RUN_TRIGGER_HEADER, createRunTriggerToken } from '../workflows/runTrigger.js'
+import {
+  summarizeExecution,
+  isExecutionFinished,
+  getExecutionOutput
+} from '../workflows/executions.js'
+import { formatDuration, getISOTimestamp, sleep } from '../utils/time.js'
+
+interface RunOptions {
+  wait?: boolean
+  timeout?: string
+  json?: boolean
+}
+
+const POLL_INTERVAL_MS = 2000
+
+/**
+ * Finds the first execution newer than the given execution ID
+ */
+function findNewExecution(executions: N8nExecution[], previousId?: string): N8nExecution | undefined {
+  const newer = executions.filter(e => !previousId || Number(e.id) > Number(previousId))
+  return newer.sort((a, b) => Number(a.id) - Number(b.id))[0]
+}
+
+async function runAction(slugOrPath: string, options: RunOptions): Promise<void> {
+  try {
+    const { manifest } = await resolveManifest(slugOrPath)
+    const timeoutMs = (options.timeout ? parseInt(options.timeout, 10) : 300) * 1000
+
+    if (Number.isNaN(timeoutMs) || timeoutMs <= 0) {
+      throw new ValidationError(`Invalid timeout: ${options.timeout}`, 'Timeout must be a positive number of seconds')
+    }
+
+    const env = await getActiveProfileName()
+    const workflowId = getDeployedWorkflowId(manifest, env)
+
+    if (!workflowId) {
+      throw new ValidationError(
+        `Workflow "${manifest.slug}" is not deployed to "${env}" yet`,
+        `Deploy first with: cron8n cron deploy ${manifest.slug} --env ${env} --run-trigger`
+      )
+    }
+
+    if (!manifest.runTriggerPath) {
+      throw new ValidationError(
+        `Workflow "${manifest.slug}" has no run trigger`,
+        `Redeploy with: cron8n cron deploy ${manifest.slug} --run-trigger`
+      )
+    }
+
+    const auth = await requireAuth()
+    const client = createClient(auth)
+
+    const workflow = await client.getWorkflow(workflowId)
+    if (!workflow.active) {
+      throw new ValidationError(
+        `Workflow "${manifest.slug}" is not active`,
+        `Activate first with: cron8n cron activate ${manifest.slug}`
+      )
+    }
+
+    // Remember the latest execution so the triggered one can be identified
+    const [previous] = await client.listExecutions({ workflowId, limit: 1 })
+
+    if (!options.json) {
+      print.info(`Triggering workflow: ${manifest.name}`)
+    }
+
+    await client.triggerWebhook(manifest.runTriggerPath, {
+      source: 'cron8n',
+      slug: manifest.slug,
+      triggeredAt: getISOTimestamp()
+    }, { [RUN_TRIGGER_HEADER]: createRunTriggerToken(auth.secret, manifest.runTriggerPath) })
+
+    if (!options.wait) {
+      if (options.json) {
+        print.json({ workflowId, triggered: true })
+        return
+      }
+      print.success('Workflow triggered!')
+      print.info(`Check the result with: cron8n cron execs ${manifest.slug}`)
+      return
+    }
+
+    if (!options.json) {
+      print.info('Waiting for execution to finish...')
+    }
+
+    const deadline = Date.now() + timeoutMs
+    let executionId: string | undefined
+
+    while (Date.now() < deadline) {
+      await sleep(POLL_INTERVAL_MS)
+
+      if (!executionId) {
+        const executions = await client.listExecutions({ workflowId, limit: 5 })
+        executionId = findNewExecution(executions, previous?.id)?.id
+        if (!executionId) continue
+        if (!options.json) print.dim(`  Execution started: ${executionId}`)
+      }
+
+      const execution = await client.getExecution(executionId)
+      if (!isExecutionFinished(execution)) continue
+
+      const detailed = await client.getExecution(executionId, true)
+      const summary = summarizeExecution(detailed)
+      const output = getExecutionOutput(detailed)
+
+      if (options.json) {
+        print.json({ ...summary, output: output ?? [] })
+      } else {
+        print.newline()
+        print.header('Execution Result')
+        print.keyValue('Execution ID', summary.id)
+        print.keyValue('Status', summary.status === 'success' ? kleur.green(summary.status) : kleur.red(summary.status))
+        if (summary.durationMs !== undefined) {
+          print.keyValue('Duration', formatDuration(summary.durationMs))
+        }
+        if (summary.error) {
+          print.keyValue('Error', kleur.red(summary.error))
+        }
+        if (output) {
+          print.newline()
+          print.header('Output')
+          print.json(output)
+        }
+      }
+
+      if (summary.status !== 'success') {
+        process.exitCode = 1
+      }
+      return
+    }
+
+    throw new ApiError(
+      `Timed out after ${timeoutMs / 1000}s waiting for execution`,
+      undefined,
+      `Check the result later with: cron8n cron execs ${manifest.slug}`
+    )
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronRunCommand(): Command {
+  return new Command('run')
+    .description('Run a deployed workflow immediately')
+    .argument('<slug|path>', 'Workflow slug or path to manifest')
+    .option('--wait', 'Wait for the execution to finish and show its result')
+    .option('--timeout <seconds>', 'Maximum time to wait (default: 300)')
+    .option('--json', 'Output as JSON')
+    .action(runAction)
+}
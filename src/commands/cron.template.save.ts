@@ -0,0 +1,184 @@
+import { Command } from 'commander'
+import prompts from 'prompts'
+import { print } from '../utils/print.js'
+import { handleError, FileError, ValidationError } from '../utils/errors.js'
+import { isValidSlug } from '../utils/slug.js'
+import { exists, join } from '../utils/fs.js'
+import { loadManifest, loadWorkflow, manifestExists } from '../workflows/manifest.js'
+import {
+  createTemplateFromWorkflow,
+  findTemplateParameters,
+  getTemplateDirs,
+  saveUserTemplate,
+  suggestOptionKey,
+  type TemplateParameter,
+  type TemplateParameterOption
+} from '../workflows/userTemplates.js'
+import { getProjectRoot, getWorkflowsDirName } from '../config/project.js'
+
+interface TemplateSaveOptions {
+  as: string
+  name?: string
+  description?: string
+  option?: string[]
+  global?: boolean
+  force?: boolean
+}
+
+// Long values are shortened in the parameter picker
+const MAX_VALUE_LENGTH = 40
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Parses --option "<node>.<path>[=<key>]" against the workflow's parameters
+ */
+function parseParameterOptions(specs: string[], parameters: TemplateParameter[]): TemplateParameterOption[] {
+  const options: TemplateParameterOption[] = []
+  for (const spec of specs) {
+    const separator = spec.lastIndexOf('=')
+    const target = separator > 0 ? spec.slice(0, separator) : spec
+    const parameter = parameters.find(p => `${p.node}.${p.path}` === target)
+    if (!parameter) {
+      throw new ValidationError(
+        `Parameter not found: ${target}`,
+        'Use --option "<node name>.<parameter path>[=<key>]", e.g. --option "HTTP Request.url=endpoint"'
+      )
+    }
+    const key = separator > 0 ? spec.slice(separator + 1) : suggestOptionKey(parameter, options.map(o => o.key))
+    options.push({ node: parameter.node, path: parameter.path, key })
+  }
+  return options
+}
+
+/**
+ * Asks which parameters become template options, and their keys
+ */
+async function promptParameterOptions(parameters: TemplateParameter[]): Promise<TemplateParameterOption[]> {
+  const onCancel = (): void => {
+    print.warning('Cancelled')
+    process.exit(0)
+  }
+
+  const { selected } = await prompts({
+    type: 'multiselect',
+    name: 'selected',
+    message: 'Parameters that become template options:',
+    choices: parameters.map((p, index) => ({
+      title: `${p.node} › ${p.path}`,
+      description: p.value.length > MAX_VALUE_LENGTH ? `${p.value.slice(0, MAX_VALUE_LENGTH)}…` : p.value,
+      value: index
+    })),
+    hint: '- Space to select, Enter to confirm'
+  }, { onCancel })
+
+  const options: TemplateParameterOption[] = []
+  for (const index of (selected as number[] | undefined) ?? []) {
+    const parameter = parameters[index]!
+    const answers = await prompts([
+      {
+        type: 'text',
+        name: 'key',
+        message: `Option key for ${parameter.node} › ${parameter.path}:`,
+        initial: suggestOptionKey(parameter, options.map(o => o.key)),
+        validate: (value: string) => {
+          if (!/^[A-Za-z][\w-]*$/.test(value)) return 'Use letters, digits, - and _, starting with a letter'
+          return !options.some(o => o.key === value) || 'This key is already used'
+        }
+      },
+      {
+        type: 'text',
+        name: 'message',
+        message: 'Prompt shown when creating a workflow:',
+        initial: `${parameter.node} ${parameter.path}:`
+      }
+    ], { onCancel })
+    options.push({ node: parameter.node, path: parameter.path, key: answers['key'], message: answers['message'] })
+  }
+  return options
+}
+
+async function templateSaveAction(slug: string, options: TemplateSaveOptions): Promise<void> {
+  try {
+    const basePath = getProjectRoot()
+    const templateName = options.as
+
+    if (!isValidSlug(templateName)) {
+      throw new ValidationError(
+        `Invalid template name: ${templateName}`,
+        'Use lowercase letters, numbers, and hyphens'
+      )
+    }
+
+    if (!(await manifestExists(slug, basePath))) {
+      throw new FileError(
+        `Workflow "${slug}" not found`,
+        `Make sure the workflow exists in ./${getWorkflowsDirName()}/${slug}.cron8n.json`
+      )
+    }
+
+    const manifest = await loadManifest(slug, basePath)
+    const workflow = await loadWorkflow(slug, basePath)
+
+    const [projectDir, homeDir] = getTemplateDirs(basePath)
+    const templatesDir = options.global ? homeDir! : projectDir!
+    if (!options.force && (await exists(join(templatesDir, templateName)))) {
+      throw new ValidationError(
+        `Template "${templateName}" already exists in ${templatesDir}`,
+        'Use --force to overwrite it'
+      )
+    }
+
+    const parameters = findTemplateParameters(workflow)
+    const parameterOptions = options.option
+      ? parseParameterOptions(options.option, parameters)
+      : parameters.length > 0 ? await promptParameterOptions(parameters) : []
+
+    const template = createTemplateFromWorkflow(
+      workflow,
+      {
+        name: options.name ?? manifest.name,
+        description: options.description ?? `Created from ${slug}`
+      },
+      parameterOptions
+    )
+    const dir = await saveUserTemplate(templatesDir, templateName, template)
+
+    print.success(`Template "${templateName}" saved`)
+    print.newline()
+    print.keyValue('Name', template.meta.name)
+    print.keyValue('Location', dir)
+    print.keyValue('Nodes', String(template.workflow.nodes.length))
+    if (template.meta.options.length > 0) {
+      print.header('Options')
+      print.table(
+        ['Key', 'Default'],
+        template.meta.options.map(o => [o.key, o.default ?? ''])
+      )
+    }
+    if (template.strippedCredentials.length > 0) {
+      print.newline()
+      print.warning(`Credentials removed from: ${template.strippedCredentials.join(', ')}`)
+      print.dim('  Select credentials for these nodes in n8n after deploying')
+    }
+    print.newline()
+    print.info(`Create a workflow with: cron8n cron new --template ${templateName}`)
+  } catch (error) {
+    handleError(error)
+  }
+}
+
+export function createCronTemplateSaveCommand(): Command {
+  return new Command('save')
+    .description('Save a local workflow as a reusable template')
+    .argument('<slug>', 'Workflow slug')
+    .requiredOption('--as <template-name>', 'Template name (lowercase letters, numbers, and hyphens)')
+    .option('--name <name>', 'Display name (default: the workflow name)')
+    .option('--description <text>', 'Template description')
+    .option('--option <parameter>', 'Parameter to turn into an option, as "<node>.<path>[=<key>]" (repeatable, skips prompts)', collect)
+    .option('--global', 'Save to ~/.cron8n/templates instead of ./.cron8n/templates')
+    .option('--force', 'Overwrite an existing template')
+    .action(templateSaveAction)
+}
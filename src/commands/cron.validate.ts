@@ -2,7 +2,15 @@ import { Command } from 'commander'
 import prompts from 'prompts'
 import { print } from '../utils/print.js'
 import { handleError } from '../utils/errors.js'
-import { parseCron, formatDate, CRON_PRESETS, getTimezoneOptions } from '../utils/time.js'
+import {
+  parseCron,
+  formatDate,
+  mergeRunTimes,
+  getDefaultTimezone,
+  CRON_PRESETS,
+  getTimezoneOptions
+} from '../utils/time.js'
+import { parseScheduleSpec } from '../workflows/manifest.js'
 
 interface ValidateOptions {
   timezone?: string
@@ -10,12 +18,73 @@ interface ValidateOptions {
   json?: boolean
 }
 
-async function validateAction(expression?: string, options?: ValidateOptions): Promise<void> {
+/**
+ * Validates several schedules together and shows their combined next runs
+ */
+function validateSchedules(expressions: string[], timezone: string, count: number, json?: boolean): void {
+  const schedules = expressions.map(spec => parseScheduleSpec(spec, timezone))
+  const results = schedules.map(schedule => parseCron(schedule.cronExpression, schedule.timezone, count, { dstWarnings: true }))
+  const isValid = results.every(result => result.isValid)
+  const nextRuns = mergeRunTimes(results.flatMap(result => result.nextRuns)).slice(0, count)
+
+  if (json) {
+    print.json({
+      isValid,
+      schedules: schedules.map((schedule, index) => ({
+        expression: schedule.cronExpression,
+        timezone: schedule.timezone,
+        isValid: results[index]!.isValid,
+        description: results[index]!.description,
+        dstWarnings: results[index]!.dstWarnings,
+        error: results[index]!.error
+      })),
+      nextRuns: nextRuns.map(d => d.toISOString())
+    })
+    return
+  }
+
+  print.header('Schedule Validation')
+  schedules.forEach((schedule, index) => {
+    const result = results[index]!
+    print.newline()
+    print.keyValue(`Schedule ${index + 1}`, `${schedule.cronExpression} (${schedule.timezone})`)
+    if (result.isValid) {
+      print.success(result.description ?? schedule.cronExpression)
+      for (const warning of result.dstWarnings ?? []) {
+        print.warning(warning.message)
+      }
+    } else {
+      print.error(`Invalid cron expression: ${result.error}`)
+    }
+  })
+
+  if (!isValid) {
+    process.exitCode = 1
+    return
+  }
+
+  print.newline()
+  print.header(`Next ${count} scheduled runs (all schedules)`)
+  for (const date of nextRuns) {
+    print.dim(`  • ${formatDate(date)}`)
+  }
+}
+
+async function validateAction(expressions: string[], options?: ValidateOptions): Promise<void> {
   try {
-    let cronExpression = expression
-    let timezone = options?.timezone ?? 'Europe/Istanbul'
+    let cronExpression: string | undefined
+    let timezone = options?.timezone ?? getDefaultTimezone()
     const count = options?.count ? parseInt(options.count, 10) : 5
 
+    if (expressions.length > 1) {
+      validateSchedules(expressions, timezone, count, options?.json)
+      return
+    }
+
+    if (expressions[0]) {
+      ({ cronExpression, timezone } = parseScheduleSpec(expressions[0], timezone))
+    }
+
     // Interactive prompt if no expression provided
     if (!cronExpression) {
       const answers = await prompts([
@@ -59,7 +128,7 @@ async function validateAction(expression?: string, options?: ValidateOptions): P
     }
 
     // Parse and validate
-    const result = parseCron(cronExpression, timezone, count)
+    const result = parseCron(cronExpression, timezone, count, { dstWarnings: true })
 
     // JSON output
     if (options?.json) {
@@ -67,6 +136,8 @@ async function validateAction(expression?: string, options?: ValidateOptions): P
         expression: cronExpression,
         timezone,
         isValid: result.isValid,
+        description: result.description,
+        dstWarnings: result.dstWarnings,
         error: result.error,
         nextRuns: result.nextRuns.map(d => d.toISOString())
       })
@@ -82,18 +153,23 @@ async function validateAction(expression?: string, options?: ValidateOptions): P
     if (!result.isValid) {
       print.error(`Invalid cron expression: ${result.error}`)
       print.newline()
-      print.info('Cron format: minute hour day-of-month month day-of-week')
+      print.info('Cron format: [second] minute hour day-of-month month day-of-week')
       print.info('Example: 0 9 * * 1-5 (Every weekday at 9:00 AM)')
       return
     }
 
     print.success('Valid cron expression')
+    print.keyValue('Description', result.description ?? cronExpression)
     print.newline()
 
     // Show cron breakdown
-    const parts = cronExpression.split(' ')
+    const parts = cronExpression.trim().split(/\s+/)
     if (parts.length >= 5) {
       print.header('Expression Breakdown')
+      // 6-field expressions start with seconds
+      if (parts.length === 6) {
+        print.keyValue('Second', parts.shift()!)
+      }
       print.keyValue('Minute', parts[0] ?? '*')
       print.keyValue('Hour', parts[1] ?? '*')
       print.keyValue('Day of Month', parts[2] ?? '*')
@@ -107,6 +183,14 @@ async function validateAction(expression?: string, options?: ValidateOptions): P
       print.dim(`  • ${formatDate(date)}`)
     }
 
+    if (result.dstWarnings && result.dstWarnings.length > 0) {
+      print.newline()
+      print.header('Daylight saving time')
+      for (const warning of result.dstWarnings) {
+        print.warning(warning.message)
+      }
+    }
+
     // Show common presets for reference
     print.newline()
     print.header('Common Presets')
@@ -120,9 +204,9 @@ async function validateAction(expression?: string, options?: ValidateOptions): P
 
 export function createCronValidateCommand(): Command {
   return new Command('validate')
-    .description('Validate a cron expression and show next run times')
-    .argument('[expression]', 'Cron expression to validate')
-    .option('--timezone <tz>', 'Timezone (default: Europe/Istanbul)')
+    .description('Validate cron expressions and show next run times')
+    .argument('[expressions...]', 'Cron expressions to validate, optionally as "<cron>@<timezone>"')
+    .option('--timezone <tz>', 'Timezone (default: the project config timezone)')
     .option('--count <n>', 'Number of next runs to show (default: 5)')
     .option('--json', 'Output as JSON')
     .action(validateAction)
@@ -1,7 +1,10 @@
 import { Command } from 'commander'
 import open from 'open'
 import { print } from '../utils/print.js'
+import { handleError } from '../utils/errors.js'
 import { startServer } from '../ui/server.js'
+import { getAuth, getProfile } from '../config/store.js'
+import { disablePassphrasePrompt } from '../config/secrets.js'
 
 interface UiOptions {
   port?: string
@@ -9,22 +12,35 @@ interface UiOptions {
 }
 
 async function uiAction(options: UiOptions): Promise<void> {
-  const port = options.port ? parseInt(options.port, 10) : 3847
+  try {
+    const port = options.port ? parseInt(options.port, 10) : 3847
 
-  print.header('cron8n Web UI')
-  print.newline()
+    print.header('cron8n Web UI')
+    print.newline()
 
-  // Start server
-  await startServer(port)
+    // The server cannot prompt, so the passphrase of an encrypted secret is
+    // asked now and requests fail fast when it is needed later
+    if ((await getProfile())?.secretBackend === 'encrypted') {
+      await getAuth().catch((error: unknown) => {
+        print.warning(`Cannot read the n8n secret: ${error instanceof Error ? error.message : String(error)}`)
+      })
+    }
+    disablePassphrasePrompt()
 
-  // Open browser
-  if (!options.noBrowser) {
-    print.info('Opening browser...')
-    await open(`http://localhost:${port}`)
-  }
+    // Start server
+    await startServer(port)
+
+    // Open browser
+    if (!options.noBrowser) {
+      print.info('Opening browser...')
+      await open(`http://localhost:${port}`)
+    }
 
-  print.newline()
-  print.dim('Press Ctrl+C to stop the server')
+    print.newline()
+    print.dim('Press Ctrl+C to stop the server')
+  } catch (error) {
+    handleError(error)
+  }
 }
 
 export function createUiCommand(): Command {
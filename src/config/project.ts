@@ -0,0 +1,150 @@
+import { z } from 'zod'
+import { dirname, join } from 'pathe'
+import { getCwd, readJson, exists } from '../utils/fs.js'
+import { FileError } from '../utils/errors.js'
+import { createSlug } from '../utils/slug.js'
+import { setDefaultTimezone } from '../utils/time.js'
+import { setProjectProfile } from './store.js'
+
+/**
+ * File names of the project config, looked up in this order
+ */
+export const PROJECT_CONFIG_FILES = ['cron8n.config.json', '.cron8nrc'] as const
+
+export const DEFAULT_WORKFLOWS_DIR = 'workflows'
+
+const NamingSchema = z.object({
+  // Prepended to new workflow names, e.g. "[Billing] "
+  namePrefix: z.string().optional(),
+  // Prepended to new slugs, e.g. "billing-"
+  slugPrefix: z.string().regex(/^[a-z0-9-]*$/, 'Use lowercase letters, numbers and hyphens').optional()
+}).strict()
+
+const ProjectConfigSchema = z.object({
+  timezone: z.string().optional(),
+  template: z.string().optional(),
+  // Relative to the directory of the config file
+  workflowsDir: z.string().optional(),
+  // Added to the manifest tags of new workflows
+  tags: z.array(z.string()).optional(),
+  // Used when neither --profile nor CRON8N_PROFILE is given
+  profile: z.string().optional(),
+  naming: NamingSchema.optional()
+}).strict()
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>
+
+export interface LoadedProjectConfig {
+  config: ProjectConfig
+  /** Config file path, undefined when no file was found */
+  path?: string
+  /** Directory of the config file, or the working directory */
+  root: string
+}
+
+let loaded: LoadedProjectConfig | undefined
+
+/**
+ * Finds the project config file by walking up from a directory
+ */
+export async function findProjectConfig(startDir: string = getCwd()): Promise<string | undefined> {
+  let dir = startDir
+  for (;;) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const path = join(dir, name)
+      if (await exists(path)) {
+        return path
+      }
+    }
+
+    const parent = dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Reads and validates a project config file
+ */
+export async function readProjectConfig(path: string): Promise<ProjectConfig> {
+  let data: unknown
+  try {
+    data = await readJson<unknown>(path)
+  } catch {
+    throw new FileError(`Invalid project config: ${path}`, 'The file must contain a JSON object')
+  }
+
+  const result = ProjectConfigSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.errors[0]
+    throw new FileError(
+      `Invalid project config: ${path}`,
+      issue ? `${issue.path.join('.') || 'config'}: ${issue.message}` : undefined
+    )
+  }
+  return result.data
+}
+
+/**
+ * Loads the project config found from a directory and applies its
+ * timezone and profile defaults. Called once before each command.
+ */
+export async function loadProjectConfig(startDir: string = getCwd()): Promise<LoadedProjectConfig> {
+  const path = await findProjectConfig(startDir)
+  const config = path ? await readProjectConfig(path) : {}
+
+  loaded = { config, root: path ? dirname(path) : startDir, ...(path ? { path } : {}) }
+  setDefaultTimezone(config.timezone)
+  setProjectProfile(config.profile)
+  return loaded
+}
+
+/**
+ * Resets the loaded project config (for tests)
+ */
+export function resetProjectConfig(): void {
+  loaded = undefined
+  setDefaultTimezone(undefined)
+  setProjectProfile(undefined)
+}
+
+/**
+ * Gets the loaded project config, empty when there is none
+ */
+export function getProjectConfig(): ProjectConfig {
+  return loaded?.config ?? {}
+}
+
+/**
+ * Gets the project root: the directory of the config file, so commands
+ * work from subdirectories, or the working directory without one
+ */
+export function getProjectRoot(): string {
+  return loaded?.root ?? getCwd()
+}
+
+/**
+ * Gets the workflows directory name relative to the project root
+ */
+export function getWorkflowsDirName(): string {
+  return getProjectConfig().workflowsDir ?? DEFAULT_WORKFLOWS_DIR
+}
+
+/**
+ * Applies the naming conventions to a new workflow name
+ */
+export function applyNamePrefix(name: string): string {
+  const prefix = getProjectConfig().naming?.namePrefix
+  return prefix && !name.startsWith(prefix) ? `${prefix}${name}` : name
+}
+
+/**
+ * Creates the slug of a new workflow, with the configured prefix
+ */
+export function createProjectSlug(name: string): string {
+  const slug = createSlug(name)
+  const prefix = getProjectConfig().naming?.slugPrefix
+  return prefix && !slug.startsWith(prefix) ? createSlug(`${prefix}${slug}`) : slug
+}
@@ -0,0 +1,235 @@
+import { z } from 'zod'
+import { exec } from 'node:child_process'
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto'
+import { promisify } from 'node:util'
+import prompts from 'prompts'
+import { join } from 'pathe'
+import { getHomeDir, readJson, writeJson, exists, ensureDir, deleteFile } from '../utils/fs.js'
+import { AuthError } from '../utils/errors.js'
+
+const execAsync = promisify(exec)
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+
+const SECRETS_DIR = join(getHomeDir(), '.cron8n', 'secrets')
+
+/**
+ * Where a profile's API key or token is kept:
+ * - config: plaintext in config.json (the default, as before)
+ * - env: read from an environment variable on every run
+ * - command: printed by a command such as "pass show n8n"
+ * - encrypted: in ~/.cron8n/secrets, encrypted with a passphrase
+ */
+export const SECRET_BACKENDS = ['config', 'env', 'command', 'encrypted'] as const
+
+export const SecretBackendSchema = z.enum(SECRET_BACKENDS)
+export type SecretBackend = z.infer<typeof SecretBackendSchema>
+
+export const DEFAULT_SECRET_ENV_VAR = 'CRON8N_API_KEY'
+
+const PASSPHRASE_ENV_VAR = 'CRON8N_PASSPHRASE'
+
+const SECRET_COMMAND_TIMEOUT = 30000
+
+// AES-256-GCM with a key derived from the passphrase by scrypt
+const EncryptedSecretSchema = z.object({
+  version: z.literal(1),
+  kdf: z.literal('scrypt'),
+  salt: z.string(),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string()
+})
+
+export type EncryptedSecret = z.infer<typeof EncryptedSecretSchema>
+
+/**
+ * How a profile's secret is looked up
+ */
+export interface SecretSource {
+  secretBackend?: SecretBackend
+  /** Command printing the secret, for the command backend */
+  secretCommand?: string
+  /** Environment variable holding the secret, for the env backend */
+  secretEnv?: string
+}
+
+// Asked once per process, since every command may read several secrets
+let cachedPassphrase: string | undefined
+
+// Turned off while the UI server runs, where nobody would see the prompt
+let passphrasePromptEnabled = true
+
+async function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return scryptAsync(passphrase, salt, 32)
+}
+
+/**
+ * Encrypts a secret with a passphrase
+ */
+export async function encryptSecret(secret: string, passphrase: string): Promise<EncryptedSecret> {
+  const salt = randomBytes(16)
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', await deriveKey(passphrase, salt), iv)
+  const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+  return {
+    version: 1,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  }
+}
+
+/**
+ * Decrypts a secret encrypted by encryptSecret
+ */
+export async function decryptSecret(encrypted: EncryptedSecret, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'))
+
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final()
+    ]).toString('utf8')
+  } catch {
+    throw new AuthError('Wrong passphrase for the encrypted secret', `Check ${PASSPHRASE_ENV_VAR} or the passphrase you entered`)
+  }
+}
+
+/**
+ * Gets the file holding a profile's encrypted secret
+ */
+export function getSecretFilePath(profile: string): string {
+  return join(SECRETS_DIR, `${profile}.json`)
+}
+
+/**
+ * Stops asking for the passphrase, so reading an encrypted secret fails
+ * fast unless the passphrase was given already
+ */
+export function disablePassphrasePrompt(): void {
+  passphrasePromptEnabled = false
+}
+
+/**
+ * Gets the passphrase of encrypted secrets from CRON8N_PASSPHRASE, or asks
+ * for it when running in a terminal
+ */
+async function getPassphrase(): Promise<string> {
+  const passphrase = cachedPassphrase ?? process.env[PASSPHRASE_ENV_VAR]
+  if (passphrase) {
+    return passphrase
+  }
+
+  if (!passphrasePromptEnabled || !process.stdin.isTTY) {
+    throw new AuthError(
+      'A passphrase is needed to decrypt the secret',
+      `Set the ${PASSPHRASE_ENV_VAR} environment variable`
+    )
+  }
+
+  const { value } = await prompts({
+    type: 'password',
+    name: 'value',
+    message: 'Passphrase for the encrypted secret:'
+  })
+  if (!value) {
+    throw new AuthError('A passphrase is needed to decrypt the secret')
+  }
+  cachedPassphrase = value as string
+  return cachedPassphrase
+}
+
+/**
+ * Runs a secret command and returns its trimmed output
+ */
+export async function runSecretCommand(command: string): Promise<string> {
+  let stdout: string
+  try {
+    ({ stdout } = await execAsync(command, { timeout: SECRET_COMMAND_TIMEOUT }))
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim()
+    throw new AuthError(`Secret command failed: ${command}`, stderr || (error instanceof Error ? error.message : undefined))
+  }
+
+  // Tools like `pass` print extra lines after the secret
+  const secret = stdout.split(/\r?\n/)[0]?.trim()
+  if (!secret) {
+    throw new AuthError(`Secret command printed nothing: ${command}`)
+  }
+  return secret
+}
+
+/**
+ * Reads a profile's secret from its backend. Secrets of the config backend
+ * are passed in, since they live in the profile itself.
+ */
+export async function readSecret(profile: string, source: SecretSource, stored?: string): Promise<string> {
+  const backend = source.secretBackend ?? 'config'
+
+  switch (backend) {
+    case 'config':
+      if (!stored) {
+        throw new AuthError(`Profile "${profile}" has no secret`, `Run "cron8n auth login --profile ${profile}" again`)
+      }
+      return stored
+    case 'env': {
+      const variable = source.secretEnv ?? DEFAULT_SECRET_ENV_VAR
+      const secret = process.env[variable]
+      if (!secret) {
+        throw new AuthError(`Environment variable ${variable} is not set`, `Profile "${profile}" reads its secret from ${variable}`)
+      }
+      return secret
+    }
+    case 'command':
+      if (!source.secretCommand) {
+        throw new AuthError(`Profile "${profile}" has no secret command`, 'Pass --secret-command to "cron8n auth login"')
+      }
+      return runSecretCommand(source.secretCommand)
+    case 'encrypted': {
+      const file = getSecretFilePath(profile)
+      if (!(await exists(file))) {
+        throw new AuthError(`Encrypted secret not found: ${file}`, `Run "cron8n auth login --profile ${profile}" again`)
+      }
+      const encrypted = EncryptedSecretSchema.parse(await readJson<unknown>(file))
+      return decryptSecret(encrypted, await getPassphrase())
+    }
+  }
+}
+
+/**
+ * Stores a secret in the encrypted backend. The other backends either keep
+ * the secret in the profile or never store it.
+ */
+export async function writeEncryptedSecret(profile: string, secret: string): Promise<void> {
+  const encrypted = await encryptSecret(secret, await getPassphrase())
+  await ensureDir(SECRETS_DIR)
+  await writeJson(getSecretFilePath(profile), encrypted)
+}
+
+/**
+ * Removes a profile's encrypted secret, if any
+ */
+export async function removeEncryptedSecret(profile: string): Promise<void> {
+  await deleteFile(getSecretFilePath(profile))
+}
+
+/**
+ * Describes where a profile's secret comes from, without revealing it
+ */
+export function describeSecretBackend(profile: string, source: SecretSource): string {
+  switch (source.secretBackend ?? 'config') {
+    case 'config':
+      return 'config file (plaintext)'
+    case 'env':
+      return `environment variable ${source.secretEnv ?? DEFAULT_SECRET_ENV_VAR}`
+    case 'command':
+      return `command "${source.secretCommand ?? ''}"`
+    case 'encrypted':
+      return `encrypted file ${getSecretFilePath(profile)}`
+  }
+}
@@ -1,8 +1,16 @@
 import { z } from 'zod'
 import { join } from 'pathe'
 import { getHomeDir, readJson, writeJson, exists, ensureDir } from '../utils/fs.js'
-import { AuthError } from '../utils/errors.js'
+import { AuthError, ValidationError } from '../utils/errors.js'
 import { print } from '../utils/print.js'
+import {
+  SecretBackendSchema,
+  readSecret,
+  writeEncryptedSecret,
+  removeEncryptedSecret,
+  describeSecretBackend,
+  type SecretBackend
+} from './secrets.js'
 
 const CONFIG_DIR = join(getHomeDir(), '.cron8n')
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
@@ -10,7 +18,36 @@ const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
 const AuthModeSchema = z.enum(['apiKey', 'bearerToken'])
 export type AuthMode = z.infer<typeof AuthModeSchema>
 
+// How to reach an instance behind a proxy or with a private CA
+const ConnectionSchema = z.object({
+  proxy: z.string().url().optional(),
+  // PEM files; the CA bundle is trusted in addition to the system CAs
+  caFile: z.string().optional(),
+  certFile: z.string().optional(),
+  keyFile: z.string().optional(),
+  // Skips TLS certificate verification
+  insecure: z.boolean().optional()
+})
+
+export type ConnectionSettings = z.infer<typeof ConnectionSchema>
+
+const ProfileSchema = z.object({
+  baseUrl: z.string().url(),
+  authMode: AuthModeSchema,
+  // Only kept here with the config backend
+  secret: z.string().optional(),
+  secretBackend: SecretBackendSchema.optional(),
+  secretCommand: z.string().optional(),
+  secretEnv: z.string().optional(),
+  connection: ConnectionSchema.optional()
+})
+
+export type Profile = z.infer<typeof ProfileSchema>
+
 const ConfigSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(ProfileSchema).optional(),
+  // Legacy single-instance credentials, migrated to the "default" profile on load
   baseUrl: z.string().url().optional(),
   authMode: AuthModeSchema.optional(),
   secret: z.string().optional()
@@ -22,8 +59,35 @@ export interface AuthCredentials {
   baseUrl: string
   authMode: AuthMode
   secret: string
+  profile?: string
+  connection?: ConnectionSettings
+  secretBackend?: SecretBackend
+  secretCommand?: string
+  secretEnv?: string
 }
 
+export interface ProfileInfo {
+  name: string
+  baseUrl: string
+  authMode: AuthMode
+  secretBackend: SecretBackend
+  isDefault: boolean
+  isActive: boolean
+}
+
+export const DEFAULT_PROFILE = 'default'
+
+const PROFILE_ENV_VAR = 'CRON8N_PROFILE'
+
+// Profile names also name the encrypted secret files, so no path separators
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/
+
+// Set from the global --profile flag
+let profileOverride: string | undefined
+
+// Set from the project config file
+let projectProfile: string | undefined
+
 /**
  * Loads config from disk
  */
@@ -34,12 +98,33 @@ async function loadConfig(): Promise<Config> {
 
   try {
     const data = await readJson<unknown>(CONFIG_FILE)
-    return ConfigSchema.parse(data)
+    return migrateConfig(ConfigSchema.parse(data))
   } catch {
     return {}
   }
 }
 
+/**
+ * Moves legacy top-level credentials into the default profile
+ */
+function migrateConfig(config: Config): Config {
+  if (!config.baseUrl || !config.authMode || !config.secret) {
+    return config
+  }
+
+  const profiles = { ...config.profiles }
+  profiles[DEFAULT_PROFILE] ??= {
+    baseUrl: config.baseUrl,
+    authMode: config.authMode,
+    secret: config.secret
+  }
+
+  return {
+    defaultProfile: config.defaultProfile ?? DEFAULT_PROFILE,
+    profiles
+  }
+}
+
 /**
  * Saves config to disk
  */
@@ -49,55 +134,197 @@ async function saveConfig(config: Config): Promise<void> {
 }
 
 /**
- * Saves authentication credentials
+ * Sets the profile selected with the global --profile flag
+ */
+export function setActiveProfile(name: string | undefined): void {
+  profileOverride = name
+}
+
+/**
+ * Sets the profile the project config file asks for
+ */
+export function setProjectProfile(name: string | undefined): void {
+  projectProfile = name
+}
+
+/**
+ * Checks that a profile name only has letters, numbers, hyphens and underscores
+ */
+export function validateProfileName(name: string): string {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid profile name: ${name}`, 'Use letters, numbers, hyphens and underscores')
+  }
+  return name
+}
+
+/**
+ * Resolves and checks the profile name: the given one, else the --profile
+ * flag, CRON8N_PROFILE, the project config, the configured default profile,
+ * then "default"
+ */
+function resolveProfileName(config: Config, name?: string): string {
+  return validateProfileName(
+    name ??
+    profileOverride ??
+    process.env[PROFILE_ENV_VAR] ??
+    projectProfile ??
+    config.defaultProfile ??
+    DEFAULT_PROFILE
+  )
+}
+
+/**
+ * Gets the active profile name
+ */
+export async function getActiveProfileName(): Promise<string> {
+  return resolveProfileName(await loadConfig())
+}
+
+/**
+ * Saves authentication credentials to a profile (the active one by default).
+ * The profile's connection settings and secret backend are kept unless new
+ * ones are given. The secret is written to config.json only with the config
+ * backend; the env and command backends never store it.
  */
-export async function saveAuth(credentials: AuthCredentials): Promise<void> {
+export async function saveAuth(credentials: AuthCredentials, profile?: string): Promise<void> {
   const config = await loadConfig()
-  config.baseUrl = credentials.baseUrl
-  config.authMode = credentials.authMode
-  config.secret = credentials.secret
+  const name = resolveProfileName(config, profile ?? credentials.profile)
+  const existing = config.profiles?.[name]
+  const connection = credentials.connection ?? existing?.connection
+  const secretBackend = credentials.secretBackend ?? existing?.secretBackend ?? 'config'
+  const secretCommand = credentials.secretCommand ?? existing?.secretCommand
+  const secretEnv = credentials.secretEnv ?? existing?.secretEnv
+
+  if (secretBackend === 'encrypted') {
+    await writeEncryptedSecret(name, credentials.secret)
+  } else if (existing?.secretBackend === 'encrypted') {
+    await removeEncryptedSecret(name)
+  }
+
+  config.profiles = {
+    ...config.profiles,
+    [name]: {
+      baseUrl: credentials.baseUrl,
+      authMode: credentials.authMode,
+      ...(secretBackend === 'config' ? { secret: credentials.secret } : { secretBackend }),
+      ...(secretBackend === 'command' ? { secretCommand } : {}),
+      ...(secretBackend === 'env' && secretEnv ? { secretEnv } : {}),
+      ...(connection && Object.keys(connection).length > 0 ? { connection } : {})
+    }
+  }
+  config.defaultProfile ??= name
   await saveConfig(config)
 }
 
 /**
- * Gets the current authentication credentials
+ * Gets a profile as saved (the active one by default), without reading the
+ * secret from its backend
  */
-export async function getAuth(): Promise<AuthCredentials | null> {
+export async function getProfile(profile?: string): Promise<Profile | undefined> {
   const config = await loadConfig()
+  return config.profiles?.[resolveProfileName(config, profile)]
+}
 
-  if (!config.baseUrl || !config.authMode || !config.secret) {
+/**
+ * Gets the authentication credentials of a profile (the active one by
+ * default), reading the secret from the profile's backend
+ */
+export async function getAuth(profile?: string): Promise<AuthCredentials | null> {
+  const config = await loadConfig()
+  const name = resolveProfileName(config, profile)
+  const stored = config.profiles?.[name]
+
+  if (!stored) {
     return null
   }
 
   return {
-    baseUrl: config.baseUrl,
-    authMode: config.authMode,
-    secret: config.secret
+    baseUrl: stored.baseUrl,
+    authMode: stored.authMode,
+    secret: await readSecret(name, stored, stored.secret),
+    profile: name,
+    ...(stored.connection ? { connection: stored.connection } : {}),
+    ...(stored.secretBackend ? { secretBackend: stored.secretBackend } : {}),
+    ...(stored.secretCommand ? { secretCommand: stored.secretCommand } : {}),
+    ...(stored.secretEnv ? { secretEnv: stored.secretEnv } : {})
   }
 }
 
 /**
  * Gets auth or throws if not configured
  */
-export async function requireAuth(): Promise<AuthCredentials> {
-  const auth = await getAuth()
+export async function requireAuth(profile?: string): Promise<AuthCredentials> {
+  const auth = await getAuth(profile)
   if (!auth) {
+    const name = profile ?? await getActiveProfileName()
     throw new AuthError(
-      'Not authenticated',
-      'Run "cron8n auth login" to authenticate'
+      name === DEFAULT_PROFILE ? 'Not authenticated' : `Profile "${name}" is not configured`,
+      name === DEFAULT_PROFILE
+        ? 'Run "cron8n auth login" to authenticate'
+        : `Run "cron8n auth login --profile ${name}" to authenticate`
     )
   }
   return auth
 }
 
 /**
- * Clears authentication credentials
+ * Clears authentication credentials of a profile (the active one by default)
+ */
+export async function clearAuth(profile?: string): Promise<void> {
+  const config = await loadConfig()
+  const name = resolveProfileName(config, profile)
+
+  if (config.profiles?.[name]?.secretBackend === 'encrypted') {
+    await removeEncryptedSecret(name)
+  }
+  if (config.profiles) {
+    delete config.profiles[name]
+  }
+
+  if (config.defaultProfile === name) {
+    const [next] = Object.keys(config.profiles ?? {})
+    if (next) {
+      config.defaultProfile = next
+    } else {
+      delete config.defaultProfile
+    }
+  }
+
+  await saveConfig(config)
+}
+
+/**
+ * Lists all configured profiles
+ */
+export async function listProfiles(): Promise<ProfileInfo[]> {
+  const config = await loadConfig()
+  const active = resolveProfileName(config)
+
+  return Object.entries(config.profiles ?? {}).map(([name, profile]) => ({
+    name,
+    baseUrl: profile.baseUrl,
+    authMode: profile.authMode,
+    secretBackend: profile.secretBackend ?? 'config',
+    isDefault: name === config.defaultProfile,
+    isActive: name === active
+  }))
+}
+
+/**
+ * Sets the default profile
  */
-export async function clearAuth(): Promise<void> {
+export async function setDefaultProfile(name: string): Promise<void> {
   const config = await loadConfig()
-  delete config.baseUrl
-  delete config.authMode
-  delete config.secret
+  validateProfileName(name)
+
+  if (!config.profiles?.[name]) {
+    throw new AuthError(
+      `Profile "${name}" is not configured`,
+      `Run "cron8n auth login --profile ${name}" to create it`
+    )
+  }
+
+  config.defaultProfile = name
   await saveConfig(config)
 }
 
@@ -118,6 +345,17 @@ export function getAuthHeader(auth: AuthCredentials): Record<string, string> {
   return { 'Authorization': `Bearer ${auth.secret}` }
 }
 
+/**
+ * Describes where a profile's secret comes from (the active profile's by
+ * default), without reading the secret
+ */
+export async function getSecretBackendDescription(profile?: string): Promise<string | undefined> {
+  const config = await loadConfig()
+  const name = resolveProfileName(config, profile)
+  const stored = config.profiles?.[name]
+  return stored ? describeSecretBackend(name, stored) : undefined
+}
+
 /**
  * Prints current auth status
  */
@@ -130,9 +368,23 @@ export async function printAuthStatus(): Promise<void> {
     return
   }
 
+  print.keyValue('Profile', auth.profile ?? DEFAULT_PROFILE)
   print.keyValue('Base URL', auth.baseUrl)
   print.keyValue('Auth Mode', auth.authMode)
   print.keyValue('Secret', print.mask(auth.secret))
+  print.keyValue('Secret Backend', await getSecretBackendDescription(auth.profile) ?? '')
+  printConnectionSettings(auth.connection)
+}
+
+/**
+ * Prints the proxy and TLS settings of a profile, if any
+ */
+export function printConnectionSettings(connection?: ConnectionSettings): void {
+  if (connection?.proxy) print.keyValue('Proxy', connection.proxy)
+  if (connection?.caFile) print.keyValue('CA File', connection.caFile)
+  if (connection?.certFile) print.keyValue('Client Cert', connection.certFile)
+  if (connection?.keyFile) print.keyValue('Client Key', connection.keyFile)
+  if (connection?.insecure) print.keyValue('TLS Verification', 'disabled (insecure)')
 }
 
 /**
@@ -5,7 +5,6 @@ import {
   listFiles, 
   readJson, 
   writeJson, 
-  getCwd, 
   exists,
   ensureDir,
   moveFile
@@ -15,27 +14,61 @@ import {
   saveManifest, 
   getWorkflowPath, 
   getManifestPath,
+  getWorkflowsDir,
   manifestExists,
   createManifest,
+  loadAllManifests,
+  getDeployment,
+  getDeployedWorkflowId,
+  type Deployment,
   type WorkflowManifest
 } from '../workflows/manifest.js'
-import { getTemplate, getTemplateNames, type TemplateName, type TemplateOptions } from '../workflows/templates.js'
-import { createSlug } from '../utils/slug.js'
-import { parseCron, CRON_PRESETS, getTimezoneOptions } from '../utils/time.js'
-import { getAuth, saveAuth, clearAuth, type AuthMode } from '../config/store.js'
+import {
+  getTemplate,
+  getTemplateNames,
+  resolveTemplateFields,
+  validateHttpOptions,
+  HTTP_METHODS,
+  HTTP_AUTH_TYPES,
+  type HttpAuthType,
+  type TemplateFieldName,
+  type TemplateName,
+  type TemplateOptions
+} from '../workflows/templates.js'
+import { loadTemplates } from '../workflows/userTemplates.js'
+import { parseCron, describeCron, normalizeCronExpression, CRON_PRESETS, getTimezoneOptions, getDefaultTimezone } from '../utils/time.js'
+import {
+  getAuth,
+  getProfile,
+  saveAuth,
+  clearAuth,
+  getActiveProfileName,
+  getSecretBackendDescription,
+  type AuthCredentials,
+  type AuthMode
+} from '../config/store.js'
 import { createClient, type N8nWorkflow } from '../api/n8nClient.js'
 import { upsertRegistryEntry, removeRegistryEntry } from '../config/registry.js'
+import { expandSchedules, buildHourlyGrid } from '../workflows/calendar.js'
+import { getManifestSchedules } from '../workflows/analyze.js'
+import { deployWorkflow } from '../workflows/deploy.js'
+import { updatePrimarySchedule } from '../workflows/sync.js'
 import { getHtmlTemplate } from './template.js'
+import { applyNamePrefix, createProjectSlug, getProjectConfig, getProjectRoot } from '../config/project.js'
 
 interface WorkflowWithManifest {
   manifest: WorkflowManifest
   workflow: N8nWorkflow
+  /** Deployment in the active environment */
+  deployment?: Deployment
+  /** Human-readable cron schedule */
+  schedule: string
 }
 
 export async function startServer(port: number = 3847): Promise<void> {
   const fastify = Fastify({ logger: false })
-  const basePath = getCwd()
-  const workflowsDir = join(basePath, 'workflows')
+  const basePath = getProjectRoot()
+  const workflowsDir = getWorkflowsDir(basePath)
 
   // Ensure workflows directory exists
   await ensureDir(workflowsDir)
@@ -45,13 +78,16 @@ export async function startServer(port: number = 3847): Promise<void> {
     reply.type('text/html').send(getHtmlTemplate())
   })
 
-  // API: Get auth status
+  // API: Get auth status. Reads the saved profile only, so the secret is
+  // never looked up for (or sent to) the browser.
   fastify.get('/api/auth', async () => {
-    const auth = await getAuth()
+    const profile = await getProfile()
     return { 
-      authenticated: !!auth,
-      baseUrl: auth?.baseUrl,
-      authMode: auth?.authMode
+      authenticated: !!profile,
+      profile: profile ? await getActiveProfileName() : undefined,
+      baseUrl: profile?.baseUrl,
+      authMode: profile?.authMode,
+      secretBackend: await getSecretBackendDescription()
     }
   })
 
@@ -83,23 +119,35 @@ export async function startServer(port: number = 3847): Promise<void> {
       return { error: 'Secret is required' }
     }
 
-    // Test connection
-    const testAuth = { baseUrl: baseUrl.replace(/\/$/, ''), authMode, secret }
+    // A secret typed in the browser can only be kept by the config and
+    // encrypted backends
+    const saved = await getProfile()
+    if (saved?.secretBackend === 'env' || saved?.secretBackend === 'command') {
+      reply.status(400)
+      return {
+        error: `This profile reads its secret from ${await getSecretBackendDescription()}. Use "cron8n auth login" to change it.`
+      }
+    }
+
+    // Test connection, through the profile's proxy and TLS settings
+    const connection = saved?.connection
+    const testAuth = { baseUrl: baseUrl.replace(/\/$/, ''), authMode, secret, connection }
     const testClient = createClient(testAuth)
     
     try {
-      const isValid = await testClient.testConnection()
-      if (!isValid) {
-        reply.status(400)
-        return { error: 'Connection failed. Check your credentials.' }
-      }
+      await testClient.verifyConnection()
     } catch (err) {
       reply.status(400)
       return { error: `Connection failed: ${err instanceof Error ? err.message : 'Unknown error'}` }
     }
 
     // Save credentials
-    await saveAuth(testAuth)
+    try {
+      await saveAuth(testAuth)
+    } catch (err) {
+      reply.status(400)
+      return { error: `Failed to save credentials: ${err instanceof Error ? err.message : 'Unknown error'}` }
+    }
     
     return { success: true, baseUrl: testAuth.baseUrl }
   })
@@ -117,8 +165,9 @@ export async function startServer(port: number = 3847): Promise<void> {
     const files = await listFiles(workflowsDir)
     const manifestFiles = files.filter(f => f.endsWith('.cron8n.json'))
 
-    // Get remote workflow statuses if authenticated
-    const auth = await getAuth()
+    // Get remote workflow statuses if authenticated and the secret is readable
+    const auth = await getAuth().catch(() => null)
+    const env = await getActiveProfileName()
     let remoteWorkflows: Map<string, boolean> = new Map()
     
     if (auth) {
@@ -144,12 +193,14 @@ export async function startServer(port: number = 3847): Promise<void> {
         if (await exists(workflowPath)) {
           const workflow = await readJson<N8nWorkflow>(workflowPath)
           
+          const deployment = getDeployment(manifest, env)
+          
           // Update active status from remote if available
-          if (manifest.lastDeployedWorkflowId && remoteWorkflows.has(manifest.lastDeployedWorkflowId)) {
-            workflow.active = remoteWorkflows.get(manifest.lastDeployedWorkflowId)
+          if (deployment && remoteWorkflows.has(deployment.workflowId)) {
+            workflow.active = remoteWorkflows.get(deployment.workflowId)
           }
           
-          workflows.push({ manifest, workflow })
+          workflows.push({ manifest, workflow, deployment, schedule: describeCron(manifest.cronExpression) })
         }
       } catch {
         // Skip invalid manifests
@@ -183,19 +234,32 @@ export async function startServer(port: number = 3847): Promise<void> {
       timezone: string
       template: TemplateName
       shellCommand?: string
+      options?: Record<string, string>
+      httpUrl?: string
+      httpMethod?: string
+      webhookUrl?: string
+      httpHeaders?: Record<string, string>
+      httpQuery?: Record<string, string>
+      httpBody?: string
+      httpAuth?: HttpAuthType
+      httpTimeout?: number
+      templateFields?: Partial<Record<TemplateFieldName, unknown>>
     } 
   }>('/api/workflows', async (request, reply) => {
-    const { name, cronExpression, timezone, template, shellCommand } = request.body
+    const { timezone, template, shellCommand, options, templateFields } = request.body
+    const name = applyNamePrefix(request.body.name)
+    const { httpUrl, httpMethod, webhookUrl, httpHeaders, httpQuery, httpBody, httpAuth, httpTimeout } = request.body
 
     // Validate
-    const cronInfo = parseCron(cronExpression, timezone)
+    const cronInfo = parseCron(request.body.cronExpression, timezone)
     if (!cronInfo.isValid) {
       reply.status(400)
       return { error: `Invalid cron: ${cronInfo.error}` }
     }
+    const cronExpression = normalizeCronExpression(request.body.cronExpression)
 
     // Generate slug
-    const slug = createSlug(name)
+    const slug = createProjectSlug(name)
     
     if (await manifestExists(slug, basePath)) {
       reply.status(400)
@@ -206,12 +270,27 @@ export async function startServer(port: number = 3847): Promise<void> {
     const manifest = createManifest(slug, name, template, cronExpression, timezone)
 
     // Create workflow from template
-    const templateConfig = getTemplate(template)
-    const templateOptions: TemplateOptions = {}
-    if (shellCommand) {
-      templateOptions.shellCommand = shellCommand
+    const { templates } = await loadTemplates(basePath)
+    let workflow: N8nWorkflow
+    try {
+      const templateConfig = getTemplate(template, templates)
+      const templateOptions: TemplateOptions = {}
+      if (shellCommand) {
+        templateOptions.shellCommand = shellCommand
+      }
+      if (options) {
+        templateOptions.values = options
+      }
+      Object.assign(templateOptions, Object.fromEntries(Object.entries({
+        httpUrl, httpMethod, webhookUrl, httpHeaders, httpQuery, httpBody, httpAuth, httpTimeout
+      }).filter(([, value]) => value !== undefined && value !== '')))
+      validateHttpOptions(templateOptions)
+      Object.assign(templateOptions, resolveTemplateFields(templateConfig, templateFields ?? {}))
+      workflow = templateConfig.create(name, cronExpression, timezone, templateOptions)
+    } catch (err) {
+      reply.status(400)
+      return { error: err instanceof Error ? err.message : 'Unknown error' }
     }
-    const workflow = templateConfig.create(name, cronExpression, timezone, templateOptions)
 
     // Save files
     const workflowPath = getWorkflowPath(slug, basePath)
@@ -258,39 +337,19 @@ export async function startServer(port: number = 3847): Promise<void> {
       workflow.name = name
     }
 
-    // Update cron
+    // Update the primary schedule, keeping the additional ones
     if (cronExpression) {
       const cronInfo = parseCron(cronExpression, timezone || manifest.timezone)
       if (!cronInfo.isValid) {
         reply.status(400)
         return { error: `Invalid cron: ${cronInfo.error}` }
       }
-      manifest.cronExpression = cronExpression
-      
-      // Update in workflow nodes
-      const scheduleNode = workflow.nodes.find(n => 
-        n.type === 'n8n-nodes-base.scheduleTrigger' || n.type === 'n8n-nodes-base.cron'
-      )
-      if (scheduleNode?.parameters) {
-        const rule = scheduleNode.parameters['rule'] as { interval: Array<{ expression: string }> }
-        if (rule?.interval?.[0]) {
-          rule.interval[0].expression = cronExpression
-        }
-      }
     }
-
-    // Update timezone
-    if (timezone) {
-      manifest.timezone = timezone
-      const scheduleNode = workflow.nodes.find(n => 
-        n.type === 'n8n-nodes-base.scheduleTrigger' || n.type === 'n8n-nodes-base.cron'
-      )
-      if (scheduleNode?.parameters) {
-        const opts = scheduleNode.parameters['options'] as { timezone: string }
-        if (opts) {
-          opts.timezone = timezone
-        }
-      }
+    if (cronExpression || timezone) {
+      updatePrimarySchedule(manifest, workflow, {
+        ...(cronExpression ? { cronExpression: normalizeCronExpression(cronExpression) } : {}),
+        ...(timezone ? { timezone } : {})
+      })
     }
 
     // Update shell command
@@ -322,12 +381,13 @@ export async function startServer(port: number = 3847): Promise<void> {
     const manifestPath = getManifestPath(slug, basePath)
 
     // Deactivate remote workflow if deployed
-    if (manifest.lastDeployedWorkflowId) {
-      const auth = await getAuth()
+    const deployedId = getDeployedWorkflowId(manifest, await getActiveProfileName())
+    if (deployedId) {
+      const auth = await getAuth().catch(() => null)
       if (auth) {
         try {
           const client = createClient(auth)
-          await client.deactivateWorkflow(manifest.lastDeployedWorkflowId)
+          await client.deactivateWorkflow(deployedId)
         } catch {
           // Ignore deactivation errors
         }
@@ -356,7 +416,13 @@ export async function startServer(port: number = 3847): Promise<void> {
   fastify.post<{ Params: { slug: string } }>('/api/workflows/:slug/deploy', async (request, reply) => {
     const { slug } = request.params
 
-    const auth = await getAuth()
+    let auth: AuthCredentials | null
+    try {
+      auth = await getAuth()
+    } catch (err) {
+      reply.status(401)
+      return { error: `Cannot read the n8n secret: ${err instanceof Error ? err.message : 'Unknown error'}` }
+    }
     if (!auth) {
       reply.status(401)
       return { error: 'Not authenticated. Run: cron8n auth login' }
@@ -372,35 +438,13 @@ export async function startServer(port: number = 3847): Promise<void> {
     const workflow = await readJson<N8nWorkflow>(workflowPath)
 
     const client = createClient(auth)
+    const env = await getActiveProfileName()
+    const deployedId = getDeployedWorkflowId(manifest, env)
 
-    let deployedWorkflow: N8nWorkflow
+    // Same as cron deploy: tags, run trigger and error workflow included
+    const result = await deployWorkflow(client, manifest, workflow, basePath, env, deployedId)
 
-    if (manifest.lastDeployedWorkflowId) {
-      // Update existing
-      deployedWorkflow = await client.updateWorkflow({
-        id: manifest.lastDeployedWorkflowId,
-        name: workflow.name,
-        nodes: workflow.nodes,
-        connections: workflow.connections as Record<string, unknown>,
-        settings: workflow.settings
-      })
-    } else {
-      // Create new
-      deployedWorkflow = await client.createWorkflow({
-        name: workflow.name,
-        nodes: workflow.nodes,
-        connections: workflow.connections as Record<string, unknown>,
-        settings: workflow.settings
-      })
-    }
-
-    // Update manifest
-    manifest.lastDeployedWorkflowId = deployedWorkflow.id
-    manifest.lastDeployedAt = new Date().toISOString()
-    manifest.updatedAt = new Date().toISOString()
-    await saveManifest(manifest, basePath)
-
-    return { success: true, workflowId: deployedWorkflow.id, manifest }
+    return { success: true, workflowId: result.workflowId, manifest: await loadManifest(slug, basePath) }
   })
 
   // API: Activate/Deactivate workflow
@@ -408,7 +452,13 @@ export async function startServer(port: number = 3847): Promise<void> {
     const { slug } = request.params
     const { active } = request.body
 
-    const auth = await getAuth()
+    let auth: AuthCredentials | null
+    try {
+      auth = await getAuth()
+    } catch (err) {
+      reply.status(401)
+      return { error: `Cannot read the n8n secret: ${err instanceof Error ? err.message : 'Unknown error'}` }
+    }
     if (!auth) {
       reply.status(401)
       return { error: 'Not authenticated' }
@@ -420,8 +470,9 @@ export async function startServer(port: number = 3847): Promise<void> {
     }
 
     const manifest = await loadManifest(slug, basePath)
+    const deployedId = getDeployedWorkflowId(manifest, await getActiveProfileName())
     
-    if (!manifest.lastDeployedWorkflowId) {
+    if (!deployedId) {
       reply.status(400)
       return { error: 'Workflow not deployed yet' }
     }
@@ -429,9 +480,9 @@ export async function startServer(port: number = 3847): Promise<void> {
     const client = createClient(auth)
     
     if (active) {
-      await client.activateWorkflow(manifest.lastDeployedWorkflowId)
+      await client.activateWorkflow(deployedId)
     } else {
-      await client.deactivateWorkflow(manifest.lastDeployedWorkflowId)
+      await client.deactivateWorkflow(deployedId)
     }
 
     return { success: true, active }
@@ -439,12 +490,19 @@ export async function startServer(port: number = 3847): Promise<void> {
 
   // API: Get templates
   fastify.get('/api/templates', async () => {
+    const { templates, errors } = await loadTemplates(basePath)
     return { 
-      templates: getTemplateNames().map(name => ({
+      templates: getTemplateNames(templates).map(name => ({
         value: name,
-        name: getTemplate(name).name,
-        description: getTemplate(name).description
-      }))
+        name: getTemplate(name, templates).name,
+        description: getTemplate(name, templates).description,
+        options: getTemplate(name, templates).options ?? [],
+        fields: getTemplate(name, templates).fields ?? []
+      })),
+      errors,
+      defaultTemplate: getProjectConfig().template,
+      httpMethods: HTTP_METHODS,
+      httpAuthTypes: HTTP_AUTH_TYPES
     }
   })
 
@@ -455,13 +513,49 @@ export async function startServer(port: number = 3847): Promise<void> {
 
   // API: Get timezones
   fastify.get('/api/timezones', async () => {
-    return { timezones: getTimezoneOptions() }
+    return { timezones: getTimezoneOptions(), defaultTimezone: getDefaultTimezone() }
+  })
+
+  // API: Schedule calendar across all workflows
+  fastify.get<{ Querystring: { from?: string, days?: string, timezone?: string } }>('/api/calendar', async (request, reply) => {
+    const from = request.query.from ? new Date(request.query.from) : new Date()
+    const days = Math.min(Math.max(parseInt(request.query.days ?? '7', 10) || 7, 1), 31)
+    const timezone = request.query.timezone || 'UTC'
+
+    if (Number.isNaN(from.getTime())) {
+      reply.status(400)
+      return { error: 'Invalid from date' }
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    } catch {
+      reply.status(400)
+      return { error: 'Invalid timezone' }
+    }
+
+    const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000)
+    const manifests = await loadAllManifests(basePath)
+    const { events, truncated, invalid } = expandSchedules(getManifestSchedules(manifests), from, to)
+    const grid = buildHourlyGrid(events, from, to, timezone)
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      timezone,
+      days: grid.map(day => ({
+        date: day.date,
+        hours: day.hours.map(hourEvents => hourEvents.map(e => ({ slug: e.slug, name: e.name, time: e.time.toISOString() })))
+      })),
+      truncated,
+      invalid
+    }
   })
 
   // API: Validate cron expression
   fastify.post<{ Body: { expression: string, timezone?: string } }>('/api/validate-cron', async (request) => {
     const { expression, timezone } = request.body
-    const result = parseCron(expression, timezone)
+    const result = parseCron(expression, timezone, 5, { dstWarnings: true })
     return result
   })
 
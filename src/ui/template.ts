@@ -82,6 +82,15 @@ export function getHtmlTemplate(): string {
       box-shadow: none;
     }
     .toast-container { z-index: 9999; }
+    .calendar-grid td, .calendar-grid th {
+      text-align: center;
+      padding: 0.25rem;
+      font-size: 0.8em;
+      min-width: 2rem;
+    }
+    .calendar-grid .cal-1 { background: rgba(34, 197, 94, 0.35); }
+    .calendar-grid .cal-2 { background: rgba(234, 179, 8, 0.45); }
+    .calendar-grid .cal-3 { background: rgba(239, 68, 68, 0.6); }
     .text-muted { color: var(--text-secondary) !important; }
   </style>
 </head>
@@ -92,6 +101,9 @@ export function getHtmlTemplate(): string {
         <i class="bi bi-terminal me-2"></i>cron8n
       </a>
       <div class="d-flex align-items-center gap-3">
+        <button class="btn btn-outline-secondary btn-sm" id="view-toggle-btn" onclick="App.toggleView()">
+          <i class="bi bi-calendar3 me-1"></i>Calendar
+        </button>
         <button class="btn btn-outline-secondary btn-sm" id="auth-status-btn" onclick="App.showAuthModal()">
           <span id="auth-status"></span>
         </button>
@@ -154,10 +166,56 @@ export function getHtmlTemplate(): string {
               <textarea class="form-control font-monospace" id="shellCommand" rows="3" placeholder="echo 'Hello World'"></textarea>
             </div>
 
+            <div id="templateOptionsGroup" style="display:none;"></div>
+
+            <div id="templateFieldsGroup" style="display:none;"></div>
+
+            <div id="httpGroup" style="display:none;">
+              <div class="row">
+                <div class="col-md-8 mb-3">
+                  <label class="form-label" id="httpUrlLabel">Request URL</label>
+                  <input type="text" class="form-control font-monospace" id="httpUrl" placeholder="https://api.example.com/endpoint">
+                </div>
+                <div class="col-md-4 mb-3">
+                  <label class="form-label">Method</label>
+                  <select class="form-select" id="httpMethod"></select>
+                </div>
+              </div>
+              <div class="row">
+                <div class="col-md-8 mb-3">
+                  <label class="form-label">Authentication</label>
+                  <select class="form-select" id="httpAuth"></select>
+                  <div class="form-text">Credentials are selected in n8n after deploying</div>
+                </div>
+                <div class="col-md-4 mb-3">
+                  <label class="form-label">Timeout (ms)</label>
+                  <input type="number" min="1" class="form-control" id="httpTimeout">
+                </div>
+              </div>
+              <div class="row">
+                <div class="col-md-6 mb-3">
+                  <label class="form-label">Headers</label>
+                  <textarea class="form-control font-monospace" id="httpHeaders" rows="2" placeholder="Accept: application/json"></textarea>
+                </div>
+                <div class="col-md-6 mb-3">
+                  <label class="form-label">Query parameters</label>
+                  <textarea class="form-control font-monospace" id="httpQuery" rows="2" placeholder="limit=100"></textarea>
+                </div>
+              </div>
+              <div class="mb-3">
+                <label class="form-label">JSON body</label>
+                <textarea class="form-control font-monospace" id="httpBody" rows="3" placeholder='{"status": "active"}'></textarea>
+              </div>
+            </div>
+
             <div id="nextRuns" class="alert alert-info" style="display:none;">
               <strong><i class="bi bi-calendar-event me-1"></i>Next runs:</strong>
               <ul class="mb-0 mt-2" id="nextRunsList"></ul>
             </div>
+            <div id="dstWarnings" class="alert alert-warning" style="display:none;">
+              <strong><i class="bi bi-exclamation-triangle me-1"></i>Daylight saving time:</strong>
+              <ul class="mb-0 mt-2" id="dstWarningsList"></ul>
+            </div>
           </form>
         </div>
         <div class="modal-footer">
@@ -185,6 +243,7 @@ export function getHtmlTemplate(): string {
             <div class="alert alert-success">
               <i class="bi bi-check-circle me-2"></i>
               Connected to <strong id="connectedUrl"></strong>
+              <div class="small mt-1">Secret: <span id="connectedSecretBackend"></span></div>
             </div>
             <button class="btn btn-outline-danger w-100" onclick="App.disconnectAuth()">
               <i class="bi bi-x-circle me-1"></i>Disconnect
@@ -238,8 +297,13 @@ export function getHtmlTemplate(): string {
       templates: [],
       presets: [],
       timezones: [],
+      defaultTimezone: 'UTC',
+      defaultTemplate: null,
       auth: { authenticated: false },
-      loading: true
+      loading: true,
+      view: 'workflows',
+      calendar: null,
+      calendarOptions: { days: 7, timezone: 'UTC' }
     };
 
     // API
@@ -290,8 +354,8 @@ export function getHtmlTemplate(): string {
     // Workflow Card Component
     const WorkflowCard = {
       view(vnode) {
-        const { manifest, workflow } = vnode.attrs.data;
-        const isDeployed = !!manifest.lastDeployedWorkflowId;
+        const { manifest, workflow, deployment, schedule } = vnode.attrs.data;
+        const isDeployed = !!deployment;
         const shellNode = workflow.nodes.find(n => n.type === 'n8n-nodes-base.executeCommand');
         const shellCommand = shellNode?.parameters?.command;
 
@@ -304,14 +368,15 @@ export function getHtmlTemplate(): string {
                   isDeployed 
                     ? m('span.badge.badge-deployed.me-1', 'Deployed')
                     : m('span.badge.badge-local.me-1', 'Local'),
-                  manifest.lastDeployedWorkflowId && workflow.active
+                  isDeployed && workflow.active
                     ? m('span.badge.badge-active', 'Active')
                     : m('span.badge.badge-inactive', 'Inactive')
                 ])
               ]),
               m('p.card-text', [
                 m('span.badge.cron-badge.me-2', manifest.cronExpression),
-                m('small.text-muted', manifest.timezone)
+                m('small.text-muted', manifest.timezone),
+                m('small.d-block.mt-1', schedule)
               ]),
               shellCommand && m('.shell-command.mt-2.text-truncate', { title: shellCommand }, 
                 '$ ' + shellCommand
@@ -343,9 +408,58 @@ export function getHtmlTemplate(): string {
       }
     };
 
+    // Calendar Component
+    const CalendarView = {
+      view() {
+        const calendar = State.calendar;
+        const hours = Array.from({ length: 24 }, (_, h) => String(h).padStart(2, '0'));
+        const level = (count) => count === 0 ? '' : count <= 2 ? '.cal-1' : count <= 5 ? '.cal-2' : '.cal-3';
+
+        return m('div', [
+          m('.d-flex.align-items-end.gap-3.mb-3', [
+            m('div', [
+              m('label.form-label.small', 'Days'),
+              m('select.form-select.form-select-sm', {
+                value: State.calendarOptions.days,
+                onchange: (e) => App.loadCalendar({ days: Number(e.target.value) })
+              }, [1, 3, 7, 14, 31].map(d => m('option', { value: d }, d)))
+            ]),
+            m('div', [
+              m('label.form-label.small', 'Timezone'),
+              m('select.form-select.form-select-sm', {
+                value: State.calendarOptions.timezone,
+                onchange: (e) => App.loadCalendar({ timezone: e.target.value })
+              }, State.timezones.map(tz => m('option', { value: tz }, tz)))
+            ])
+          ]),
+          !calendar
+            ? m('.text-center.py-5', m('.spinner-border.text-primary', { role: 'status' }))
+            : m('.table-responsive', m('table.table.table-dark.table-bordered.calendar-grid', [
+                m('thead', m('tr', [m('th', 'Date'), ...hours.map(h => m('th', h))])),
+                m('tbody', calendar.days.map(day => m('tr', [
+                  m('th.text-nowrap', day.date),
+                  ...day.hours.map((events, hour) => m('td' + level(events.length), {
+                    title: events.length
+                      ? hours[hour] + ':00 - ' + [...new Set(events.map(e => e.slug))].join(', ')
+                      : ''
+                  }, events.length || ''))
+                ])))
+              ])),
+          calendar && calendar.truncated.length > 0 &&
+            m('p.text-warning.small', 'Truncated (too many runs): ' + calendar.truncated.join(', ')),
+          calendar && calendar.invalid.length > 0 &&
+            m('p.text-warning.small', 'Invalid cron expression: ' + calendar.invalid.join(', '))
+        ]);
+      }
+    };
+
     // Main App Component
     const AppComponent = {
       view() {
+        if (State.view === 'calendar') {
+          return m(CalendarView);
+        }
+
         if (State.loading) {
           return m('.text-center.py-5', [
             m('.spinner-border.text-primary', { role: 'status' }),
@@ -386,8 +500,12 @@ export function getHtmlTemplate(): string {
         State.auth = auth;
         State.workflows = workflows.workflows || [];
         State.templates = templates.templates || [];
+        State.httpMethods = templates.httpMethods || [];
+        State.httpAuthTypes = templates.httpAuthTypes || [];
         State.presets = presets.presets || [];
         State.timezones = timezones.timezones || [];
+        State.defaultTimezone = timezones.defaultTimezone || State.timezones[0];
+        State.defaultTemplate = templates.defaultTemplate || null;
         State.loading = false;
 
         // Update auth status
@@ -418,7 +536,7 @@ export function getHtmlTemplate(): string {
         const tzSelect = document.getElementById('timezone');
         tzSelect.innerHTML = '';
         State.timezones.forEach(tz => {
-          const selected = tz === 'Europe/Istanbul' ? 'selected' : '';
+          const selected = tz === State.defaultTimezone ? 'selected' : '';
           tzSelect.innerHTML += \`<option value="\${tz}" \${selected}>\${tz}</option>\`;
         });
 
@@ -426,9 +544,15 @@ export function getHtmlTemplate(): string {
         const templateSelect = document.getElementById('template');
         templateSelect.innerHTML = '';
         State.templates.forEach(t => {
-          templateSelect.innerHTML += \`<option value="\${t.value}">\${t.name}</option>\`;
+          const selected = t.value === State.defaultTemplate ? 'selected' : '';
+          templateSelect.innerHTML += \`<option value="\${t.value}" \${selected}>\${t.name}</option>\`;
         });
 
+        document.getElementById('httpMethod').innerHTML = State.httpMethods
+          .map(method => \`<option value="\${method}">\${method}</option>\`).join('');
+        document.getElementById('httpAuth').innerHTML = State.httpAuthTypes
+          .map(auth => \`<option value="\${auth}">\${auth}</option>\`).join('');
+
         // Event listeners
         presetSelect.addEventListener('change', (e) => {
           if (e.target.value) {
@@ -438,11 +562,148 @@ export function getHtmlTemplate(): string {
         });
 
         document.getElementById('cronExpression').addEventListener('input', () => this.validateCron());
+        document.getElementById('timezone').addEventListener('change', () => this.validateCron());
         
         templateSelect.addEventListener('change', (e) => {
           document.getElementById('shellCommandGroup').style.display = 
             e.target.value === 'shell-command' ? 'block' : 'none';
+          this.renderTemplateOptions(e.target.value);
+          this.renderTemplateFields(e.target.value);
+          this.renderHttpFields(e.target.value);
+        });
+      },
+
+      renderHttpFields(templateName) {
+        const isHttp = templateName === 'http-request' || templateName === 'webhook-call';
+        document.getElementById('httpGroup').style.display = isHttp ? 'block' : 'none';
+        if (!isHttp) return;
+        document.getElementById('httpUrlLabel').textContent =
+          templateName === 'webhook-call' ? 'Webhook URL' : 'Request URL';
+        document.getElementById('httpMethod').value = templateName === 'webhook-call' ? 'POST' : 'GET';
+      },
+
+      // Parses "name<separator>value" lines of the headers and query fields
+      parsePairs(text, separator) {
+        const pairs = {};
+        text.split('\\n').forEach(line => {
+          const index = line.indexOf(separator);
+          if (index > 0) pairs[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+        });
+        return Object.keys(pairs).length > 0 ? pairs : undefined;
+      },
+
+      getHttpValues(templateName) {
+        if (templateName !== 'http-request' && templateName !== 'webhook-call') return {};
+        const url = document.getElementById('httpUrl').value.trim() || undefined;
+        const timeout = parseInt(document.getElementById('httpTimeout').value, 10);
+        return {
+          [templateName === 'webhook-call' ? 'webhookUrl' : 'httpUrl']: url,
+          httpMethod: document.getElementById('httpMethod').value,
+          httpAuth: document.getElementById('httpAuth').value,
+          httpTimeout: Number.isNaN(timeout) ? undefined : timeout,
+          httpHeaders: this.parsePairs(document.getElementById('httpHeaders').value, ':'),
+          httpQuery: this.parsePairs(document.getElementById('httpQuery').value, '='),
+          httpBody: document.getElementById('httpBody').value.trim() || undefined
+        };
+      },
+
+      renderTemplateOptions(templateName) {
+        const group = document.getElementById('templateOptionsGroup');
+        const template = State.templates.find(t => t.value === templateName);
+        const options = template?.options || [];
+        group.replaceChildren();
+        group.style.display = options.length > 0 ? 'block' : 'none';
+
+        // Built with DOM APIs since user templates define the labels
+        options.forEach(option => {
+          const wrapper = document.createElement('div');
+          wrapper.className = 'mb-3';
+          const label = document.createElement('label');
+          label.className = 'form-label';
+          label.textContent = option.message + (option.required ? ' *' : '');
+          const input = document.createElement('input');
+          input.className = 'form-control template-option';
+          input.dataset.key = option.key;
+          input.value = option.default || '';
+          wrapper.append(label, input);
+          group.append(wrapper);
+        });
+      },
+
+      renderTemplateFields(templateName) {
+        const group = document.getElementById('templateFieldsGroup');
+        const template = State.templates.find(t => t.value === templateName);
+        const fields = template?.fields || [];
+        group.replaceChildren();
+        group.style.display = fields.length > 0 ? 'block' : 'none';
+
+        fields.forEach(field => {
+          const wrapper = document.createElement('div');
+          wrapper.className = 'mb-3';
+          if (field.when) {
+            wrapper.dataset.whenField = field.when.field;
+            wrapper.dataset.whenOneOf = field.when.oneOf.join(',');
+          }
+          const label = document.createElement('label');
+          label.className = field.type === 'boolean' ? 'form-check-label' : 'form-label';
+          label.textContent = field.label + (field.required ? ' *' : '');
+
+          let input;
+          if (field.type === 'select') {
+            input = document.createElement('select');
+            input.className = 'form-select';
+            field.choices.forEach(choice => input.append(new Option(choice, choice)));
+            input.value = field.default ?? field.choices[0];
+            input.addEventListener('change', () => this.updateTemplateFieldVisibility());
+          } else if (field.type === 'boolean') {
+            wrapper.className = 'form-check mb-3';
+            input = document.createElement('input');
+            input.type = 'checkbox';
+            input.className = 'form-check-input';
+            input.checked = field.default === true;
+          } else {
+            input = document.createElement('input');
+            input.type = field.type === 'number' ? 'number' : 'text';
+            input.className = 'form-control';
+            input.value = field.default ?? '';
+          }
+          input.classList.add('template-field');
+          input.dataset.name = field.name;
+          input.dataset.type = field.type;
+          wrapper.append(...(field.type === 'boolean' ? [input, label] : [label, input]));
+          group.append(wrapper);
         });
+        this.updateTemplateFieldVisibility();
+      },
+
+      // Shows only the fields that apply to the selected values
+      updateTemplateFieldVisibility() {
+        const group = document.getElementById('templateFieldsGroup');
+        group.querySelectorAll('[data-when-field]').forEach(wrapper => {
+          const control = group.querySelector(\`.template-field[data-name="\${wrapper.dataset.whenField}"]\`);
+          const visible = control && control.closest('.mb-3').style.display !== 'none'
+            && wrapper.dataset.whenOneOf.split(',').includes(control.value);
+          wrapper.style.display = visible ? '' : 'none';
+        });
+      },
+
+      getTemplateFieldValues() {
+        const inputs = document.querySelectorAll('#templateFieldsGroup .template-field');
+        if (inputs.length === 0) return undefined;
+        const values = {};
+        inputs.forEach(input => {
+          if (input.closest('.mb-3').style.display === 'none') return;
+          values[input.dataset.name] = input.dataset.type === 'boolean' ? input.checked : input.value.trim();
+        });
+        return values;
+      },
+
+      getTemplateOptionValues() {
+        const inputs = document.querySelectorAll('#templateOptionsGroup .template-option');
+        if (inputs.length === 0) return undefined;
+        const values = {};
+        inputs.forEach(input => { values[input.dataset.key] = input.value; });
+        return values;
       },
 
       updateAuthStatus(auth) {
@@ -465,6 +726,7 @@ export function getHtmlTemplate(): string {
         
         if (isConnected) {
           document.getElementById('connectedUrl').textContent = State.auth.baseUrl;
+          document.getElementById('connectedSecretBackend').textContent = State.auth.secretBackend || '';
         } else {
           document.getElementById('authForm').reset();
           document.getElementById('authError').style.display = 'none';
@@ -521,6 +783,9 @@ export function getHtmlTemplate(): string {
         const expr = document.getElementById('cronExpression').value;
         const tz = document.getElementById('timezone').value;
         
+        const dstWarnings = document.getElementById('dstWarnings');
+        dstWarnings.style.display = 'none';
+
         if (!expr) {
           document.getElementById('nextRuns').style.display = 'none';
           document.getElementById('cronHelp').textContent = '';
@@ -530,7 +795,18 @@ export function getHtmlTemplate(): string {
         const result = await API.post('/api/validate-cron', { expression: expr, timezone: tz });
         
         if (result.isValid) {
-          document.getElementById('cronHelp').innerHTML = '<span class="text-success">✓ Valid</span>';
+          const warnings = result.dstWarnings || [];
+          const list = document.getElementById('dstWarningsList');
+          list.replaceChildren(...warnings.map(w => {
+            const item = document.createElement('li');
+            item.textContent = w.message;
+            return item;
+          }));
+          dstWarnings.style.display = warnings.length > 0 ? 'block' : 'none';
+
+          const help = document.getElementById('cronHelp');
+          help.innerHTML = '<span class="text-success">✓ Valid</span> ';
+          help.append(result.description || '');
           document.getElementById('nextRuns').style.display = 'block';
           document.getElementById('nextRunsList').innerHTML = result.nextRuns
             .slice(0, 5)
@@ -549,7 +825,12 @@ export function getHtmlTemplate(): string {
         document.getElementById('templateGroup').style.display = 'block';
         document.getElementById('shellCommandGroup').style.display = 'none';
         document.getElementById('nextRuns').style.display = 'none';
-        document.getElementById('timezone').value = 'Europe/Istanbul';
+        document.getElementById('dstWarnings').style.display = 'none';
+        document.getElementById('timezone').value = State.defaultTimezone;
+        if (State.defaultTemplate) document.getElementById('template').value = State.defaultTemplate;
+        this.renderTemplateOptions(document.getElementById('template').value);
+        this.renderTemplateFields(document.getElementById('template').value);
+        this.renderHttpFields(document.getElementById('template').value);
         new bootstrap.Modal(document.getElementById('workflowModal')).show();
       },
 
@@ -569,6 +850,9 @@ export function getHtmlTemplate(): string {
         document.getElementById('cronExpression').value = manifest.cronExpression;
         document.getElementById('timezone').value = manifest.timezone;
         document.getElementById('templateGroup').style.display = 'none';
+        this.renderTemplateOptions(null);
+        this.renderTemplateFields(null);
+        this.renderHttpFields(null);
         
         if (shellNode) {
           document.getElementById('shellCommandGroup').style.display = 'block';
@@ -588,7 +872,10 @@ export function getHtmlTemplate(): string {
           cronExpression: document.getElementById('cronExpression').value,
           timezone: document.getElementById('timezone').value,
           template: document.getElementById('template').value,
-          shellCommand: document.getElementById('shellCommand').value || undefined
+          shellCommand: document.getElementById('shellCommand').value || undefined,
+          options: slug ? undefined : this.getTemplateOptionValues(),
+          templateFields: slug ? undefined : this.getTemplateFieldValues(),
+          ...(slug ? {} : this.getHttpValues(document.getElementById('template').value))
         };
 
         if (!data.name || !data.cronExpression) {
@@ -650,6 +937,33 @@ export function getHtmlTemplate(): string {
         await this.refresh();
       },
 
+      async toggleView() {
+        State.view = State.view === 'calendar' ? 'workflows' : 'calendar';
+        document.getElementById('view-toggle-btn').innerHTML = State.view === 'calendar'
+          ? '<i class="bi bi-grid me-1"></i>Workflows'
+          : '<i class="bi bi-calendar3 me-1"></i>Calendar';
+        m.redraw();
+        if (State.view === 'calendar') {
+          await this.loadCalendar();
+        }
+      },
+
+      async loadCalendar(options = {}) {
+        Object.assign(State.calendarOptions, options);
+        const { days, timezone } = State.calendarOptions;
+        State.calendar = null;
+        m.redraw();
+
+        const result = await API.get('/api/calendar?days=' + days + '&timezone=' + encodeURIComponent(timezone));
+        if (result.error) {
+          showToast(result.error, 'danger');
+          return;
+        }
+
+        State.calendar = result;
+        m.redraw();
+      },
+
       async refresh() {
         const workflows = await API.get('/api/workflows');
         State.workflows = workflows.workflows || [];
@@ -1,5 +1,12 @@
 import kleur from 'kleur'
 
+// Set from the global --verbose flag
+let verboseEnabled = false
+
+export function setVerbose(enabled: boolean): void {
+  verboseEnabled = enabled
+}
+
 export const print = {
   success(message: string): void {
     console.log(kleur.green(`✔ ${message}`))
@@ -21,6 +28,18 @@ export const print = {
     console.log(kleur.dim(message))
   },
 
+  // Written to stderr so it never mixes with --json output
+  verbose(message: string): void {
+    if (verboseEnabled) {
+      console.error(kleur.dim(`› ${message}`))
+    }
+  },
+
+  // Preformatted output such as diff lines
+  line(message: string): void {
+    console.log(message)
+  },
+
   bold(message: string): void {
     console.log(kleur.bold(message))
   },
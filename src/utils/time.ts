@@ -1,13 +1,26 @@
-import cronParser from 'cron-parser'
+import cronParser, { type CronDate } from 'cron-parser'
 import { ValidationError } from './errors.js'
 
 export interface CronInfo {
   expression: string
   isValid: boolean
   nextRuns: Date[]
+  description?: string
+  /** Runs affected by daylight saving time changes in the next year, when asked for */
+  dstWarnings?: DstWarning[]
   error?: string
 }
 
+export interface DstWarning {
+  /** "skip" when clocks jump forward over a run, "repeat" when they fall back over it */
+  kind: 'skip' | 'repeat'
+  /** Local date of the transition (YYYY-MM-DD) */
+  date: string
+  /** Affected local run times (HH:MM) */
+  times: string[]
+  message: string
+}
+
 export interface CronPreset {
   name: string
   expression: string
@@ -22,29 +35,53 @@ export const CRON_PRESETS: CronPreset[] = [
   { name: 'monthly', expression: '0 0 1 * *', description: 'First day of every month at midnight' }
 ]
 
+const FALLBACK_TIMEZONE = 'Europe/Istanbul'
+
+// Set from the project config file
+let defaultTimezone = FALLBACK_TIMEZONE
+
+/**
+ * Sets the timezone used when none is given, or restores the fallback
+ */
+export function setDefaultTimezone(timezone: string | undefined): void {
+  defaultTimezone = timezone ?? FALLBACK_TIMEZONE
+}
+
+/**
+ * Gets the timezone used when none is given
+ */
+export function getDefaultTimezone(): string {
+  return defaultTimezone
+}
+
+export interface ParseCronOptions {
+  /** Also look for DST changes affecting runs, which scans a whole year */
+  dstWarnings?: boolean
+}
+
 /**
  * Validates a cron expression and returns the next run times
  */
 export function parseCron(
   expression: string,
-  timezone = 'Europe/Istanbul',
-  count = 5
+  timezone = getDefaultTimezone(),
+  count = 5,
+  options: ParseCronOptions = {}
 ): CronInfo {
   try {
-    const interval = cronParser.parseExpression(expression, {
-      tz: timezone,
-      currentDate: new Date()
-    })
+    const interval = createCronIterator(expression, { timezone, currentDate: new Date() })
 
     const nextRuns: Date[] = []
     for (let i = 0; i < count; i++) {
-      nextRuns.push(interval.next().toDate())
+      nextRuns.push(interval.next())
     }
 
     return {
       expression,
       isValid: true,
-      nextRuns
+      nextRuns,
+      description: describeCron(expression),
+      ...(options.dstWarnings ? { dstWarnings: findDstWarnings(expression, timezone) } : {})
     }
   } catch (error) {
     return {
@@ -56,10 +93,643 @@ export function parseCron(
   }
 }
 
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+type CronFieldKind = 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek'
+
+interface CronFieldPart {
+  start?: number
+  end?: number
+  step?: number
+}
+
+/**
+ * Parses a cron field into parts ("*" has neither start nor end).
+ * Returns null for syntax the describer does not handle.
+ */
+function parseCronField(field: string, kind: CronFieldKind): CronFieldPart[] | null {
+  const names = kind === 'month' ? MONTH_NAMES : kind === 'dayOfWeek' ? DAY_NAMES : undefined
+  const offset = kind === 'month' ? 1 : 0
+
+  const toNumber = (value: string): number | null => {
+    if (/^\d+$/.test(value)) {
+      const n = parseInt(value, 10)
+      // Both 0 and 7 mean Sunday
+      return kind === 'dayOfWeek' && n === 7 ? 0 : n
+    }
+    const index = names?.findIndex(name => name.slice(0, 3).toLowerCase() === value.toLowerCase()) ?? -1
+    return index >= 0 ? index + offset : null
+  }
+
+  const parts: CronFieldPart[] = []
+  for (const item of field.split(',')) {
+    const match = /^(\*|\?|[\w]+)(?:-([\w]+))?(?:\/(\d+))?$/.exec(item)
+    if (!match) return null
+
+    const [, from, to, step] = match
+    const part: CronFieldPart = {}
+    if (from !== '*' && from !== '?') {
+      const start = toNumber(from!)
+      if (start === null) return null
+      part.start = start
+    }
+    if (to !== undefined) {
+      const end = toNumber(to)
+      if (end === null || part.start === undefined) return null
+      // Ranges ending in 7 (e.g. 1-7) still end on Sunday
+      part.end = kind === 'dayOfWeek' && to === '7' ? 7 : end
+    }
+    if (step !== undefined) {
+      part.step = parseInt(step, 10)
+    }
+    parts.push(part)
+  }
+
+  return parts
+}
+
+function ordinal(n: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd']
+  const v = n % 100
+  return n + (suffixes[(v - 20) % 10] ?? suffixes[v] ?? suffixes[0]!)
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function formatFieldValue(value: number, kind: CronFieldKind): string {
+  switch (kind) {
+    case 'month':
+      return MONTH_NAMES[value - 1] ?? String(value)
+    case 'dayOfWeek':
+      return DAY_NAMES[value % 7] ?? String(value)
+    case 'hour':
+      return `${pad(value)}:00`
+    default:
+      return String(value)
+  }
+}
+
+const FIELD_UNITS: Record<CronFieldKind, [singular: string, plural: string]> = {
+  minute: ['minute', 'minutes'],
+  hour: ['hour', 'hours'],
+  dayOfMonth: ['day', 'days'],
+  month: ['month', 'months'],
+  dayOfWeek: ['day of the week', 'days of the week']
+}
+
+function isWildcard(parts: CronFieldPart[]): boolean {
+  return parts.length === 1 && parts[0]!.start === undefined && parts[0]!.step === undefined
+}
+
+function isSingleValues(parts: CronFieldPart[]): boolean {
+  return parts.every(p => p.start !== undefined && p.end === undefined && p.step === undefined)
+}
+
+/**
+ * Describes one part of a field, e.g. "every 15 minutes" or "Monday through Friday"
+ */
+function describePart(part: CronFieldPart, kind: CronFieldKind): string {
+  const [singular, plural] = FIELD_UNITS[kind]
+  const range = part.start !== undefined && part.end !== undefined
+    ? `from ${formatFieldValue(part.start, kind)} through ${formatFieldValue(part.end, kind)}`
+    : undefined
+
+  if (part.step !== undefined) {
+    const every = kind === 'minute' || kind === 'hour'
+      ? part.step === 1 ? `every ${singular}` : `every ${part.step} ${plural}`
+      : `every ${ordinal(part.step)} ${singular}`
+    if (range) return `${every} ${range}`
+    if (part.start !== undefined) return `${every} starting at ${formatFieldValue(part.start, kind)}`
+    return every
+  }
+
+  if (range) {
+    return `${formatFieldValue(part.start!, kind)} through ${formatFieldValue(part.end!, kind)}`
+  }
+
+  return part.start !== undefined ? formatFieldValue(part.start, kind) : `every ${singular}`
+}
+
+function describeParts(parts: CronFieldPart[], kind: CronFieldKind): string {
+  return joinList(parts.map(part => describePart(part, kind)))
+}
+
+/**
+ * Describes the time of day from the minute and hour fields
+ */
+function describeTime(minutes: CronFieldPart[], hours: CronFieldPart[]): string {
+  // Specific times, e.g. "At 09:00 and 17:30"
+  if (isSingleValues(minutes) && isSingleValues(hours) && minutes.length * hours.length <= 4) {
+    const times = hours.flatMap(h => minutes.map(m => `${pad(h.start!)}:${pad(m.start!)}`))
+    return `At ${joinList(times)}`
+  }
+
+  const onTheHour = minutes.length === 1 && minutes[0]!.start === 0 && minutes[0]!.step === undefined
+  const minutePhrase = isWildcard(minutes)
+    ? 'every minute'
+    : isSingleValues(minutes)
+      ? `at minute ${joinList(minutes.map(m => String(m.start)))}`
+      : describeParts(minutes, 'minute')
+
+  if (isWildcard(hours)) {
+    if (onTheHour) return 'Every hour'
+    if (isSingleValues(minutes)) return `At minute ${joinList(minutes.map(m => String(m.start)))} past every hour`
+    return capitalize(minutePhrase)
+  }
+
+  const hour = hours[0]!
+  if (hours.length === 1 && hour.start === undefined && hour.step !== undefined) {
+    // e.g. "0 */4 * * *"
+    if (onTheHour) return `Every ${hour.step} hours`
+    return `${capitalize(minutePhrase)} past every ${ordinal(hour.step)} hour`
+  }
+
+  if (hours.length === 1 && hour.end !== undefined && hour.step === undefined) {
+    // e.g. "*/15 9-17 * * *"
+    if (onTheHour) return `Every hour from ${pad(hour.start!)}:00 through ${pad(hour.end)}:00`
+    return `${capitalize(minutePhrase)} between ${pad(hour.start!)}:00 and ${pad(hour.end)}:59`
+  }
+
+  const hourPhrase = isSingleValues(hours)
+    ? `past hour ${joinList(hours.map(h => String(h.start)))}`
+    : `past ${describeParts(hours, 'hour')}`
+  return `${capitalize(minutePhrase)} ${hourPhrase}`
+}
+
+/**
+ * Describes the day-of-month, month and day-of-week fields
+ */
+function describeDays(
+  daysOfMonth: CronFieldPart[],
+  months: CronFieldPart[],
+  daysOfWeek: CronFieldPart[],
+  specialDays: string[] = []
+): string {
+  const phrases: string[] = []
+  const dayPhrases: string[] = [...specialDays]
+
+  if (!isWildcard(daysOfMonth)) {
+    dayPhrases.push(isSingleValues(daysOfMonth)
+      ? `on day ${joinList(daysOfMonth.map(d => String(d.start)))} of the month`
+      : `on ${describeParts(daysOfMonth, 'dayOfMonth')} of the month`)
+  }
+
+  if (!isWildcard(daysOfWeek)) {
+    dayPhrases.push(`on ${describeParts(daysOfWeek, 'dayOfWeek')}`)
+  }
+
+  // Cron runs when either day field matches
+  if (dayPhrases.length > 0) {
+    phrases.push(dayPhrases.join(' or '))
+  }
+
+  if (!isWildcard(months)) {
+    phrases.push(`in ${describeParts(months, 'month')}`)
+  }
+
+  return phrases.join(' ')
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/**
+ * Describes a cron expression in plain English
+ * (e.g. "At 02:30 on Monday through Friday").
+ * Falls back to the expression itself for syntax it cannot describe.
+ */
+export function describeCron(expression: string): string {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim()
+  const fields = normalized.split(/\s+/)
+
+  if (fields.length === 6) {
+    const seconds = fields.shift()!
+    const everySecond = /^\*(?:\/(\d+))?$/.exec(seconds)
+    if (everySecond && fields.every(field => field === '*' || field === '?')) {
+      const step = everySecond[1] ? parseInt(everySecond[1], 10) : 1
+      return step === 1 ? 'Every second' : `Every ${step} seconds`
+    }
+    // Other seconds values are only described when they fire once per minute
+    if (seconds !== '0') return expression
+  }
+  if (fields.length !== 5) return expression
+
+  // L, W and # have their own phrases and match any day otherwise
+  const specialDays = [describeSpecialDay(fields[2]!, 'dayOfMonth'), describeSpecialDay(fields[4]!, 'dayOfWeek')]
+  if (specialDays[0]) fields[2] = '*'
+  if (specialDays[1]) fields[4] = '*'
+
+  const kinds: CronFieldKind[] = ['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek']
+  const parsed = fields.map((field, i) => parseCronField(field, kinds[i]!))
+  if (parsed.some(parts => parts === null)) return expression
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as CronFieldPart[][]
+  const time = describeTime(minutes!, hours!)
+  const days = describeDays(daysOfMonth!, months!, daysOfWeek!, specialDays.filter((d): d is string => !!d))
+
+  return days ? `${time} ${days}` : time
+}
+
+const ORDINAL_WORDS = ['first', 'second', 'third', 'fourth', 'fifth']
+
+/**
+ * Describes L, W and # day syntax, e.g. "on the last Friday of the month"
+ */
+function describeSpecialDay(field: string, kind: 'dayOfMonth' | 'dayOfWeek'): string | undefined {
+  const value = field.toUpperCase()
+  const dayName = (day: string): string | undefined => {
+    const parts = parseCronField(day, 'dayOfWeek')
+    return parts?.length === 1 && parts[0]!.start !== undefined && parts[0]!.end === undefined
+      ? DAY_NAMES[parts[0]!.start]
+      : undefined
+  }
+
+  if (kind === 'dayOfMonth') {
+    if (value === 'L') return 'on the last day of the month'
+    if (value === 'LW') return 'on the last weekday of the month'
+    const weekday = /^(\d+)W$/.exec(value)
+    return weekday ? `on the weekday nearest day ${parseInt(weekday[1]!, 10)} of the month` : undefined
+  }
+
+  const last = /^(\w+)L$/.exec(value)
+  if (last && dayName(last[1]!)) return `on the last ${dayName(last[1]!)} of the month`
+  const nth = /^(\w+)#([1-5])$/.exec(value)
+  if (nth && dayName(nth[1]!)) return `on the ${ORDINAL_WORDS[parseInt(nth[2]!, 10) - 1]} ${dayName(nth[1]!)} of the month`
+  return undefined
+}
+
+interface CronFieldRule {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+  /** Value of the first name (months start at 1) */
+  nameOffset?: number
+}
+
+const CRON_FIELD_RULES: CronFieldRule[] = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+]
+
+function parseFieldValue(value: string, rule: CronFieldRule): number | undefined {
+  if (/^\d+$/.test(value)) return parseInt(value, 10)
+  const index = rule.names?.findIndex(name => name.slice(0, 3).toUpperCase() === value.toUpperCase()) ?? -1
+  return index >= 0 ? index + (rule.nameOffset ?? 0) : undefined
+}
+
+function checkFieldValue(value: string, rule: CronFieldRule): string | undefined {
+  const n = parseFieldValue(value, rule)
+  if (n === undefined) return `"${value}" is not a valid ${rule.name}`
+  if (n < rule.min || n > rule.max) return `${n} is out of range (${rule.min}-${rule.max})`
+  return undefined
+}
+
+/**
+ * Checks the L, W, # and ? syntax of the day fields.
+ * Returns null when the field does not use it.
+ */
+function checkSpecialDayField(field: string, rule: CronFieldRule): string | undefined | null {
+  const isDayOfMonth = rule.name === 'day-of-month'
+  const isDayOfWeek = rule.name === 'day-of-week'
+  const value = field.toUpperCase()
+
+  if (value === '?') {
+    return isDayOfMonth || isDayOfWeek ? undefined : '"?" is only allowed in the day-of-month and day-of-week fields'
+  }
+  if (!/[LW#?]/.test(value.replace(/^[A-Z]{3}/, ''))) return null
+  if (value.includes(',')) return 'L, W, # and ? must be the only value in their field'
+
+  if (isDayOfMonth) {
+    if (value === 'L' || value === 'LW') return undefined
+    const weekday = /^(\d+)W$/.exec(value)
+    if (weekday) return checkFieldValue(weekday[1]!, rule)
+    return 'day-of-month supports L, LW and <day>W (e.g. 15W)'
+  }
+
+  if (isDayOfWeek) {
+    const last = /^(\w+)L$/.exec(value)
+    if (last) return checkFieldValue(last[1]!, rule)
+    const nth = /^(\w+)#(\d+)$/.exec(value)
+    if (nth) {
+      const nOfMonth = parseInt(nth[2]!, 10)
+      return checkFieldValue(nth[1]!, rule) ?? (nOfMonth < 1 || nOfMonth > 5 ? `#${nOfMonth} must be between 1 and 5` : undefined)
+    }
+    return 'day-of-week supports <day>L (e.g. 5L) and <day>#<n> (e.g. 1#2)'
+  }
+
+  return 'L, W and # are only allowed in the day-of-month and day-of-week fields'
+}
+
+function checkCronField(field: string, rule: CronFieldRule): string | undefined {
+  const special = checkSpecialDayField(field, rule)
+  if (special !== null) return special
+
+  for (const item of field.split(',')) {
+    const match = /^(\*|\w+)(?:-(\w+))?(?:\/(\w+))?$/.exec(item)
+    if (!match) return `"${item}" is not valid syntax`
+
+    const [, from, to, step] = match
+    if (from !== '*') {
+      const error = checkFieldValue(from!, rule)
+      if (error) return error
+    }
+    if (to !== undefined) {
+      if (from === '*') return `"${item}" is not valid syntax`
+      const error = checkFieldValue(to, rule)
+      if (error) return error
+      if (parseFieldValue(to, rule)! < parseFieldValue(from!, rule)!) return `range "${from}-${to}" is reversed`
+    }
+    if (step !== undefined && !(/^\d+$/.test(step) && parseInt(step, 10) >= 1)) {
+      return `step "${step}" must be a positive number`
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Checks a cron expression against the syntax n8n's scheduler runs: 5 fields,
+ * or 6 with seconds first, plus L, W, # and ? in the day fields.
+ * Returns an error message, or undefined when the syntax is valid.
+ */
+export function getCronSyntaxError(expression: string): string | undefined {
+  const trimmed = expression.trim()
+  if (CRON_MACROS[trimmed.toLowerCase()]) return undefined
+
+  const fields = trimmed.split(/\s+/)
+  if (fields.length !== 5 && fields.length !== 6) {
+    return `Expected 5 fields (minute hour day-of-month month day-of-week) or 6 with seconds first, got ${fields.length}`
+  }
+
+  const rules = fields.length === 6 ? CRON_FIELD_RULES : CRON_FIELD_RULES.slice(1)
+  for (const [index, field] of fields.entries()) {
+    const error = checkCronField(field, rules[index]!)
+    if (error) return `Invalid ${rules[index]!.name} field "${field}": ${error}`
+  }
+
+  if (fields[fields.length - 3] === '?' && fields[fields.length - 1] === '?') {
+    return '"?" can only be used in one of the day-of-month and day-of-week fields'
+  }
+
+  return undefined
+}
+
+/**
+ * Normalizes a cron expression the way it is written to Schedule Trigger nodes:
+ * single spaces and upper-case names and L/W syntax
+ */
+export function normalizeCronExpression(expression: string): string {
+  const trimmed = expression.trim()
+  if (trimmed.startsWith('@')) return trimmed.toLowerCase()
+  return trimmed.split(/\s+/).join(' ').toUpperCase()
+}
+
+export interface CronIteratorOptions {
+  timezone?: string
+  currentDate?: Date
+  /** next() throws once past this date */
+  endDate?: Date
+}
+
+export interface CronIterator {
+  next(): Date
+}
+
+// Candidates checked per run when filtering nearest-weekday days
+const MAX_WEEKDAY_CANDIDATES = 10000
+
+/**
+ * Converts W day-of-month syntax, which cron-parser does not support, into the
+ * days it can fall on (the nearest weekday is at most two days away)
+ */
+function toParserExpression(expression: string): { expression: string; weekday?: number | 'last' } {
+  const fields = expression.trim().split(/\s+/)
+  const dayIndex = fields.length - 3
+  const match = fields.length >= 5 ? /^(L|\d+)W$/i.exec(fields[dayIndex]!) : null
+  if (!match) return { expression }
+
+  const weekday = match[1]!.toUpperCase() === 'L' ? 'last' : parseInt(match[1]!, 10)
+  fields[dayIndex] = weekday === 'last' ? '26-31' : `${Math.max(1, weekday - 2)}-${Math.min(31, weekday + 2)}`
+  return { expression: fields.join(' '), weekday }
+}
+
+/**
+ * Gets the day of a month that a W rule runs on, if any
+ */
+function getWeekdayOfMonth(year: number, month: number, weekday: number | 'last'): number | undefined {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  const day = weekday === 'last' ? daysInMonth : weekday
+  if (day > daysInMonth) return undefined
+
+  const dayOfWeek = new Date(Date.UTC(year, month, day)).getUTCDay()
+  if (dayOfWeek === 6) return day === 1 ? day + 2 : day - 1
+  if (dayOfWeek === 0) return day === daysInMonth ? day - 2 : day + 1
+  return day
+}
+
+/**
+ * Iterates the run times of a cron expression in a timezone, after checking
+ * it with getCronSyntaxError. Adds W support on top of cron-parser.
+ */
+export function createCronIterator(expression: string, options: CronIteratorOptions = {}): CronIterator {
+  const error = getCronSyntaxError(expression)
+  if (error) throw new Error(error)
+
+  const parsed = toParserExpression(expression)
+  const interval = cronParser.parseExpression(parsed.expression, {
+    tz: options.timezone,
+    currentDate: options.currentDate,
+    endDate: options.endDate
+  })
+  const weekday = parsed.weekday
+  if (weekday === undefined) {
+    return { next: () => interval.next().toDate() }
+  }
+
+  const matches = (date: CronDate): boolean =>
+    getWeekdayOfMonth(date.getFullYear(), date.getMonth(), weekday) === date.getDate()
+
+  return {
+    next: () => {
+      for (let i = 0; i < MAX_WEEKDAY_CANDIDATES; i++) {
+        const date = interval.next()
+        if (matches(date)) return date.toDate()
+      }
+      throw new Error(`No run times found for "${expression}"`)
+    }
+  }
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// Only the first few affected runs are listed in warnings
+const MAX_DST_TIMES = 5
+
+interface DstTransition {
+  /** First instant with the new offset */
+  at: number
+  /** UTC offsets before and after, in minutes */
+  before: number
+  after: number
+}
+
+/**
+ * Gets the UTC offset of a timezone at a time, in minutes
+ */
+function getTimezoneOffset(time: number, formatter: Intl.DateTimeFormat): number {
+  const parts = formatter.formatToParts(new Date(time))
+  const get = (type: string): number => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10)
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'))
+  return (local - Math.floor(time / MINUTE_MS) * MINUTE_MS) / MINUTE_MS
+}
+
+/**
+ * Finds UTC offset changes of a timezone within [from, to), to the minute
+ */
+function findDstTransitions(timezone: string, from: number, to: number): DstTransition[] {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  })
+  const transitions: DstTransition[] = []
+
+  let previous = getTimezoneOffset(from, formatter)
+  for (let time = from + DAY_MS; time < to + DAY_MS; time += DAY_MS) {
+    const offset = getTimezoneOffset(time, formatter)
+    if (offset === previous) continue
+
+    // Narrow down the day to the minute the offset changes
+    let low = time - DAY_MS
+    let high = time
+    while (high - low > MINUTE_MS) {
+      const middle = Math.floor((low + high) / 2 / MINUTE_MS) * MINUTE_MS
+      if (getTimezoneOffset(middle, formatter) === previous) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+
+    if (high < to) {
+      transitions.push({ at: high, before: previous, after: offset })
+    }
+    previous = offset
+  }
+
+  return transitions
+}
+
+/**
+ * Finds runs of a cron expression that fall on local wall-clock times
+ * skipped or repeated by daylight saving time changes in a timezone.
+ * Schedules that fire every hour are not reported, since they follow
+ * the clock either way.
+ */
+export function findDstWarnings(
+  expression: string,
+  timezone: string,
+  from = new Date(),
+  days = 365
+): DstWarning[] {
+  let hours: readonly number[]
+  try {
+    if (getCronSyntaxError(expression)) return []
+    hours = cronParser.parseExpression(toParserExpression(expression).expression).fields.hour
+  } catch {
+    return []
+  }
+  if (hours.length === 24) return []
+
+  const warnings: DstWarning[] = []
+  const transitions = findDstTransitions(timezone, from.getTime(), from.getTime() + days * DAY_MS)
+
+  for (const { at, before, after } of transitions) {
+    const kind = after > before ? 'skip' : 'repeat'
+    // Wall-clock times as UTC timestamps: skipped times for "skip", repeated ones for "repeat"
+    const start = at + Math.min(before, after) * MINUTE_MS
+    const end = at + Math.max(before, after) * MINUTE_MS
+
+    const interval = createCronIterator(expression, {
+      timezone: 'UTC',
+      currentDate: new Date(start - 1),
+      endDate: new Date(end - 1)
+    })
+
+    const times: string[] = []
+    try {
+      while (times.length < MAX_DST_TIMES) {
+        times.push(interval.next().toISOString().slice(11, 16))
+      }
+    } catch {
+      // End of the affected window
+    }
+    if (times.length === 0) continue
+
+    const date = new Date(start).toISOString().slice(0, 10)
+    const startTime = new Date(start).toISOString().slice(11, 16)
+    const endTime = new Date(end).toISOString().slice(11, 16)
+    const runs = `run${times.length > 1 ? 's' : ''} at ${joinList(times)}`
+
+    warnings.push({
+      kind,
+      date,
+      times,
+      message: kind === 'skip'
+        ? `On ${date} clocks in ${timezone} jump from ${startTime} to ${endTime}: ${runs} will be skipped`
+        : `On ${date} clocks in ${timezone} fall back from ${endTime} to ${startTime}: ${runs} may fire twice`
+    })
+  }
+
+  return warnings
+}
+
+/**
+ * Sorts run times from several schedules, dropping duplicates
+ */
+export function mergeRunTimes(runs: Date[]): Date[] {
+  return [...runs]
+    .sort((a, b) => a.getTime() - b.getTime())
+    .filter((date, index, sorted) => index === 0 || date.getTime() !== sorted[index - 1]!.getTime())
+}
+
 /**
  * Validates a cron expression, throws if invalid
  */
-export function validateCron(expression: string, timezone = 'Europe/Istanbul'): void {
+export function validateCron(expression: string, timezone = getDefaultTimezone()): void {
   const result = parseCron(expression, timezone)
   if (!result.isValid) {
     throw new ValidationError(
@@ -92,6 +762,29 @@ export function formatDate(date: Date): string {
   })
 }
 
+/**
+ * Formats a duration in milliseconds for display (e.g. "1m 5s")
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+
+  const totalSeconds = Math.round(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${seconds}s`
+  return `${seconds}s`
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
 /**
  * Gets ISO timestamp
  */
@@ -103,8 +796,8 @@ export function getISOTimestamp(): string {
  * Gets common timezone options
  */
 export function getTimezoneOptions(): string[] {
-  return [
-    'Europe/Istanbul',
+  const timezones = [
+    FALLBACK_TIMEZONE,
     'Europe/London',
     'Europe/Paris',
     'Europe/Berlin',
@@ -117,4 +810,5 @@ export function getTimezoneOptions(): string[] {
     'Australia/Sydney',
     'UTC'
   ]
+  return timezones.includes(defaultTimezone) ? timezones : [defaultTimezone, ...timezones]
 }
@@ -0,0 +1,181 @@
+import type { N8nNode, N8nWorkflow } from '../api/n8nClient.js'
+import { ValidationError } from '../utils/errors.js'
+import { AlertSchema, type Alert, type Manifest } from './manifest.js'
+
+export const ALERT_TYPES = ['slack', 'email', 'http'] as const
+
+export type AlertType = typeof ALERT_TYPES[number]
+
+/**
+ * Settings key n8n reads the error workflow ID from
+ */
+export const ERROR_WORKFLOW_SETTING = 'errorWorkflow'
+
+// The Error Trigger reports failures in `execution`, or in `trigger` when
+// the trigger node itself failed
+const ERROR_MESSAGE = '$json.execution?.error?.message ?? $json.trigger?.error?.message ?? "Unknown error"'
+const EXECUTION_URL = '$json.execution?.url ?? ""'
+
+/**
+ * Parses an alert destination given as "<type>:<target>", e.g.
+ * "slack:https://hooks.slack.com/...", "email:ops@example.com" or
+ * "http:https://alerts.example.com/hook"
+ */
+export function parseAlertSpec(spec: string): Alert {
+  const separator = spec.indexOf(':')
+  const type = spec.slice(0, separator).trim().toLowerCase()
+  const target = spec.slice(separator + 1).trim()
+
+  if (separator <= 0 || !ALERT_TYPES.includes(type as AlertType)) {
+    throw new ValidationError(
+      `Invalid alert destination: ${spec}`,
+      'Use slack:<webhook-url>, email:<address> or http:<url>'
+    )
+  }
+
+  const alert = type === 'slack'
+    ? { type, webhookUrl: target }
+    : type === 'email' ? { type, to: target } : { type, url: target }
+  const result = AlertSchema.safeParse(alert)
+  if (!result.success) {
+    throw new ValidationError(`Invalid alert destination: ${spec}`, result.error.errors[0]?.message)
+  }
+  return result.data
+}
+
+/**
+ * Formats an alert destination the way parseAlertSpec accepts it
+ */
+export function formatAlert(alert: Alert): string {
+  switch (alert.type) {
+    case 'slack':
+      return `slack:${alert.webhookUrl}`
+    case 'email':
+      return `email:${alert.to}`
+    case 'http':
+      return `http:${alert.url}`
+  }
+}
+
+/**
+ * Gets the name of the error workflow generated for a managed workflow
+ */
+export function getErrorWorkflowName(manifest: Pick<Manifest, 'name'>): string {
+  return `${manifest.name} (cron8n alerts)`
+}
+
+/**
+ * Gets the owner and runbook lines added to alert messages, so failures
+ * reach the right team
+ */
+export function getAlertContext(manifest: Pick<Manifest, 'owner' | 'runbookUrl'>): string {
+  return [
+    manifest.owner ? `Owner: ${manifest.owner}` : '',
+    manifest.runbookUrl ? `Runbook: ${manifest.runbookUrl}` : ''
+  ].filter(Boolean).join('\n')
+}
+
+function createNotifyNode(manifest: Manifest, alert: Alert): N8nNode {
+  const context = getAlertContext(manifest)
+  const base = {
+    id: 'notify',
+    name: 'Notify',
+    position: [500, 300]
+  }
+
+  switch (alert.type) {
+    case 'slack':
+      return {
+        ...base,
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4.2,
+        parameters: {
+          method: 'POST',
+          url: alert.webhookUrl,
+          sendBody: true,
+          specifyBody: 'json',
+          jsonBody: `={{ JSON.stringify({ text: ':rotating_light: *' + $json.workflow.name + '* failed: ' + ${ERROR_MESSAGE} + '\\n' + ${EXECUTION_URL}${context ? ` + '\\n' + ${JSON.stringify(context)}` : ''} }) }}`,
+          options: {}
+        }
+      }
+    case 'email':
+      return {
+        ...base,
+        type: 'n8n-nodes-base.emailSend',
+        typeVersion: 2.1,
+        parameters: {
+          fromEmail: alert.from ?? alert.to,
+          toEmail: alert.to,
+          subject: '=cron8n: {{ $json.workflow.name }} failed',
+          emailFormat: 'text',
+          text: `=Workflow "{{ $json.workflow.name }}" failed.\n\nError: {{ ${ERROR_MESSAGE} }}\nExecution: {{ ${EXECUTION_URL} }}${context ? `\n${context}` : ''}`,
+          options: {}
+        }
+      }
+    case 'http':
+      return {
+        ...base,
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 4.2,
+        parameters: {
+          method: 'POST',
+          url: alert.url,
+          sendBody: true,
+          specifyBody: 'json',
+          jsonBody: `={{ JSON.stringify({ slug: ${JSON.stringify(manifest.slug)}, owner: ${JSON.stringify(manifest.owner ?? null)}, runbookUrl: ${JSON.stringify(manifest.runbookUrl ?? null)}, workflow: $json.workflow, error: ${ERROR_MESSAGE}, executionUrl: ${EXECUTION_URL}, execution: $json.execution, trigger: $json.trigger }) }}`,
+          options: {}
+        }
+      }
+  }
+}
+
+/**
+ * Creates the error workflow that reports failures of a managed workflow
+ * to its alert destination. n8n runs it without activation.
+ */
+export function createErrorWorkflow(manifest: Manifest, alert: Alert): N8nWorkflow {
+  const notify = createNotifyNode(manifest, alert)
+  return {
+    name: getErrorWorkflowName(manifest),
+    nodes: [
+      {
+        id: 'error-trigger',
+        name: 'Error Trigger',
+        type: 'n8n-nodes-base.errorTrigger',
+        typeVersion: 1,
+        position: [250, 300],
+        parameters: {}
+      },
+      notify
+    ],
+    connections: {
+      'Error Trigger': { main: [[{ node: notify.name, type: 'main', index: 0 }]] }
+    },
+    settings: {
+      executionOrder: 'v1'
+    }
+  }
+}
+
+/**
+ * Points a workflow's settings at an error workflow
+ */
+export function setErrorWorkflow(workflow: N8nWorkflow, errorWorkflowId: string): N8nWorkflow {
+  return {
+    ...workflow,
+    settings: { ...workflow.settings, [ERROR_WORKFLOW_SETTING]: errorWorkflowId }
+  }
+}
+
+/**
+ * Removes the error workflow setting cron8n added on deploy, leaving an
+ * error workflow chosen in the n8n editor alone
+ */
+export function removeErrorWorkflow(workflow: N8nWorkflow, errorWorkflowId?: string): N8nWorkflow {
+  if (!errorWorkflowId || workflow.settings?.[ERROR_WORKFLOW_SETTING] !== errorWorkflowId) {
+    return workflow
+  }
+
+  const { [ERROR_WORKFLOW_SETTING]: _removed, ...settings } = workflow.settings
+  return { ...workflow, settings }
+}
@@ -0,0 +1,293 @@
+import type { N8nWorkflow } from '../api/n8nClient.js'
+import { getSchedules, type Manifest } from './manifest.js'
+import { getCronNodes, getCron8nSlug } from './discover.js'
+import { expandSchedules, type CalendarEvent, type CalendarSchedule } from './calendar.js'
+
+export interface AnalyzeOptions {
+  from: Date
+  days: number
+  /** Minimum number of jobs firing at the same minute to report a collision */
+  threshold: number
+  /** Expected job duration in minutes */
+  duration: number
+}
+
+export interface Collision {
+  /** Time of day in UTC (HH:MM) */
+  time: string
+  jobs: string[]
+  /** Number of times this collision happens in the analyzed period */
+  occurrences: number
+}
+
+export interface Overlap {
+  jobs: [string, string]
+  /** Number of run pairs that overlap in the analyzed period */
+  count: number
+}
+
+export interface SelfOverlap {
+  job: string
+  /** Shortest gap between two runs, in minutes */
+  minGapMinutes: number
+}
+
+export interface Suggestion {
+  job: string
+  from: string
+  to: string
+  offsetMinutes: number
+}
+
+export interface AnalysisReport {
+  from: string
+  to: string
+  jobs: number
+  runs: number
+  collisions: Collision[]
+  overlaps: Overlap[]
+  selfOverlaps: SelfOverlap[]
+  suggestions: Suggestion[]
+  /** Collisions that could not be spread automatically */
+  unresolved: string[]
+  invalid: string[]
+  truncated: string[]
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Creates schedules to analyze from local manifests, including their additional schedules
+ */
+export function getManifestSchedules(manifests: Manifest[]): CalendarSchedule[] {
+  return manifests.flatMap(manifest =>
+    getSchedules(manifest).map(({ cronExpression, timezone }) => ({
+      slug: manifest.slug,
+      name: manifest.name,
+      cronExpression,
+      timezone
+    }))
+  )
+}
+
+/**
+ * Creates schedules to analyze from the cron nodes of active remote workflows,
+ * named by cron8n slug or workflow ID. Nodes without a timezone fall back to
+ * the workflow's timezone setting, then UTC. Intervals without a cron
+ * equivalent are skipped.
+ */
+export function getRemoteSchedules(workflows: N8nWorkflow[]): CalendarSchedule[] {
+  const schedules: CalendarSchedule[] = []
+
+  for (const workflow of workflows) {
+    if (!workflow.active) continue
+
+    const settingsTimezone = workflow.settings?.['timezone']
+    const defaultTimezone = typeof settingsTimezone === 'string' ? settingsTimezone : 'UTC'
+    const id = getCron8nSlug(workflow) ?? workflow.id ?? workflow.name
+    const entries = getCronNodes(workflow).flatMap(node =>
+      node.schedules
+        .filter(schedule => schedule.cronExpression)
+        .map((schedule, index, nodeSchedules) => ({
+          node,
+          cronExpression: schedule.cronExpression!,
+          label: nodeSchedules.length > 1 ? `${node.nodeName}#${index + 1}` : node.nodeName
+        }))
+    )
+
+    for (const { node, cronExpression, label } of entries) {
+      schedules.push({
+        slug: entries.length > 1 ? `${id}:${label}` : id,
+        name: workflow.name,
+        cronExpression,
+        timezone: node.timezone ?? defaultTimezone
+      })
+    }
+  }
+
+  return schedules
+}
+
+function formatUtcTime(time: Date): string {
+  return time.toISOString().slice(11, 16)
+}
+
+/**
+ * Finds UTC minutes where at least `threshold` jobs fire at once,
+ * aggregated by time of day
+ */
+function findCollisions(events: CalendarEvent[], threshold: number): Collision[] {
+  const byInstant = new Map<number, Set<string>>()
+  for (const event of events) {
+    const key = event.time.getTime()
+    const jobs = byInstant.get(key) ?? new Set<string>()
+    jobs.add(event.slug)
+    byInstant.set(key, jobs)
+  }
+
+  const byTime = new Map<string, Collision>()
+  for (const [instant, jobs] of byInstant) {
+    if (jobs.size < threshold) continue
+
+    const time = formatUtcTime(new Date(instant))
+    const collision = byTime.get(time) ?? { time, jobs: [], occurrences: 0 }
+    collision.jobs = [...new Set([...collision.jobs, ...jobs])].sort()
+    collision.occurrences++
+    byTime.set(time, collision)
+  }
+
+  return [...byTime.values()].sort((a, b) => b.jobs.length - a.jobs.length || a.time.localeCompare(b.time))
+}
+
+/**
+ * Finds pairs of jobs whose runs start within `duration` of each other
+ */
+function findOverlaps(events: CalendarEvent[], durationMs: number): Overlap[] {
+  const counts = new Map<string, Overlap>()
+
+  for (let i = 0; i < events.length; i++) {
+    const current = events[i]!
+    const end = current.time.getTime() + durationMs
+
+    for (let j = i + 1; j < events.length && events[j]!.time.getTime() < end; j++) {
+      const other = events[j]!
+      if (other.slug === current.slug) continue
+
+      const jobs = [current.slug, other.slug].sort() as [string, string]
+      const key = jobs.join('\n')
+      const overlap = counts.get(key) ?? { jobs, count: 0 }
+      overlap.count++
+      counts.set(key, overlap)
+    }
+  }
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.jobs.join().localeCompare(b.jobs.join()))
+}
+
+/**
+ * Finds jobs that start again before a previous run is expected to finish
+ */
+function findSelfOverlaps(events: CalendarEvent[], durationMs: number): SelfOverlap[] {
+  const lastRun = new Map<string, number>()
+  const minGap = new Map<string, number>()
+
+  for (const event of events) {
+    const time = event.time.getTime()
+    const previous = lastRun.get(event.slug)
+    if (previous !== undefined) {
+      const gap = time - previous
+      minGap.set(event.slug, Math.min(minGap.get(event.slug) ?? Infinity, gap))
+    }
+    lastRun.set(event.slug, time)
+  }
+
+  return [...minGap.entries()]
+    .filter(([, gap]) => gap < durationMs)
+    .map(([job, gap]) => ({ job, minGapMinutes: gap / MINUTE_MS }))
+    .sort((a, b) => a.job.localeCompare(b.job))
+}
+
+/**
+ * Shifts the minute field of a cron expression, if it is a single number
+ */
+export function offsetCronMinute(expression: string, offset: number): string | undefined {
+  const fields = expression.trim().split(/\s+/)
+  // 6-field expressions start with seconds
+  const minuteIndex = fields.length === 6 ? 1 : 0
+  if ((fields.length !== 5 && fields.length !== 6) || !/^\d+$/.test(fields[minuteIndex]!)) return undefined
+
+  const minute = parseInt(fields[minuteIndex]!, 10) + offset
+  if (minute > 59) return undefined
+
+  fields[minuteIndex] = String(minute)
+  return fields.join(' ')
+}
+
+/**
+ * Suggests minute offsets that spread colliding jobs across the hour,
+ * keeping the first job of each collision in place
+ */
+function suggestOffsets(
+  collisions: Collision[],
+  schedules: CalendarSchedule[],
+  duration: number
+): { suggestions: Suggestion[]; unresolved: string[] } {
+  const suggestions: Suggestion[] = []
+  const unresolved: string[] = []
+  const handled = new Set<string>()
+
+  for (const collision of collisions) {
+    const jobs = collision.jobs.filter(job => !handled.has(job))
+    const spacing = Math.max(1, Math.min(duration, Math.floor(60 / Math.max(jobs.length, 1))))
+
+    jobs.forEach((job, index) => {
+      handled.add(job)
+      if (index === 0) return
+
+      const schedule = schedules.find(s => s.slug === job)
+      const offsetMinutes = index * spacing
+      const to = schedule && offsetCronMinute(schedule.cronExpression, offsetMinutes)
+
+      if (!schedule || !to) {
+        unresolved.push(job)
+        return
+      }
+
+      suggestions.push({ job, from: schedule.cronExpression, to, offsetMinutes })
+    })
+  }
+
+  return { suggestions, unresolved }
+}
+
+/**
+ * Names the schedules of jobs that have several by position, e.g. "backup#2",
+ * so collisions and suggestions point at the schedule to change
+ */
+function keySchedules(schedules: CalendarSchedule[]): CalendarSchedule[] {
+  const counts = new Map<string, number>()
+  for (const schedule of schedules) {
+    counts.set(schedule.slug, (counts.get(schedule.slug) ?? 0) + 1)
+  }
+
+  const seen = new Map<string, number>()
+  return schedules.map(schedule => {
+    if (counts.get(schedule.slug) === 1) return schedule
+    const position = (seen.get(schedule.slug) ?? 0) + 1
+    seen.set(schedule.slug, position)
+    return { ...schedule, slug: `${schedule.slug}#${position}` }
+  })
+}
+
+/**
+ * Expands schedules over a period in UTC and reports collisions,
+ * overlapping runs and suggested offsets. Collisions and suggestions are
+ * per schedule, overlaps per job.
+ */
+export function analyzeSchedules(schedules: CalendarSchedule[], options: AnalyzeOptions): AnalysisReport {
+  const to = new Date(options.from.getTime() + options.days * DAY_MS)
+  const durationMs = options.duration * MINUTE_MS
+  const keyed = keySchedules(schedules)
+  const { events: scheduleEvents, truncated, invalid } = expandSchedules(keyed, options.from, to)
+
+  const jobs = new Map(keyed.map((schedule, index) => [schedule.slug, schedules[index]!.slug]))
+  const events = scheduleEvents.map(event => ({ ...event, slug: jobs.get(event.slug) ?? event.slug }))
+
+  const collisions = findCollisions(scheduleEvents, options.threshold)
+  const { suggestions, unresolved } = suggestOffsets(collisions, keyed, options.duration)
+
+  return {
+    from: options.from.toISOString(),
+    to: to.toISOString(),
+    jobs: schedules.length,
+    runs: events.length,
+    collisions,
+    overlaps: findOverlaps(events, durationMs),
+    selfOverlaps: findSelfOverlaps(events, durationMs),
+    suggestions,
+    unresolved,
+    invalid,
+    truncated
+  }
+}
@@ -0,0 +1,153 @@
+import { createCronIterator, type CronIterator } from '../utils/time.js'
+import type { Manifest } from './manifest.js'
+
+/**
+ * A cron schedule to expand (manifests satisfy this)
+ */
+export type CalendarSchedule = Pick<Manifest, 'slug' | 'name' | 'cronExpression' | 'timezone'>
+
+export interface CalendarEvent {
+  slug: string
+  name: string
+  time: Date
+}
+
+export interface CalendarDay {
+  /** Date in the display timezone (YYYY-MM-DD) */
+  date: string
+  /** Events per hour of the day (0-23) in the display timezone */
+  hours: CalendarEvent[][]
+}
+
+export interface CalendarSlot {
+  /** Date and hour in the display timezone (YYYY-MM-DD HH:00) */
+  label: string
+  events: CalendarEvent[]
+}
+
+export interface ExpandResult {
+  events: CalendarEvent[]
+  /** Slugs whose runs were cut off at the per-job limit */
+  truncated: string[]
+  /** Slugs whose cron expression could not be parsed */
+  invalid: string[]
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Maximum number of runs expanded per job, so "every minute" jobs
+ * cannot blow up a long range (cron-parser is slow with timezones)
+ */
+export const MAX_RUNS_PER_JOB = 2000
+
+/**
+ * Expands every manifest's cron expression, in its own timezone,
+ * into run times within [from, to)
+ */
+export function expandSchedules(
+  manifests: CalendarSchedule[],
+  from: Date,
+  to: Date,
+  maxRunsPerJob = MAX_RUNS_PER_JOB
+): ExpandResult {
+  const events: CalendarEvent[] = []
+  const truncated: string[] = []
+  const invalid: string[] = []
+
+  for (const manifest of manifests) {
+    let interval: CronIterator
+    try {
+      interval = createCronIterator(manifest.cronExpression, {
+        timezone: manifest.timezone,
+        // next() is exclusive, so start just before the range to include it
+        currentDate: new Date(from.getTime() - 1),
+        endDate: new Date(to.getTime() - 1)
+      })
+    } catch {
+      invalid.push(manifest.slug)
+      continue
+    }
+
+    // next() throws once it passes the end date (faster than hasNext())
+    try {
+      for (let count = 0; ; count++) {
+        const time = interval.next()
+        if (count === maxRunsPerJob) {
+          truncated.push(manifest.slug)
+          break
+        }
+        events.push({ slug: manifest.slug, name: manifest.name, time })
+      }
+    } catch {
+      // End of range
+    }
+  }
+
+  events.sort((a, b) => a.time.getTime() - b.time.getTime() || a.slug.localeCompare(b.slug))
+  return { events, truncated, invalid }
+}
+
+/**
+ * Gets the date (YYYY-MM-DD) and hour of a time in a timezone
+ */
+export function getZonedHour(time: Date, timezone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(time)
+
+  const get = (type: string): string => parts.find(p => p.type === type)?.value ?? '00'
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, hour: parseInt(get('hour'), 10) }
+}
+
+/**
+ * Buckets events into an hourly grid per day in the display timezone,
+ * including empty days within [from, to)
+ */
+export function buildHourlyGrid(events: CalendarEvent[], from: Date, to: Date, timezone: string): CalendarDay[] {
+  const days = new Map<string, CalendarDay>()
+
+  const getDay = (date: string): CalendarDay => {
+    let day = days.get(date)
+    if (!day) {
+      day = { date, hours: Array.from({ length: 24 }, () => []) }
+      days.set(date, day)
+    }
+    return day
+  }
+
+  for (let t = from.getTime(); t < to.getTime(); t += HOUR_MS) {
+    getDay(getZonedHour(new Date(t), timezone).date)
+  }
+
+  for (const event of events) {
+    const { date, hour } = getZonedHour(event.time, timezone)
+    getDay(date).hours[hour]!.push(event)
+  }
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Finds the hours with the most runs
+ */
+export function getBusiestSlots(grid: CalendarDay[], limit = 5): CalendarSlot[] {
+  const slots: CalendarSlot[] = []
+
+  for (const day of grid) {
+    day.hours.forEach((events, hour) => {
+      if (events.length > 0) {
+        slots.push({ label: `${day.date} ${String(hour).padStart(2, '0')}:00`, events })
+      }
+    })
+  }
+
+  return slots
+    .sort((a, b) => b.events.length - a.events.length || a.label.localeCompare(b.label))
+    .slice(0, limit)
+}
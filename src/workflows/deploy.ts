@@ -0,0 +1,192 @@
+import type { N8nClient, N8nWorkflow } from '../api/n8nClient.js'
+import {
+  getDeployTags,
+  getDeployment,
+  updateManifestDeployment,
+  type DeploymentResources,
+  type Manifest
+} from './manifest.js'
+import {
+  injectRunTrigger,
+  removeRunTrigger,
+  createRunTriggerToken,
+  createRunTriggerCredential,
+  type RunTriggerCredential
+} from './runTrigger.js'
+import { createErrorWorkflow, setErrorWorkflow, removeErrorWorkflow } from './alerts.js'
+import { isCronNode } from './discover.js'
+import { updateWorkflowId } from '../config/registry.js'
+import { requireAuth } from '../config/store.js'
+import { ApiError } from '../utils/errors.js'
+
+export interface DeployResult {
+  workflow: N8nWorkflow
+  workflowId: string
+  created: boolean
+  tags: string[]
+  /** Error workflow reporting failures to the manifest's alert destination */
+  errorWorkflowId?: string
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof ApiError && error.statusCode === 404
+}
+
+function ignoreNotFound(error: unknown): void {
+  if (!isNotFound(error)) throw error
+}
+
+/**
+ * Creates the header auth credential of the run trigger webhook, when the
+ * workflow has a cron node to attach the trigger to. A new one is created
+ * on every deploy so the token follows the current API key; the previous
+ * one is deleted once the workflow no longer uses it.
+ */
+async function createRunTriggerAuth(
+  client: N8nClient,
+  manifest: Manifest,
+  workflowData: N8nWorkflow,
+  env: string
+): Promise<RunTriggerCredential | undefined> {
+  if (!manifest.runTriggerPath || !workflowData.nodes.some(isCronNode)) {
+    return undefined
+  }
+
+  const auth = await requireAuth(env)
+  const token = createRunTriggerToken(auth.secret, manifest.runTriggerPath)
+  const { id, name } = await client.createCredential(createRunTriggerCredential(manifest.runTriggerPath, token))
+  return { id, name }
+}
+
+interface DeployedErrorWorkflow {
+  id: string
+  /** Created by this deploy, so deleted again if the deploy fails */
+  created: boolean
+}
+
+/**
+ * Creates or updates the error workflow for the manifest's alert destination.
+ * Without an alert, nothing is deployed; deployWorkflow deletes the earlier
+ * error workflow once the workflow no longer points at it.
+ */
+async function deployErrorWorkflow(
+  client: N8nClient,
+  manifest: Manifest,
+  env: string
+): Promise<DeployedErrorWorkflow | undefined> {
+  if (!manifest.alert) {
+    return undefined
+  }
+
+  const existingId = getDeployment(manifest, env)?.errorWorkflowId
+  const { name, nodes, connections, settings } = createErrorWorkflow(manifest, manifest.alert)
+  const payload = { name, nodes, connections, settings }
+  if (existingId) {
+    try {
+      return { id: (await client.updateWorkflow({ id: existingId, ...payload })).id!, created: false }
+    } catch (error) {
+      // Deleted in n8n, so create it again
+      if (!isNotFound(error)) throw error
+    }
+  }
+  return { id: (await client.createWorkflow(payload)).id!, created: true }
+}
+
+/**
+ * Deletes a deployed workflow with the error workflow and run trigger
+ * credential created for it. The extras may already be gone.
+ */
+export async function deleteDeployedWorkflow(
+  client: N8nClient,
+  workflowId: string,
+  resources: DeploymentResources = {}
+): Promise<void> {
+  await client.deleteWorkflow(workflowId)
+  if (resources.errorWorkflowId) {
+    await client.deleteWorkflow(resources.errorWorkflowId).catch(ignoreNotFound)
+  }
+  if (resources.runTriggerCredentialId) {
+    await client.deleteCredential(resources.runTriggerCredentialId).catch(ignoreNotFound)
+  }
+}
+
+/**
+ * Creates or updates a workflow in n8n, tags it and records the
+ * deployment for the environment in the manifest and registry.
+ * Without a workflow ID a new workflow is created. With an alert
+ * destination in the manifest, the workflow's errors go to a generated
+ * error workflow. The run trigger is protected by a header auth credential.
+ */
+export async function deployWorkflow(
+  client: N8nClient,
+  manifest: Manifest,
+  workflowData: N8nWorkflow,
+  basePath: string,
+  env: string,
+  workflowId?: string
+): Promise<DeployResult> {
+  const previous = getDeployment(manifest, env)
+  const errorWorkflow = await deployErrorWorkflow(client, manifest, env)
+  const errorWorkflowId = errorWorkflow?.id
+  let credential: RunTriggerCredential | undefined
+  let workflow: N8nWorkflow
+
+  try {
+    credential = await createRunTriggerAuth(client, manifest, workflowData, env)
+    const withTrigger = manifest.runTriggerPath && credential
+      ? injectRunTrigger(workflowData, manifest.runTriggerPath, credential)
+      : removeRunTrigger(workflowData)
+    const data = errorWorkflowId
+      ? setErrorWorkflow(withTrigger, errorWorkflowId)
+      : removeErrorWorkflow(withTrigger, previous?.errorWorkflowId)
+
+    const payload = {
+      name: data.name,
+      nodes: data.nodes,
+      connections: data.connections,
+      settings: data.settings
+    }
+
+    workflow = workflowId
+      ? await client.updateWorkflow({ id: workflowId, ...payload })
+      : await client.createWorkflow(payload)
+  } catch (error) {
+    // Nothing uses what this deploy created, so remove it again
+    if (credential) {
+      await client.deleteCredential(credential.id).catch(() => undefined)
+    }
+    if (errorWorkflow?.created) {
+      await client.deleteWorkflow(errorWorkflow.id).catch(() => undefined)
+    }
+    throw error
+  }
+
+  const finalWorkflowId = workflow.id!
+
+  // Recorded right away, so a failure below leaves nothing untracked
+  await updateManifestDeployment(manifest.slug, env, finalWorkflowId, client.baseUrl, basePath, {
+    errorWorkflowId,
+    runTriggerCredentialId: credential?.id
+  })
+  await updateWorkflowId(manifest.slug, basePath, finalWorkflowId)
+
+  // Add the cron8n and user-defined tags
+  const tags = getDeployTags(manifest)
+  await client.addTagsToWorkflow(finalWorkflowId, tags)
+
+  // The workflow now uses the new credential and error workflow, or none
+  if (previous?.runTriggerCredentialId && previous.runTriggerCredentialId !== credential?.id) {
+    await client.deleteCredential(previous.runTriggerCredentialId).catch(ignoreNotFound)
+  }
+  if (previous?.errorWorkflowId && previous.errorWorkflowId !== errorWorkflowId) {
+    await client.deleteWorkflow(previous.errorWorkflowId).catch(ignoreNotFound)
+  }
+
+  return {
+    workflow,
+    workflowId: finalWorkflowId,
+    created: !workflowId,
+    tags,
+    errorWorkflowId
+  }
+}
@@ -0,0 +1,184 @@
+import type { N8nNode, N8nWorkflow } from '../api/n8nClient.js'
+import { getCronNodes } from './discover.js'
+import { isRunTriggerNode, RUN_TRIGGER_NODE_NAME } from './runTrigger.js'
+
+export interface ValueChange {
+  path: string
+  local: unknown
+  remote: unknown
+}
+
+export interface NodeDiff {
+  name: string
+  changes: ValueChange[]
+}
+
+export interface ScheduleDiff {
+  nodeName: string
+  local?: { cronExpression?: string; timezone?: string }
+  remote?: { cronExpression?: string; timezone?: string }
+}
+
+/**
+ * Differences between a local workflow and its deployed version.
+ * "added" and "removed" are from the remote point of view: an added node
+ * exists only in n8n, a removed node exists only in the local file.
+ */
+export interface WorkflowDiff {
+  hasDrift: boolean
+  name?: ValueChange
+  nodes: {
+    added: string[]
+    removed: string[]
+    changed: NodeDiff[]
+  }
+  connections: {
+    added: string[]
+    removed: string[]
+  }
+  schedules: ScheduleDiff[]
+  settings: ValueChange[]
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Recursively collects differences between two values
+ */
+function diffValues(path: string, local: unknown, remote: unknown, changes: ValueChange[]): void {
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)])
+    for (const key of keys) {
+      diffValues(path ? `${path}.${key}` : key, local[key], remote[key], changes)
+    }
+    return
+  }
+
+  if (JSON.stringify(local) !== JSON.stringify(remote)) {
+    changes.push({ path, local, remote })
+  }
+}
+
+/**
+ * Normalizes a node for comparison, dropping server-managed fields
+ * (id, position) and instance-specific credential ids
+ */
+function normalizeNode(node: N8nNode): Record<string, unknown> {
+  const credentials: Record<string, unknown> = {}
+  for (const [type, value] of Object.entries(node.credentials ?? {})) {
+    credentials[type] = isPlainObject(value) ? value['name'] : value
+  }
+
+  return {
+    type: node.type,
+    typeVersion: node.typeVersion,
+    parameters: node.parameters ?? {},
+    credentials
+  }
+}
+
+/**
+ * Flattens workflow connections into "Source[type:output] -> Target[input]" edges
+ */
+function flattenConnections(connections: Record<string, unknown>): string[] {
+  const edges: string[] = []
+
+  for (const [source, outputs] of Object.entries(connections)) {
+    if (source === RUN_TRIGGER_NODE_NAME || !isPlainObject(outputs)) continue
+
+    for (const [type, branches] of Object.entries(outputs)) {
+      if (!Array.isArray(branches)) continue
+
+      branches.forEach((targets: unknown, outputIndex) => {
+        if (!Array.isArray(targets)) return
+        for (const target of targets as Array<{ node?: string; index?: number }>) {
+          edges.push(`${source}[${type}:${outputIndex}] -> ${target.node}[${target.index ?? 0}]`)
+        }
+      })
+    }
+  }
+
+  return edges.sort()
+}
+
+function managedNodes(workflow: N8nWorkflow): Map<string, N8nNode> {
+  return new Map(
+    workflow.nodes
+      .filter(node => !isRunTriggerNode(node))
+      .map(node => [node.name, node])
+  )
+}
+
+/**
+ * Compares a local workflow definition with the deployed workflow
+ */
+export function diffWorkflows(local: N8nWorkflow, remote: N8nWorkflow): WorkflowDiff {
+  const localNodes = managedNodes(local)
+  const remoteNodes = managedNodes(remote)
+
+  const added = [...remoteNodes.keys()].filter(name => !localNodes.has(name))
+  const removed = [...localNodes.keys()].filter(name => !remoteNodes.has(name))
+  const changed: NodeDiff[] = []
+
+  for (const [name, localNode] of localNodes) {
+    const remoteNode = remoteNodes.get(name)
+    if (!remoteNode) continue
+
+    const changes: ValueChange[] = []
+    diffValues('', normalizeNode(localNode), normalizeNode(remoteNode), changes)
+    if (changes.length > 0) {
+      changed.push({ name, changes })
+    }
+  }
+
+  const localEdges = flattenConnections(local.connections)
+  const remoteEdges = flattenConnections(remote.connections)
+
+  const localSchedules = new Map(getCronNodes(local).map(n => [n.nodeName, n]))
+  const remoteSchedules = new Map(getCronNodes(remote).map(n => [n.nodeName, n]))
+  const schedules: ScheduleDiff[] = []
+
+  for (const nodeName of new Set([...localSchedules.keys(), ...remoteSchedules.keys()])) {
+    const l = localSchedules.get(nodeName)
+    const r = remoteSchedules.get(nodeName)
+    if (l?.cronExpression === r?.cronExpression && l?.timezone === r?.timezone) continue
+
+    schedules.push({
+      nodeName,
+      local: l && { cronExpression: l.cronExpression, timezone: l.timezone },
+      remote: r && { cronExpression: r.cronExpression, timezone: r.timezone }
+    })
+  }
+
+  const settings: ValueChange[] = []
+  diffValues('', local.settings ?? {}, remote.settings ?? {}, settings)
+
+  const name = local.name !== remote.name
+    ? { path: 'name', local: local.name, remote: remote.name }
+    : undefined
+
+  const diff: WorkflowDiff = {
+    hasDrift: false,
+    name,
+    nodes: { added, removed, changed },
+    connections: {
+      added: remoteEdges.filter(edge => !localEdges.includes(edge)),
+      removed: localEdges.filter(edge => !remoteEdges.includes(edge))
+    },
+    schedules,
+    settings
+  }
+
+  diff.hasDrift = !!name ||
+    added.length > 0 ||
+    removed.length > 0 ||
+    changed.length > 0 ||
+    diff.connections.added.length > 0 ||
+    diff.connections.removed.length > 0 ||
+    schedules.length > 0 ||
+    settings.length > 0
+
+  return diff
+}
@@ -1,4 +1,5 @@
 import type { N8nWorkflow, N8nNode } from '../api/n8nClient.js'
+import { describeCron } from '../utils/time.js'
 
 /**
  * Cron node type identifiers used in n8n
@@ -15,11 +16,24 @@ const CRON_NODE_TYPES = [
 const CRON8N_MANAGED_TAG = 'managed-by:cron8n'
 const CRON8N_SLUG_TAG_PREFIX = 'cron8n:'
 
+/**
+ * A trigger schedule, normalized across n8n's interval modes
+ */
+export interface NodeSchedule {
+  /** Interval mode as configured in n8n (e.g. "minutes", "weeks", "cronExpression", "everyDay") */
+  mode: string
+  /** Equivalent cron expression, if the schedule can be written as one */
+  cronExpression?: string
+  description: string
+}
+
 export interface CronNodeInfo {
   nodeName: string
   nodeType: string
+  /** First schedule of the node that has a cron expression */
   cronExpression?: string
   timezone?: string
+  schedules: NodeSchedule[]
 }
 
 export interface WorkflowCronInfo {
@@ -42,38 +56,152 @@ export function isCronNode(node: N8nNode): boolean {
   )
 }
 
+type Parameters = Record<string, unknown>
+
+function toNumber(value: unknown, fallback: number): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && /^\d+$/.test(value)) return parseInt(value, 10)
+  return fallback
+}
+
+function toLowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1)
+}
+
+function cronSchedule(mode: string, cronExpression: string): NodeSchedule {
+  return { mode, cronExpression, description: describeCron(cronExpression) }
+}
+
 /**
- * Extracts cron expression from a node's parameters
+ * Schedules that repeat every N days, weeks or months have no cron equivalent,
+ * since n8n counts the interval from when the workflow was activated
  */
-export function extractCronExpression(node: N8nNode): string | undefined {
+function recurringSchedule(mode: string, every: number, unit: string, singleRunCron: string): NodeSchedule {
+  if (every === 1) return cronSchedule(mode, singleRunCron)
+  return { mode, description: `Every ${every} ${unit}, ${toLowerFirst(describeCron(singleRunCron))}` }
+}
+
+/**
+ * Normalizes a scheduleTrigger `rule.interval` entry
+ * (missing parameters use n8n's defaults)
+ */
+function scheduleFromInterval(interval: Parameters): NodeSchedule {
+  const mode = typeof interval['field'] === 'string' ? interval['field'] : 'days'
+  const hour = toNumber(interval['triggerAtHour'], 0)
+  const minute = toNumber(interval['triggerAtMinute'], 0)
+
+  switch (mode) {
+    case 'cronExpression': {
+      const expression = interval['expression']
+      return typeof expression === 'string' && expression
+        ? cronSchedule(mode, expression)
+        : { mode, description: 'Custom cron expression (empty)' }
+    }
+    case 'seconds': {
+      const every = toNumber(interval['secondsInterval'], 30)
+      return {
+        mode,
+        cronExpression: every === 1 ? '* * * * * *' : `*/${every} * * * * *`,
+        description: every === 1 ? 'Every second' : `Every ${every} seconds`
+      }
+    }
+    case 'minutes': {
+      const every = toNumber(interval['minutesInterval'], 5)
+      return cronSchedule(mode, every === 1 ? '* * * * *' : `*/${every} * * * *`)
+    }
+    case 'hours': {
+      const every = toNumber(interval['hoursInterval'], 1)
+      return cronSchedule(mode, every === 1 ? `${minute} * * * *` : `${minute} */${every} * * *`)
+    }
+    case 'days':
+      return recurringSchedule(mode, toNumber(interval['daysInterval'], 1), 'days', `${minute} ${hour} * * *`)
+    case 'weeks': {
+      const days = Array.isArray(interval['triggerAtDay']) ? interval['triggerAtDay'] : []
+      // n8n fires on Sunday when no day is selected
+      const dayOfWeek = days.length > 0 ? days.join(',') : '0'
+      return recurringSchedule(mode, toNumber(interval['weeksInterval'], 1), 'weeks', `${minute} ${hour} * * ${dayOfWeek}`)
+    }
+    case 'months': {
+      const dayOfMonth = toNumber(interval['triggerAtDayOfMonth'], 1)
+      return recurringSchedule(mode, toNumber(interval['monthsInterval'], 1), 'months', `${minute} ${hour} ${dayOfMonth} * *`)
+    }
+    default:
+      return { mode, description: `Unsupported interval "${mode}"` }
+  }
+}
+
+/**
+ * Normalizes a legacy cron node `triggerTimes` entry
+ * (missing parameters use n8n's defaults)
+ */
+function scheduleFromTriggerTime(item: Parameters): NodeSchedule {
+  const mode = typeof item['mode'] === 'string' ? item['mode'] : 'everyDay'
+  const hour = toNumber(item['hour'], 14)
+  const minute = toNumber(item['minute'], 0)
+
+  switch (mode) {
+    case 'everyMinute':
+      return cronSchedule(mode, '* * * * *')
+    case 'everyHour':
+      return cronSchedule(mode, `${minute} * * * *`)
+    case 'everyDay':
+      return cronSchedule(mode, `${minute} ${hour} * * *`)
+    case 'everyWeek':
+      return cronSchedule(mode, `${minute} ${hour} * * ${toNumber(item['weekday'], 1)}`)
+    case 'everyMonth':
+      return cronSchedule(mode, `${minute} ${hour} ${toNumber(item['dayOfMonth'], 1)} * *`)
+    case 'everyX': {
+      const every = toNumber(item['value'], 2)
+      return item['unit'] === 'minutes'
+        ? cronSchedule(mode, `*/${every} * * * *`)
+        : cronSchedule(mode, `0 */${every} * * *`)
+    }
+    case 'custom': {
+      const expression = item['cronExpression']
+      return typeof expression === 'string' && expression
+        ? cronSchedule(mode, expression)
+        : { mode, description: 'Custom cron expression (empty)' }
+    }
+    default:
+      return { mode, description: `Unsupported trigger time "${mode}"` }
+  }
+}
+
+/**
+ * Extracts every schedule of a trigger node: all scheduleTrigger intervals,
+ * a direct cron expression, or all legacy cron node trigger times
+ */
+export function extractSchedules(node: N8nNode): NodeSchedule[] {
   const params = node.parameters
 
-  if (!params) return undefined
+  if (!params) return []
 
   // Handle scheduleTrigger node format
   if (params['rule'] && typeof params['rule'] === 'object') {
-    const rule = params['rule'] as { interval?: Array<{ field?: string; expression?: string }> }
-    const interval = rule.interval?.[0]
-    if (interval?.field === 'cronExpression' && interval.expression) {
-      return interval.expression
-    }
+    const rule = params['rule'] as { interval?: Parameters[] }
+    return (rule.interval ?? []).map(scheduleFromInterval)
   }
 
   // Handle older cron node format
   if (params['cronExpression'] && typeof params['cronExpression'] === 'string') {
-    return params['cronExpression']
+    return [cronSchedule('cronExpression', params['cronExpression'])]
   }
 
   // Handle trigger times format
   if (params['triggerTimes'] && typeof params['triggerTimes'] === 'object') {
-    const triggerTimes = params['triggerTimes'] as { item?: Array<{ mode?: string; cronExpression?: string }> }
-    const item = triggerTimes.item?.[0]
-    if (item?.cronExpression) {
-      return item.cronExpression
-    }
+    const triggerTimes = params['triggerTimes'] as { item?: Parameters[] }
+    return (triggerTimes.item ?? []).map(scheduleFromTriggerTime)
   }
 
-  return undefined
+  return []
+}
+
+/**
+ * Extracts cron expression from a node's parameters
+ * (the first schedule that can be written as one)
+ */
+export function extractCronExpression(node: N8nNode): string | undefined {
+  return extractSchedules(node).find(schedule => schedule.cronExpression)?.cronExpression
 }
 
 /**
@@ -106,12 +234,16 @@ export function extractTimezone(node: N8nNode): string | undefined {
 export function getCronNodes(workflow: N8nWorkflow): CronNodeInfo[] {
   return workflow.nodes
     .filter(isCronNode)
-    .map(node => ({
-      nodeName: node.name,
-      nodeType: node.type,
-      cronExpression: extractCronExpression(node),
-      timezone: extractTimezone(node)
-    }))
+    .map(node => {
+      const schedules = extractSchedules(node)
+      return {
+        nodeName: node.name,
+        nodeType: node.type,
+        cronExpression: schedules.find(schedule => schedule.cronExpression)?.cronExpression,
+        timezone: extractTimezone(node),
+        schedules
+      }
+    })
 }
 
 /**
@@ -0,0 +1,101 @@
+import type { N8nExecution } from '../api/n8nClient.js'
+
+export interface ExecutionSummary {
+  id: string
+  workflowId: string
+  status: string
+  mode?: string
+  startedAt?: string
+  stoppedAt?: string
+  durationMs?: number
+  error?: string
+}
+
+/**
+ * Gets the status of an execution, deriving it for older n8n versions
+ * that don't report one
+ */
+export function getExecutionStatus(execution: N8nExecution): string {
+  if (execution.status) return execution.status
+  if (execution.waitTill) return 'waiting'
+  if (!execution.stoppedAt) return 'running'
+  return execution.finished ? 'success' : 'error'
+}
+
+/**
+ * Gets the execution duration in milliseconds
+ */
+export function getExecutionDuration(execution: N8nExecution): number | undefined {
+  if (!execution.startedAt || !execution.stoppedAt) return undefined
+
+  const started = new Date(execution.startedAt).getTime()
+  const stopped = new Date(execution.stoppedAt).getTime()
+
+  if (Number.isNaN(started) || Number.isNaN(stopped)) return undefined
+  return Math.max(0, stopped - started)
+}
+
+/**
+ * Extracts the error message from execution data (requires includeData)
+ */
+export function getExecutionError(execution: N8nExecution): string | undefined {
+  const resultData = execution.data?.['resultData'] as
+    | { error?: { message?: string; description?: string }; lastNodeExecuted?: string }
+    | undefined
+
+  const error = resultData?.error
+  if (!error) return undefined
+
+  const message = error.message ?? error.description
+  if (!message) return undefined
+
+  return resultData.lastNodeExecuted
+    ? `${resultData.lastNodeExecuted}: ${message}`
+    : message
+}
+
+/**
+ * Checks if an execution has reached a final state
+ */
+export function isExecutionFinished(execution: N8nExecution): boolean {
+  const status = getExecutionStatus(execution)
+  return status !== 'new' && status !== 'running' && status !== 'waiting'
+}
+
+/**
+ * Extracts the output items of the last executed node (requires includeData)
+ */
+export function getExecutionOutput(execution: N8nExecution): unknown[] | undefined {
+  const resultData = execution.data?.['resultData'] as
+    | {
+        lastNodeExecuted?: string
+        runData?: Record<string, Array<{ data?: { main?: Array<Array<{ json?: unknown }> | null> } }>>
+      }
+    | undefined
+
+  const lastNode = resultData?.lastNodeExecuted
+  if (!lastNode) return undefined
+
+  const runs = resultData.runData?.[lastNode]
+  const lastRun = runs?.[runs.length - 1]
+  const items = lastRun?.data?.main?.[0]
+  if (!items) return undefined
+
+  return items.map(item => item.json)
+}
+
+/**
+ * Summarizes an execution for display
+ */
+export function summarizeExecution(execution: N8nExecution): ExecutionSummary {
+  return {
+    id: execution.id,
+    workflowId: execution.workflowId,
+    status: getExecutionStatus(execution),
+    mode: execution.mode,
+    startedAt: execution.startedAt ?? undefined,
+    stoppedAt: execution.stoppedAt ?? undefined,
+    durationMs: getExecutionDuration(execution),
+    error: getExecutionError(execution)
+  }
+}
@@ -1,8 +1,48 @@
 import { z } from 'zod'
-import { join } from 'pathe'
-import { readJson, writeJson, exists, getCwd, resolvePath } from '../utils/fs.js'
-import { getISOTimestamp } from '../utils/time.js'
+import { dirname, join } from 'pathe'
+import { readJson, writeJson, exists, resolvePath } from '../utils/fs.js'
+import { getISOTimestamp, normalizeCronExpression } from '../utils/time.js'
+import { FileError, ValidationError } from '../utils/errors.js'
 import type { TemplateName } from './templates.js'
+import type { N8nWorkflow } from '../api/n8nClient.js'
+import { DEFAULT_PROFILE } from '../config/store.js'
+import { getProjectConfig, getProjectRoot, getWorkflowsDirName } from '../config/project.js'
+
+export const DeploymentSchema = z.object({
+  workflowId: z.string(),
+  deployedAt: z.string(),
+  baseUrl: z.string().optional(),
+  // Error workflow generated for the manifest's alert destination
+  errorWorkflowId: z.string().optional(),
+  // Header auth credential of the run trigger webhook
+  runTriggerCredentialId: z.string().optional()
+})
+
+export type Deployment = z.infer<typeof DeploymentSchema>
+
+/**
+ * n8n resources created next to the deployed workflow
+ */
+export type DeploymentResources = Pick<Deployment, 'errorWorkflowId' | 'runTriggerCredentialId'>
+
+export const ScheduleSchema = z.object({
+  cronExpression: z.string(),
+  timezone: z.string()
+})
+
+export type Schedule = z.infer<typeof ScheduleSchema>
+
+// Where failures of a workflow are reported
+export const AlertSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('slack'), webhookUrl: z.string().url() }),
+  z.object({ type: z.literal('email'), to: z.string().email(), from: z.string().email().optional() }),
+  z.object({ type: z.literal('http'), url: z.string().url() })
+])
+
+export type Alert = z.infer<typeof AlertSchema>
+
+// Values that differ between environments, keyed by name then environment
+const EnvironmentValuesSchema = z.record(z.record(z.string()))
 
 export const ManifestSchema = z.object({
   slug: z.string(),
@@ -11,20 +51,36 @@ export const ManifestSchema = z.object({
   template: z.string(),
   cronExpression: z.string(),
   timezone: z.string(),
+  // Schedules beyond the primary cronExpression/timezone
+  additionalSchedules: z.array(ScheduleSchema).optional(),
+  // The cron8n tags plus user-defined ones, all pushed to n8n on deploy
   tags: z.array(z.string()),
-  lastDeployedWorkflowId: z.string().optional(),
-  lastDeployedAt: z.string().optional()
+  // Who to contact when the workflow fails
+  owner: z.string().optional(),
+  description: z.string().optional(),
+  runbookUrl: z.string().url().optional(),
+  labels: z.record(z.string()).optional(),
+  deployments: z.record(DeploymentSchema).optional(),
+  variables: EnvironmentValuesSchema.optional(),
+  credentials: EnvironmentValuesSchema.optional(),
+  runTriggerPath: z.string().optional(),
+  alert: AlertSchema.optional(),
+  active: z.boolean().optional()
 })
 
 export type Manifest = z.infer<typeof ManifestSchema>
 
-const WORKFLOWS_DIR = 'workflows'
+// Manifests written before per-environment deployments
+const LegacyManifestSchema = ManifestSchema.extend({
+  lastDeployedWorkflowId: z.string().optional(),
+  lastDeployedAt: z.string().optional()
+})
 
 /**
- * Gets the workflows directory path
+ * Gets the workflows directory path, as set by the project config
  */
 export function getWorkflowsDir(basePath?: string): string {
-  return join(basePath ?? getCwd(), WORKFLOWS_DIR)
+  return join(basePath ?? getProjectRoot(), getWorkflowsDirName())
 }
 
 /**
@@ -34,6 +90,21 @@ export function getWorkflowPath(slug: string, basePath?: string): string {
   return join(getWorkflowsDir(basePath), `${slug}.json`)
 }
 
+/**
+ * Loads the workflow JSON file for a slug
+ */
+export async function loadWorkflow(slug: string, basePath?: string): Promise<N8nWorkflow> {
+  const workflowPath = getWorkflowPath(slug, basePath)
+  try {
+    return await readJson<N8nWorkflow>(workflowPath)
+  } catch {
+    throw new FileError(
+      `Workflow file not found: ${workflowPath}`,
+      'Make sure the workflow JSON file exists'
+    )
+  }
+}
+
 /**
  * Gets the manifest file path
  */
@@ -48,6 +119,118 @@ export function createTags(slug: string): string[] {
   return ['managed-by:cron8n', `cron8n:${slug}`]
 }
 
+/**
+ * Gets the tags pushed to n8n on deploy: the cron8n tags, the manifest's
+ * own tags and the owner as "owner:<name>"
+ */
+export function getDeployTags(manifest: Pick<Manifest, 'slug' | 'tags' | 'owner'>): string[] {
+  return [...new Set([
+    ...createTags(manifest.slug),
+    ...manifest.tags,
+    ...(manifest.owner ? [`owner:${manifest.owner}`] : [])
+  ])]
+}
+
+/**
+ * Checks user-defined tags, returning them trimmed
+ */
+export function validateTags(tags: string[], slug: string): string[] {
+  return tags.map(tag => {
+    const trimmed = tag.trim()
+    if (!trimmed) {
+      throw new ValidationError('Tags cannot be empty')
+    }
+    // Any cron8n tag would confuse slug lookups and orphan detection
+    if (trimmed === 'managed-by:cron8n' || trimmed.startsWith('cron8n:')) {
+      throw new ValidationError(`Tag "${trimmed}" is managed by cron8n`, `${createTags(slug).join(' and ')} are added on deploy`)
+    }
+    if (trimmed.startsWith('owner:')) {
+      throw new ValidationError(`Tag "${trimmed}" is managed by cron8n`, 'Set the owner with --owner instead')
+    }
+    return trimmed
+  })
+}
+
+export type ManifestMetadata = Pick<Manifest, 'owner' | 'description' | 'runbookUrl' | 'labels'>
+
+/**
+ * Updates the owner, description, runbook URL and labels of a manifest. An
+ * empty string removes a field or label. Returns the names of the changed
+ * fields.
+ */
+export function setManifestMetadata(manifest: Manifest, metadata: ManifestMetadata): string[] {
+  const changed: string[] = []
+
+  for (const key of ['owner', 'description', 'runbookUrl'] as const) {
+    const value = metadata[key]?.trim()
+    if (value === undefined || value === (manifest[key] ?? '')) continue
+
+    if (key === 'runbookUrl' && value && !ManifestSchema.shape.runbookUrl.safeParse(value).success) {
+      throw new ValidationError(`Invalid runbook URL: ${value}`, 'Use a full URL, e.g. https://wiki.example.com/runbooks/sync')
+    }
+    if (value) {
+      manifest[key] = value
+    } else {
+      delete manifest[key]
+    }
+    changed.push(key)
+  }
+
+  const labels = { ...manifest.labels }
+  for (const [key, value] of Object.entries(metadata.labels ?? {})) {
+    if ((labels[key] ?? '') === value) continue
+    if (value) {
+      labels[key] = value
+    } else {
+      delete labels[key]
+    }
+    changed.push(`labels.${key}`)
+  }
+  if (Object.keys(labels).length > 0) {
+    manifest.labels = labels
+  } else {
+    delete manifest.labels
+  }
+
+  return changed
+}
+
+export interface ManifestFilter {
+  /** Tags the manifest must all have */
+  tags?: string[]
+  owner?: string
+  /** Labels the manifest must all have, with these values */
+  labels?: Record<string, string>
+}
+
+/**
+ * Checks whether a manifest matches all given filters. Owners are compared
+ * case-insensitively.
+ */
+export function matchesManifestFilter(manifest: Manifest, filter: ManifestFilter): boolean {
+  const tags = getDeployTags(manifest)
+  if (filter.tags?.some(tag => !tags.includes(tag))) {
+    return false
+  }
+  if (filter.owner && manifest.owner?.toLowerCase() !== filter.owner.toLowerCase()) {
+    return false
+  }
+  return Object.entries(filter.labels ?? {}).every(([key, value]) => manifest.labels?.[key] === value)
+}
+
+/**
+ * Checks whether a remote workflow's tags match the tag and owner filters.
+ * Labels are not pushed to n8n. Owners are compared case-insensitively.
+ */
+export function matchesWorkflowFilter(workflow: Pick<N8nWorkflow, 'tags'>, filter: ManifestFilter): boolean {
+  const tags = workflow.tags?.map(tag => tag.name) ?? []
+  if (filter.tags?.some(tag => !tags.includes(tag))) {
+    return false
+  }
+  const ownerTag = filter.owner ? `owner:${filter.owner}`.toLowerCase() : undefined
+  return !ownerTag || tags.some(tag => tag.toLowerCase() === ownerTag)
+}
+
 /**
  * Creates a new manifest
  */
@@ -65,8 +248,71 @@ export function createManifest(
     template,
     cronExpression,
     timezone,
-    tags: createTags(slug)
+    tags: [...new Set([...createTags(slug), ...getProjectConfig().tags ?? []])]
+  }
+}
+
+/**
+ * Gets all schedules of a manifest, starting with the primary one
+ */
+export function getSchedules(manifest: Manifest): Schedule[] {
+  return [
+    { cronExpression: manifest.cronExpression, timezone: manifest.timezone },
+    ...(manifest.additionalSchedules ?? [])
+  ]
+}
+
+/**
+ * Replaces the schedules of a manifest, the first one becoming the primary
+ */
+export function setSchedules(manifest: Manifest, schedules: Schedule[]): Manifest {
+  const [primary, ...additional] = schedules
+  if (!primary) {
+    throw new ValidationError('A workflow needs at least one schedule')
+  }
+
+  manifest.cronExpression = primary.cronExpression
+  manifest.timezone = primary.timezone
+  if (additional.length > 0) {
+    manifest.additionalSchedules = additional
+  } else {
+    delete manifest.additionalSchedules
+  }
+  return manifest
+}
+
+/**
+ * Parses a schedule given as "<cron expression>" or "<cron expression>@<timezone>"
+ */
+export function parseScheduleSpec(spec: string, defaultTimezone: string): Schedule {
+  // Macros such as "@daily" start with "@", so only a later "@" separates the timezone
+  const separator = spec.lastIndexOf('@')
+  if (separator <= 0) {
+    return { cronExpression: normalizeCronExpression(spec), timezone: defaultTimezone }
   }
+  return {
+    cronExpression: normalizeCronExpression(spec.slice(0, separator)),
+    timezone: spec.slice(separator + 1).trim() || defaultTimezone
+  }
+}
+
+/**
+ * Parses manifest data, moving a legacy single deployment into the
+ * default environment
+ */
+export function parseManifest(data: unknown): Manifest {
+  const { lastDeployedWorkflowId, lastDeployedAt, ...manifest } = LegacyManifestSchema.parse(data)
+
+  if (lastDeployedWorkflowId) {
+    const deployments = { ...manifest.deployments }
+    deployments[DEFAULT_PROFILE] ??= {
+      workflowId: lastDeployedWorkflowId,
+      deployedAt: lastDeployedAt ?? manifest.createdAt
+    }
+    manifest.deployments = deployments
+  }
+
+  return manifest
 }
 
 /**
@@ -75,7 +321,7 @@ export function createManifest(
 export async function loadManifest(slug: string, basePath?: string): Promise<Manifest> {
   const manifestPath = getManifestPath(slug, basePath)
   const data = await readJson<unknown>(manifestPath)
-  return ManifestSchema.parse(data)
+  return parseManifest(data)
 }
 
 /**
@@ -87,16 +333,84 @@ export async function saveManifest(manifest: Manifest, basePath?: string): Promi
 }
 
 /**
- * Updates manifest with deployment info
+ * Gets the deployment record of an environment (profile name)
+ */
+export function getDeployment(manifest: Manifest, env: string): Deployment | undefined {
+  return manifest.deployments?.[env]
+}
+
+/**
+ * Gets the deployed workflow ID of an environment
+ */
+export function getDeployedWorkflowId(manifest: Manifest, env: string): string | undefined {
+  return getDeployment(manifest, env)?.workflowId
+}
+
+/**
+ * Gets the deployed workflow ID of an environment, failing if the
+ * workflow was never deployed there
+ */
+export function requireDeployedWorkflowId(manifest: Manifest, env: string): string {
+  const workflowId = getDeployedWorkflowId(manifest, env)
+  if (!workflowId) {
+    throw new ValidationError(
+      `Workflow "${manifest.slug}" is not deployed to "${env}" yet`,
+      `Deploy first with: cron8n cron deploy ${manifest.slug} --env ${env}`
+    )
+  }
+  return workflowId
+}
+
+/**
+ * Records a deployment for an environment on a manifest in memory
+ */
+export function setDeployment(
+  manifest: Manifest,
+  env: string,
+  workflowId: string,
+  baseUrl?: string,
+  resources: DeploymentResources = {}
+): Manifest {
+  manifest.deployments = {
+    ...manifest.deployments,
+    [env]: {
+      workflowId,
+      deployedAt: getISOTimestamp(),
+      baseUrl,
+      ...(resources.errorWorkflowId ? { errorWorkflowId: resources.errorWorkflowId } : {}),
+      ...(resources.runTriggerCredentialId ? { runTriggerCredentialId: resources.runTriggerCredentialId } : {})
+    }
+  }
+  return manifest
+}
+
+/**
+ * Updates manifest with deployment info for an environment
  */
 export async function updateManifestDeployment(
   slug: string,
+  env: string,
   workflowId: string,
+  baseUrl?: string,
+  basePath?: string,
+  resources: DeploymentResources = {}
+): Promise<Manifest> {
+  const manifest = await loadManifest(slug, basePath)
+  setDeployment(manifest, env, workflowId, baseUrl, resources)
+  await saveManifest(manifest, basePath)
+  return manifest
+}
+
+/**
+ * Updates manifest with the desired activation state
+ */
+export async function updateManifestActive(
+  slug: string,
+  active: boolean,
   basePath?: string
 ): Promise<Manifest> {
   const manifest = await loadManifest(slug, basePath)
-  manifest.lastDeployedWorkflowId = workflowId
-  manifest.lastDeployedAt = getISOTimestamp()
+  manifest.active = active
   await saveManifest(manifest, basePath)
   return manifest
 }
@@ -147,6 +461,19 @@ export async function loadAllManifests(basePath?: string): Promise<Manifest[]> {
   return manifests
 }
 
+/**
+ * Gets the project root of a file in the workflows directory, which may be
+ * nested like "jobs/cron". Files elsewhere are taken to be one level down.
+ */
+function getFileBasePath(file: string): string {
+  const dir = dirname(file)
+  const suffix = join('/', getWorkflowsDirName()).replace(/\/+$/, '')
+  if (dir.endsWith(suffix)) {
+    return dir.slice(0, -suffix.length) || '/'
+  }
+  return dirname(dir)
+}
+
 /**
  * Resolves a slug or path to a manifest
  */
@@ -158,15 +485,15 @@ export async function resolveManifest(slugOrPath: string): Promise<{ manifest: M
     // If it's a .cron8n.json file
     if (resolvedPath.endsWith('.cron8n.json')) {
       const data = await readJson<unknown>(resolvedPath)
-      const manifest = ManifestSchema.parse(data)
-      const basePath = join(resolvedPath, '..', '..')
+      const manifest = parseManifest(data)
+      const basePath = getFileBasePath(resolvedPath)
       return { manifest, basePath }
     }
     
     // If it's a workflow JSON file
     if (resolvedPath.endsWith('.json')) {
       const slug = resolvedPath.replace(/\.json$/, '').split('/').pop()!
-      const basePath = join(resolvedPath, '..', '..')
+      const basePath = getFileBasePath(resolvedPath)
       const manifest = await loadManifest(slug, basePath)
       return { manifest, basePath }
     }
@@ -174,5 +501,5 @@ export async function resolveManifest(slugOrPath: string): Promise<{ manifest: M
 
   // Treat as slug
   const manifest = await loadManifest(slugOrPath)
-  return { manifest, basePath: getCwd() }
+  return { manifest, basePath: getProjectRoot() }
 }
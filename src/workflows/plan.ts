@@ -0,0 +1,260 @@
+import type { N8nClient, N8nWorkflow } from '../api/n8nClient.js'
+import {
+  loadAllManifests,
+  loadWorkflow,
+  getDeployment,
+  getDeployedWorkflowId,
+  getDeployTags,
+  type DeploymentResources,
+  type Manifest
+} from './manifest.js'
+import { groupWorkflows, type WorkflowCronInfo } from './discover.js'
+import { diffWorkflows, type WorkflowDiff } from './diff.js'
+import {
+  ERROR_WORKFLOW_SETTING,
+  createErrorWorkflow,
+  getErrorWorkflowName,
+  removeErrorWorkflow
+} from './alerts.js'
+import { getRunTriggerCredentialId } from './runTrigger.js'
+
+export type PlanActionType = 'create' | 'update' | 'activate' | 'deactivate' | 'delete'
+
+export interface PlanAction {
+  type: PlanActionType
+  slug: string
+  name: string
+  workflowId?: string
+  reason: string
+  /** Generated error workflow and run trigger credential, removed with a deleted workflow */
+  resources?: DeploymentResources
+}
+
+export interface Plan {
+  actions: PlanAction[]
+  summary: Record<PlanActionType, number>
+  unchanged: string[]
+  warnings: string[]
+}
+
+export interface PlanInput {
+  /** Environment (profile name) whose deployments are compared */
+  env: string
+  manifests: Manifest[]
+  /** Local workflow files by slug (missing files are reported as warnings) */
+  localWorkflows: Map<string, N8nWorkflow>
+  /** Managed workflows on the server, as returned by groupWorkflows */
+  managed: WorkflowCronInfo[]
+  /** Full remote workflows by ID */
+  remoteWorkflows: Map<string, N8nWorkflow>
+}
+
+/**
+ * Order in which actions are applied
+ */
+const ACTION_ORDER: PlanActionType[] = ['create', 'update', 'activate', 'deactivate', 'delete']
+
+/**
+ * Loads local manifests and workflow files, and managed workflows from the server
+ */
+export async function loadPlanInput(client: N8nClient, basePath: string, env: string): Promise<PlanInput> {
+  const manifests = await loadAllManifests(basePath)
+  const localWorkflows = new Map<string, N8nWorkflow>()
+
+  for (const manifest of manifests) {
+    try {
+      localWorkflows.set(manifest.slug, await loadWorkflow(manifest.slug, basePath))
+    } catch {
+      // Reported as a warning by createPlan
+    }
+  }
+
+  const workflows = await client.listWorkflows()
+  const { managed } = groupWorkflows(workflows)
+  const remoteWorkflows = new Map(
+    workflows.filter(w => w.id).map(w => [w.id!, w])
+  )
+
+  return { env, manifests, localWorkflows, managed, remoteWorkflows }
+}
+
+/**
+ * Finds the remote workflow for a manifest, by deployed ID first, then by slug tag
+ */
+function findRemote(
+  workflowId: string | undefined,
+  manifest: Manifest,
+  managed: WorkflowCronInfo[]
+): WorkflowCronInfo | undefined {
+  return managed.find(w => w.workflowId === workflowId) ??
+    managed.find(w => w.managedSlug === manifest.slug)
+}
+
+/**
+ * Finds what cron8n created next to a remote workflow: the error workflow
+ * it generated (by name) and the run trigger credential
+ */
+function findRemoteResources(remote: N8nWorkflow | undefined, input: PlanInput): DeploymentResources {
+  if (!remote) {
+    return {}
+  }
+
+  const errorWorkflowId = remote.settings?.[ERROR_WORKFLOW_SETTING]
+  const errorWorkflow = typeof errorWorkflowId === 'string' ? input.remoteWorkflows.get(errorWorkflowId) : undefined
+  const runTriggerCredentialId = getRunTriggerCredentialId(remote)
+
+  return {
+    ...(errorWorkflow?.name === getErrorWorkflowName(remote) ? { errorWorkflowId: errorWorkflow.id } : {}),
+    ...(runTriggerCredentialId ? { runTriggerCredentialId } : {})
+  }
+}
+
+/**
+ * Describes why the deployed error workflow differs from the one generated
+ * for the manifest's alert destination, owner and runbook, if it does
+ */
+function describeAlertDrift(manifest: Manifest, errorWorkflowId: string | undefined, input: PlanInput): string | undefined {
+  if (!manifest.alert) {
+    return errorWorkflowId ? 'alert destination removed' : undefined
+  }
+  if (!errorWorkflowId) {
+    return 'alert destination not deployed'
+  }
+
+  const remote = input.remoteWorkflows.get(errorWorkflowId)
+  if (!remote) {
+    return 'error workflow not found on server'
+  }
+  // Credentials such as the SMTP one of email alerts are chosen in n8n
+  const nodes = remote.nodes.map(({ credentials: _credentials, ...node }) => node)
+  return diffWorkflows(createErrorWorkflow(manifest, manifest.alert), { ...remote, nodes }).hasDrift
+    ? 'alert changed'
+    : undefined
+}
+
+/**
+ * Compares local manifests with managed workflows on the server and
+ * computes the actions needed to bring the server in line
+ */
+export function createPlan(input: PlanInput): Plan {
+  const actions: PlanAction[] = []
+  const unchanged: string[] = []
+  const warnings: string[] = []
+  const matchedIds = new Set<string>()
+
+  for (const manifest of input.manifests) {
+    const deployedId = getDeployedWorkflowId(manifest, input.env)
+    const remoteInfo = findRemote(deployedId, manifest, input.managed)
+    if (remoteInfo) {
+      matchedIds.add(remoteInfo.workflowId)
+    }
+
+    const local = input.localWorkflows.get(manifest.slug)
+    if (!local) {
+      warnings.push(`${manifest.slug}: workflow file not found, skipped`)
+      continue
+    }
+
+    const remote = remoteInfo && input.remoteWorkflows.get(remoteInfo.workflowId)
+    const before = actions.length
+
+    if (!remoteInfo || !remote) {
+      actions.push({
+        type: 'create',
+        slug: manifest.slug,
+        name: local.name,
+        reason: deployedId
+          ? `deployed workflow ${deployedId} not found on server`
+          : 'not deployed yet'
+      })
+      if (manifest.active) {
+        actions.push({ type: 'activate', slug: manifest.slug, name: local.name, reason: 'manifest is active' })
+      }
+      continue
+    }
+
+    const errorWorkflowId = getDeployment(manifest, input.env)?.errorWorkflowId
+    const diff = diffWorkflows(local, removeErrorWorkflow(remote, errorWorkflowId))
+    // Tags are only added on deploy, so only missing ones are drift
+    const missingTags = getDeployTags(manifest).filter(tag => !remote.tags?.some(t => t.name === tag))
+    // The error workflow is only created, updated or removed on deploy
+    const alertDrift = describeAlertDrift(manifest, errorWorkflowId, input)
+    const reasons = [
+      ...(diff.hasDrift ? [describeDrift(diff)] : []),
+      ...(missingTags.length > 0 ? [`missing tags: ${missingTags.join(', ')}`] : []),
+      ...(alertDrift ? [alertDrift] : [])
+    ]
+    if (reasons.length > 0) {
+      actions.push({
+        type: 'update',
+        slug: manifest.slug,
+        name: local.name,
+        workflowId: remoteInfo.workflowId,
+        reason: reasons.join('; ')
+      })
+    }
+
+    if (manifest.active === true && !remoteInfo.active) {
+      actions.push({
+        type: 'activate',
+        slug: manifest.slug,
+        name: local.name,
+        workflowId: remoteInfo.workflowId,
+        reason: 'manifest is active, workflow is inactive'
+      })
+    } else if (manifest.active === false && remoteInfo.active) {
+      actions.push({
+        type: 'deactivate',
+        slug: manifest.slug,
+        name: local.name,
+        workflowId: remoteInfo.workflowId,
+        reason: 'manifest is inactive, workflow is active'
+      })
+    }
+
+    if (actions.length === before) {
+      unchanged.push(manifest.slug)
+    }
+  }
+
+  for (const orphan of input.managed) {
+    if (matchedIds.has(orphan.workflowId)) continue
+    actions.push({
+      type: 'delete',
+      slug: orphan.managedSlug ?? '-',
+      name: orphan.workflowName,
+      workflowId: orphan.workflowId,
+      reason: 'no local manifest',
+      resources: findRemoteResources(input.remoteWorkflows.get(orphan.workflowId), input)
+    })
+  }
+
+  actions.sort((a, b) => ACTION_ORDER.indexOf(a.type) - ACTION_ORDER.indexOf(b.type))
+
+  const summary = Object.fromEntries(
+    ACTION_ORDER.map(type => [type, actions.filter(a => a.type === type).length])
+  ) as Record<PlanActionType, number>
+
+  return { actions, summary, unchanged, warnings }
+}
+
+/**
+ * Describes what changed in a short sentence
+ */
+function describeDrift(diff: WorkflowDiff): string {
+  const parts: string[] = []
+  if (diff.name) parts.push('name')
+  const nodeChanges = diff.nodes.added.length + diff.nodes.removed.length + diff.nodes.changed.length
+  if (nodeChanges > 0) parts.push(`${nodeChanges} node(s)`)
+  if (diff.connections.added.length + diff.connections.removed.length > 0) parts.push('connections')
+  if (diff.schedules.length > 0) parts.push('schedule')
+  if (diff.settings.length > 0) parts.push('settings')
+  return `changed: ${parts.join(', ')}`
+}
+
+/**
+ * Checks if a plan has any actions
+ */
+export function hasChanges(plan: Plan): boolean {
+  return plan.actions.length > 0
+}
@@ -0,0 +1,181 @@
+import type { N8nNode, N8nWorkflow } from '../api/n8nClient.js'
+import { getDeployment, type Manifest } from './manifest.js'
+import { toLocalWorkflow } from './sync.js'
+import { removeErrorWorkflow } from './alerts.js'
+
+export interface PromoteEnvironment {
+  /** Environment (profile) name */
+  env: string
+  baseUrl: string
+}
+
+export interface PromoteChange {
+  node: string
+  path: string
+  from: string
+  to: string
+}
+
+export interface PromoteResult {
+  workflow: N8nWorkflow
+  changes: PromoteChange[]
+  /** Credential references without a mapping for the target environment */
+  unmappedCredentials: string[]
+}
+
+interface Replacement {
+  from: string
+  to: string
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Collects string replacements: the instance URL and every manifest
+ * variable that has a value in both environments
+ */
+function getReplacements(manifest: Manifest, from: PromoteEnvironment, to: PromoteEnvironment): Replacement[] {
+  const replacements: Replacement[] = []
+  const fromUrl = from.baseUrl.replace(/\/$/, '')
+  const toUrl = to.baseUrl.replace(/\/$/, '')
+
+  if (fromUrl !== toUrl) {
+    replacements.push({ from: fromUrl, to: toUrl })
+  }
+
+  for (const values of Object.values(manifest.variables ?? {})) {
+    const fromValue = values[from.env]
+    const toValue = values[to.env]
+    if (fromValue && toValue !== undefined && fromValue !== toValue) {
+      replacements.push({ from: fromValue, to: toValue })
+    }
+  }
+
+  // Longest first, so a value is not partially replaced by a shorter one
+  return replacements.sort((a, b) => b.from.length - a.from.length)
+}
+
+/**
+ * Applies replacements to all strings in a parameter value
+ */
+function rewriteValue(
+  value: unknown,
+  replacements: Replacement[],
+  node: string,
+  path: string,
+  changes: PromoteChange[]
+): unknown {
+  if (typeof value === 'string') {
+    let result = value
+    for (const { from, to } of replacements) {
+      result = result.split(from).join(to)
+    }
+    if (result !== value) {
+      changes.push({ node, path, from: value, to: result })
+    }
+    return result
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) => rewriteValue(item, replacements, node, `${path}[${i}]`, changes))
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        rewriteValue(item, replacements, node, `${path}.${key}`, changes)
+      ])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Points credential references at the target environment's credential IDs,
+ * using the manifest's credential mapping keyed by credential name
+ */
+function rewriteCredentials(
+  node: N8nNode,
+  manifest: Manifest,
+  to: PromoteEnvironment,
+  changes: PromoteChange[],
+  unmapped: string[]
+): N8nNode['credentials'] {
+  if (!node.credentials) return undefined
+
+  const credentials: Record<string, unknown> = {}
+
+  for (const [type, ref] of Object.entries(node.credentials)) {
+    if (!isPlainObject(ref) || typeof ref['name'] !== 'string') {
+      credentials[type] = ref
+      continue
+    }
+
+    const name = ref['name']
+    const targetId = manifest.credentials?.[name]?.[to.env]
+    if (!targetId) {
+      unmapped.push(`${node.name}: ${type} "${name}"`)
+      credentials[type] = ref
+      continue
+    }
+
+    if (ref['id'] !== targetId) {
+      changes.push({
+        node: node.name,
+        path: `credentials.${type}.id`,
+        from: String(ref['id'] ?? ''),
+        to: targetId
+      })
+    }
+    credentials[type] = { ...ref, id: targetId }
+  }
+
+  return credentials
+}
+
+/**
+ * Prepares a workflow deployed in one environment for another by rewriting
+ * the instance URL, manifest variables and credential IDs
+ */
+export function promoteWorkflow(
+  remote: N8nWorkflow,
+  manifest: Manifest,
+  from: PromoteEnvironment,
+  to: PromoteEnvironment
+): PromoteResult {
+  // The target environment gets its own error workflow on deploy
+  const workflow = toLocalWorkflow(removeErrorWorkflow(remote, getDeployment(manifest, from.env)?.errorWorkflowId))
+  const replacements = getReplacements(manifest, from, to)
+  const changes: PromoteChange[] = []
+  const unmappedCredentials: string[] = []
+
+  const nodes = workflow.nodes.map(node => {
+    const promoted: N8nNode = {
+      ...node,
+      parameters: rewriteValue(
+        node.parameters ?? {},
+        replacements,
+        node.name,
+        'parameters',
+        changes
+      ) as Record<string, unknown>
+    }
+
+    const credentials = rewriteCredentials(node, manifest, to, changes, unmappedCredentials)
+    if (credentials) {
+      promoted.credentials = credentials
+    }
+
+    return promoted
+  })
+
+  return {
+    workflow: { ...workflow, nodes },
+    changes,
+    unmappedCredentials
+  }
+}
@@ -0,0 +1,124 @@
+import { createHmac } from 'node:crypto'
+import type { N8nNode, N8nWorkflow, CreateCredentialOptions } from '../api/n8nClient.js'
+import { isCronNode } from './discover.js'
+import { generateSlug } from '../utils/slug.js'
+
+/**
+ * Name of the webhook node cron8n injects to run workflows on demand
+ */
+export const RUN_TRIGGER_NODE_NAME = 'cron8n Run Trigger'
+
+/**
+ * Header carrying the token the run trigger webhook checks
+ */
+export const RUN_TRIGGER_HEADER = 'X-Cron8n-Token'
+
+/**
+ * n8n credential the run trigger webhook authenticates calls with
+ */
+export interface RunTriggerCredential {
+  id: string
+  name: string
+}
+
+/**
+ * Creates a hard-to-guess webhook path for a workflow
+ */
+export function createRunTriggerPath(slug: string): string {
+  return `cron8n-${slug}-${generateSlug(16)}`
+}
+
+/**
+ * Derives the run trigger token from the profile's secret, so every
+ * machine logged in with the same key can call the webhook without the
+ * token being stored anywhere
+ */
+export function createRunTriggerToken(secret: string, path: string): string {
+  return createHmac('sha256', secret).update(path).digest('hex')
+}
+
+/**
+ * Creates the header auth credential checking the run trigger token
+ */
+export function createRunTriggerCredential(path: string, token: string): CreateCredentialOptions {
+  return {
+    name: `cron8n Run Trigger ${path}`,
+    type: 'httpHeaderAuth',
+    data: { name: RUN_TRIGGER_HEADER, value: token }
+  }
+}
+
+/**
+ * Checks if a node is the injected run trigger
+ */
+export function isRunTriggerNode(node: N8nNode): boolean {
+  return node.name === RUN_TRIGGER_NODE_NAME
+}
+
+/**
+ * Gets the ID of the credential the injected run trigger authenticates with
+ */
+export function getRunTriggerCredentialId(workflow: N8nWorkflow): string | undefined {
+  const credential = workflow.nodes.find(isRunTriggerNode)?.credentials?.['httpHeaderAuth'] as { id?: string } | undefined
+  return credential?.id
+}
+
+/**
+ * Removes the injected run trigger and its connections from a workflow
+ */
+export function removeRunTrigger(workflow: N8nWorkflow): N8nWorkflow {
+  const connections = { ...workflow.connections }
+  delete connections[RUN_TRIGGER_NODE_NAME]
+
+  return {
+    ...workflow,
+    nodes: workflow.nodes.filter(node => !isRunTriggerNode(node)),
+    connections
+  }
+}
+
+/**
+ * Creates the webhook node used to run a workflow on demand
+ */
+function createRunTriggerNode(path: string, credential: RunTriggerCredential, position: number[]): N8nNode {
+  return {
+    id: 'cron8n-run-trigger',
+    name: RUN_TRIGGER_NODE_NAME,
+    type: 'n8n-nodes-base.webhook',
+    typeVersion: 2,
+    position: [position[0] ?? 250, (position[1] ?? 300) + 200],
+    parameters: {
+      httpMethod: 'POST',
+      path,
+      authentication: 'headerAuth',
+      responseMode: 'onReceived',
+      options: {}
+    },
+    credentials: {
+      httpHeaderAuth: { id: credential.id, name: credential.name }
+    }
+  }
+}
+
+/**
+ * Adds a webhook trigger wired to the same nodes as the schedule trigger,
+ * so the workflow can be started on demand with `cron8n cron run`. Calls
+ * must send the token checked by the credential.
+ */
+export function injectRunTrigger(workflow: N8nWorkflow, path: string, credential: RunTriggerCredential): N8nWorkflow {
+  const { nodes, connections } = removeRunTrigger(workflow)
+
+  const cronNode = nodes.find(isCronNode)
+  if (!cronNode) {
+    return { ...workflow, nodes, connections }
+  }
+
+  nodes.push(createRunTriggerNode(path, credential, cronNode.position))
+
+  const cronConnections = connections[cronNode.name]
+  if (cronConnections) {
+    connections[RUN_TRIGGER_NODE_NAME] = structuredClone(cronConnections)
+  }
+
+  return { ...workflow, nodes, connections }
+}
@@ -0,0 +1,106 @@
+import type { N8nWorkflow } from '../api/n8nClient.js'
+import { getSchedules, setSchedules, type Manifest, type Schedule } from './manifest.js'
+import { isCronNode, extractSchedules, extractTimezone } from './discover.js'
+import { removeRunTrigger } from './runTrigger.js'
+import { applySchedules } from './templates.js'
+
+export interface ManifestUpdate {
+  field: 'name' | 'cronExpression' | 'timezone' | 'additionalSchedules'
+  from: string
+  to: string
+}
+
+/**
+ * Converts a remote workflow into the local file format,
+ * dropping server-managed fields and the injected run trigger
+ */
+export function toLocalWorkflow(remote: N8nWorkflow): N8nWorkflow {
+  const workflow = removeRunTrigger(remote)
+
+  return {
+    name: workflow.name,
+    active: workflow.active,
+    nodes: workflow.nodes,
+    connections: workflow.connections,
+    settings: workflow.settings
+  }
+}
+
+/**
+ * Gets the schedules of a workflow's cron nodes that can be written as
+ * cron expressions, in node order. Nodes without a timezone use the
+ * given one.
+ */
+export function getWorkflowSchedules(workflow: N8nWorkflow, defaultTimezone: string): Schedule[] {
+  return workflow.nodes.filter(isCronNode).flatMap(node => {
+    const timezone = extractTimezone(node) ?? defaultTimezone
+    return extractSchedules(node).flatMap(({ cronExpression }) =>
+      cronExpression ? [{ cronExpression, timezone }] : []
+    )
+  })
+}
+
+// Trigger nodes group schedules by timezone, so their order is not kept
+function formatSchedules(schedules: Schedule[]): string {
+  return schedules.length > 0
+    ? schedules.map(s => `${s.cronExpression}@${s.timezone}`).sort().join(', ')
+    : '(none)'
+}
+
+/**
+ * Updates manifest name and schedules from a workflow's cron nodes: the
+ * first schedule becomes the primary one, the rest the additional ones.
+ * Returns the fields that changed.
+ */
+export function syncManifestFromWorkflow(manifest: Manifest, workflow: N8nWorkflow): ManifestUpdate[] {
+  const updates: ManifestUpdate[] = []
+  const [primary, ...additional] = getWorkflowSchedules(workflow, manifest.timezone)
+
+  const next = {
+    name: workflow.name,
+    cronExpression: primary?.cronExpression,
+    timezone: primary?.timezone
+  }
+
+  for (const field of ['name', 'cronExpression', 'timezone'] as const) {
+    const value = next[field]
+    if (value && value !== manifest[field]) {
+      updates.push({ field, from: manifest[field], to: value })
+      manifest[field] = value
+    }
+  }
+
+  // Without any cron schedule the manifest keeps its own
+  const from = formatSchedules(manifest.additionalSchedules ?? [])
+  const to = formatSchedules(additional)
+  if (primary && from !== to) {
+    updates.push({ field: 'additionalSchedules', from, to })
+    if (additional.length > 0) {
+      manifest.additionalSchedules = additional
+    } else {
+      delete manifest.additionalSchedules
+    }
+  }
+
+  return updates
+}
+
+/**
+ * Changes the primary schedule of a manifest and rewrites the Schedule
+ * Trigger nodes of its workflow to match. Additional schedules keep their
+ * own timezone; legacy Cron nodes are left alone, as in "cron8n edit".
+ */
+export function updatePrimarySchedule(
+  manifest: Manifest,
+  workflow: N8nWorkflow,
+  change: Partial<Schedule>
+): Schedule[] {
+  const [primary, ...additional] = getSchedules(manifest)
+  const schedules = [{ ...primary!, ...change }, ...additional]
+
+  setSchedules(manifest, schedules)
+  if (workflow.nodes.some(n => n.type === 'n8n-nodes-base.scheduleTrigger')) {
+    applySchedules(workflow, schedules)
+  }
+  return schedules
+}
@@ -1,92 +1,413 @@
 import type { N8nNode, N8nWorkflow } from '../api/n8nClient.js'
+import type { Schedule } from './manifest.js'
+import { normalizeCronExpression } from '../utils/time.js'
+import { ValidationError } from '../utils/errors.js'
 
-export type TemplateName = 'cron-only' | 'shell-command' | 'http-request' | 'webhook-call'
+export type BuiltinTemplateName =
+  | 'cron-only'
+  | 'shell-command'
+  | 'http-request'
+  | 'webhook-call'
+  | 'database-query'
+  | 'health-check'
+  | 'digest'
+  | 'backup'
+  | 'feed-poll'
+  | 'sub-workflow'
+
+/**
+ * Built-in template name, or the directory name of a user template
+ */
+export type TemplateName = string
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'] as const
+
+export const HTTP_AUTH_TYPES = ['none', 'basic', 'header', 'query', 'digest', 'bearer'] as const
+
+export type HttpAuthType = typeof HTTP_AUTH_TYPES[number]
+
+/**
+ * n8n generic credential types for each auth type. The credential itself
+ * is selected in n8n after deploying.
+ */
+const HTTP_AUTH_CREDENTIAL_TYPES: Record<Exclude<HttpAuthType, 'none'>, string> = {
+  basic: 'httpBasicAuth',
+  header: 'httpHeaderAuth',
+  query: 'httpQueryAuth',
+  digest: 'httpDigestAuth',
+  bearer: 'httpBearerAuth'
+}
 
 export interface TemplateOptions {
   shellCommand?: string
   httpUrl?: string
   httpMethod?: string
+  httpHeaders?: Record<string, string>
+  httpQuery?: Record<string, string>
+  /** JSON request body */
+  httpBody?: string
+  httpAuth?: HttpAuthType
+  /** Request timeout in milliseconds */
+  httpTimeout?: number
   webhookUrl?: string
+  dbType?: 'postgres' | 'mysql'
+  dbQuery?: string
+  /** Export of query results to a file, or none */
+  exportFormat?: 'csv' | 'json' | 'none'
+  exportPath?: string
+  healthCheckUrl?: string
+  /** Status code a healthy endpoint returns */
+  healthCheckStatus?: number
+  /** Webhook (e.g. Slack incoming webhook) called when a health check fails */
+  alertWebhookUrl?: string
+  digestSourceUrl?: string
+  digestChannel?: 'slack' | 'email'
+  slackChannel?: string
+  emailTo?: string
+  emailFrom?: string
+  digestSubject?: string
+  /** Files to back up, as a path or glob */
+  backupSource?: string
+  backupTarget?: 's3' | 'file'
+  backupBucket?: string
+  backupDirectory?: string
+  pollSource?: 'rss' | 'api'
+  pollUrl?: string
+  /** Item field used to recognize items seen in earlier runs */
+  pollIdField?: string
+  subWorkflowId?: string
+  /** Wait for the sub-workflow to finish */
+  subWorkflowWait?: boolean
+  /** Schedules in addition to the primary cron expression and timezone */
+  additionalSchedules?: Schedule[]
+  /** Values for the options a user template declares, by key */
+  values?: Record<string, string>
+}
+
+/**
+ * An option a template asks for when creating a workflow
+ */
+export interface TemplateOptionConfig {
+  key: string
+  message: string
+  default?: string
+  required?: boolean
+}
+
+export type TemplateFieldName =
+  | 'dbType' | 'dbQuery' | 'exportFormat' | 'exportPath'
+  | 'healthCheckUrl' | 'healthCheckStatus' | 'alertWebhookUrl'
+  | 'digestSourceUrl' | 'digestChannel' | 'slackChannel' | 'emailTo' | 'emailFrom' | 'digestSubject'
+  | 'backupSource' | 'backupTarget' | 'backupBucket' | 'backupDirectory'
+  | 'pollSource' | 'pollUrl' | 'pollIdField'
+  | 'subWorkflowId' | 'subWorkflowWait'
+
+/**
+ * A TemplateOptions field of a built-in template, which becomes a cron new
+ * flag (--db-type for dbType), a prompt and a field in the web UI
+ */
+export interface TemplateField {
+  name: TemplateFieldName
+  label: string
+  type: 'text' | 'select' | 'number' | 'boolean'
+  choices?: string[]
+  default?: string | number | boolean
+  required?: boolean
+  /** Only used when another field has one of these values */
+  when?: { field: TemplateFieldName; oneOf: string[] }
 }
 
 export interface TemplateConfig {
   name: string
   description: string
+  /** Options prompted for on creation (user templates) */
+  options?: TemplateOptionConfig[]
+  /** TemplateOptions fields prompted for on creation (built-in templates) */
+  fields?: TemplateField[]
+  /** Directory a user template was loaded from */
+  source?: string
   create: (workflowName: string, cronExpression: string, timezone: string, options?: TemplateOptions) => N8nWorkflow
 }
 
+export type TemplateSet = Record<TemplateName, TemplateConfig>
+
+const SCHEDULE_TRIGGER_TYPE = 'n8n-nodes-base.scheduleTrigger'
+
+/**
+ * Schedules sharing a timezone, which become the intervals of one trigger node
+ */
+interface ScheduleGroup {
+  timezone: string
+  expressions: string[]
+}
+
+/**
+ * Groups schedules by timezone, since a Schedule Trigger node has a single timezone
+ */
+function groupSchedules(schedules: Schedule[]): ScheduleGroup[] {
+  const groups: ScheduleGroup[] = []
+  for (const { cronExpression, timezone } of schedules) {
+    const group = groups.find(g => g.timezone === timezone)
+    if (group) {
+      group.expressions.push(cronExpression)
+    } else {
+      groups.push({ timezone, expressions: [cronExpression] })
+    }
+  }
+  return groups
+}
+
+function createScheduleParameters(group: ScheduleGroup): Record<string, unknown> {
+  return {
+    rule: {
+      interval: group.expressions.map(expression => ({
+        field: 'cronExpression',
+        expression: normalizeCronExpression(expression)
+      }))
+    },
+    options: {
+      timezone: group.timezone
+    }
+  }
+}
+
 /**
  * Creates a Cron/Schedule Trigger node
  */
-function createCronNode(cronExpression: string, timezone: string): N8nNode {
+function createCronNode(group: ScheduleGroup, index = 0): N8nNode {
   return {
-    id: 'cron-trigger',
-    name: 'Schedule Trigger',
-    type: 'n8n-nodes-base.scheduleTrigger',
+    id: index === 0 ? 'cron-trigger' : `cron-trigger-${index + 1}`,
+    name: index === 0 ? 'Schedule Trigger' : `Schedule Trigger ${index + 1}`,
+    type: SCHEDULE_TRIGGER_TYPE,
     typeVersion: 1.2,
-    position: [250, 300],
-    parameters: {
-      rule: {
-        interval: [
-          {
-            field: 'cronExpression',
-            expression: cronExpression
-          }
-        ]
-      },
-      options: {
-        timezone
+    position: [250, 300 + index * 200],
+    parameters: createScheduleParameters(group)
+  }
+}
+
+/**
+ * Creates the Schedule Trigger node of a user template. Its schedule is a
+ * placeholder that applySchedules replaces when a workflow is created.
+ */
+export function createTemplateCronNode(name: string, position: number[]): N8nNode {
+  const { id: _id, ...node } = createCronNode({ timezone: 'UTC', expressions: ['0 * * * *'] })
+  return { ...node, name, position }
+}
+
+/**
+ * Creates a workflow where every schedule trigger runs the action nodes,
+ * which are chained in order through their first output
+ */
+function createScheduledWorkflow(
+  workflowName: string,
+  schedules: Schedule[],
+  actionNodes: N8nNode | N8nNode[]
+): N8nWorkflow {
+  const triggers = groupSchedules(schedules).map((group, index) => createCronNode(group, index))
+  const actions = (Array.isArray(actionNodes) ? actionNodes : [actionNodes])
+    .map((node, index) => ({ ...node, position: [500 + index * 250, 300] }))
+  const first = actions[0]!
+
+  return {
+    name: workflowName,
+    active: false,
+    nodes: [...triggers, ...actions],
+    connections: Object.fromEntries([
+      ...triggers.map(trigger => [
+        trigger.name,
+        { main: [[{ node: first.name, type: 'main', index: 0 }]] }
+      ]),
+      ...actions.slice(1).map((node, index) => [
+        actions[index]!.name,
+        { main: [[{ node: node.name, type: 'main', index: 0 }]] }
+      ])
+    ]),
+    settings: {
+      executionOrder: 'v1'
+    }
+  }
+}
+
+function getTemplateSchedules(cronExpression: string, timezone: string, options?: TemplateOptions): Schedule[] {
+  return [{ cronExpression, timezone }, ...(options?.additionalSchedules ?? [])]
+}
+
+/**
+ * Rewrites the Schedule Trigger nodes of a workflow to match the given schedules.
+ * Existing trigger nodes are updated in place; added ones are wired like the first
+ * trigger and surplus ones are removed.
+ */
+export function applySchedules(workflow: N8nWorkflow, schedules: Schedule[]): N8nWorkflow {
+  const groups = groupSchedules(schedules)
+  const triggers = workflow.nodes.filter(n => n.type === SCHEDULE_TRIGGER_TYPE)
+  const firstConnections = triggers[0] ? workflow.connections[triggers[0].name] : undefined
+  const names = new Set(workflow.nodes.map(n => n.name))
+
+  groups.forEach((group, index) => {
+    const existing = triggers[index]
+    if (existing) {
+      const options = existing.parameters?.['options'] as Record<string, unknown> | undefined
+      existing.parameters = {
+        ...existing.parameters,
+        rule: createScheduleParameters(group)['rule'],
+        options: { ...options, timezone: group.timezone }
       }
+      return
+    }
+
+    const node = createCronNode(group, index)
+    for (let suffix = index + 1; names.has(node.name); suffix++) {
+      node.name = `Schedule Trigger ${suffix + 1}`
+      node.id = `cron-trigger-${suffix + 1}`
+    }
+    names.add(node.name)
+    workflow.nodes.push(node)
+    if (firstConnections) {
+      workflow.connections[node.name] = structuredClone(firstConnections)
+    }
+  })
+
+  for (const removed of triggers.slice(groups.length)) {
+    workflow.nodes = workflow.nodes.filter(n => n !== removed)
+    delete workflow.connections[removed.name]
+  }
+
+  return workflow
+}
+
+/**
+ * Checks the HTTP options of the http-request and webhook-call templates.
+ * URLs and bodies starting with "=" are n8n expressions and not checked.
+ */
+export function validateHttpOptions(options: TemplateOptions): void {
+  for (const [label, url] of [['URL', options.httpUrl], ['webhook URL', options.webhookUrl]] as const) {
+    if (url === undefined || url.startsWith('=')) continue
+    let protocol: string
+    try {
+      protocol = new URL(url).protocol
+    } catch {
+      throw new ValidationError(`Invalid ${label}: ${url}`, 'Use a full URL, e.g. https://api.example.com/items')
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new ValidationError(`Invalid ${label}: ${url}`, 'Only http and https URLs are supported')
     }
   }
+
+  if (options.httpMethod !== undefined && !(HTTP_METHODS as readonly string[]).includes(options.httpMethod)) {
+    throw new ValidationError(`Invalid HTTP method: ${options.httpMethod}`, `Use one of: ${HTTP_METHODS.join(', ')}`)
+  }
+
+  if (options.httpAuth !== undefined && !HTTP_AUTH_TYPES.includes(options.httpAuth)) {
+    throw new ValidationError(`Invalid auth type: ${options.httpAuth}`, `Use one of: ${HTTP_AUTH_TYPES.join(', ')}`)
+  }
+
+  if (options.httpBody !== undefined && !options.httpBody.startsWith('=')) {
+    try {
+      JSON.parse(options.httpBody)
+    } catch {
+      throw new ValidationError('Invalid request body', 'The body must be valid JSON')
+    }
+  }
+
+  if (options.httpTimeout !== undefined && !(Number.isInteger(options.httpTimeout) && options.httpTimeout > 0)) {
+    throw new ValidationError(`Invalid timeout: ${options.httpTimeout}`, 'The timeout is a positive number of milliseconds')
+  }
+
+  for (const [label, values] of [['header', options.httpHeaders], ['query parameter', options.httpQuery]] as const) {
+    if (values && Object.keys(values).some(name => !name.trim())) {
+      throw new ValidationError(`Invalid ${label}: the name is empty`)
+    }
+  }
+}
+
+function toParameterList(values: Record<string, string>): { parameters: Array<{ name: string; value: string }> } {
+  return { parameters: Object.entries(values).map(([name, value]) => ({ name, value })) }
+}
+
+/**
+ * Creates HTTP Request node parameters for the method, URL and the
+ * optional headers, query, JSON body, auth and timeout
+ */
+function createHttpParameters(
+  method: string,
+  url: string,
+  options: TemplateOptions = {},
+  defaultBody?: Record<string, unknown>
+): Record<string, unknown> {
+  const parameters: Record<string, unknown> = { method, url }
+
+  if (options.httpAuth && options.httpAuth !== 'none') {
+    parameters['authentication'] = 'genericCredentialType'
+    parameters['genericAuthType'] = HTTP_AUTH_CREDENTIAL_TYPES[options.httpAuth]
+  }
+  if (options.httpQuery && Object.keys(options.httpQuery).length > 0) {
+    parameters['sendQuery'] = true
+    parameters['queryParameters'] = toParameterList(options.httpQuery)
+  }
+  if (options.httpHeaders && Object.keys(options.httpHeaders).length > 0) {
+    parameters['sendHeaders'] = true
+    parameters['headerParameters'] = toParameterList(options.httpHeaders)
+  }
+  if (options.httpBody !== undefined) {
+    parameters['sendBody'] = true
+    parameters['specifyBody'] = 'json'
+    parameters['jsonBody'] = options.httpBody
+  } else if (defaultBody) {
+    Object.assign(parameters, defaultBody)
+  }
+
+  parameters['options'] = options.httpTimeout ? { timeout: options.httpTimeout } : {}
+  return parameters
 }
 
 /**
  * Creates an HTTP Request node
  */
-function createHttpRequestNode(): N8nNode {
+function createHttpRequestNode(options?: TemplateOptions): N8nNode {
   return {
     id: 'http-request',
     name: 'HTTP Request',
     type: 'n8n-nodes-base.httpRequest',
     typeVersion: 4.2,
     position: [500, 300],
-    parameters: {
-      method: 'GET',
-      url: 'https://api.example.com/endpoint',
-      options: {}
-    }
+    parameters: createHttpParameters(
+      options?.httpMethod ?? 'GET',
+      options?.httpUrl ?? 'https://api.example.com/endpoint',
+      options
+    )
   }
 }
 
 /**
  * Creates a Webhook node for calling external webhooks
  */
-function createWebhookCallNode(): N8nNode {
+function createWebhookCallNode(options?: TemplateOptions): N8nNode {
   return {
     id: 'webhook-call',
     name: 'Webhook Call',
     type: 'n8n-nodes-base.httpRequest',
     typeVersion: 4.2,
     position: [500, 300],
-    parameters: {
-      method: 'POST',
-      url: 'https://example.com/webhook',
-      sendBody: true,
-      bodyParameters: {
-        parameters: [
-          {
-            name: 'event',
-            value: 'cron_triggered'
-          },
-          {
-            name: 'timestamp',
-            value: '={{ $now.toISO() }}'
-          }
-        ]
-      },
-      options: {}
-    }
+    parameters: createHttpParameters(
+      options?.httpMethod ?? 'POST',
+      options?.webhookUrl ?? 'https://example.com/webhook',
+      options,
+      {
+        sendBody: true,
+        bodyParameters: {
+          parameters: [
+            {
+              name: 'event',
+              value: 'cron_triggered'
+            },
+            {
+              name: 'timestamp',
+              value: '={{ $now.toISO() }}'
+            }
+          ]
+        }
+      }
+    )
   }
 }
 
@@ -120,124 +441,575 @@ function createExecuteCommandNode(command?: string): N8nNode {
   }
 }
 
+/**
+ * Creates a Postgres or MySQL node running a query
+ */
+function createDatabaseQueryNode(options?: TemplateOptions): N8nNode {
+  const isMySql = options?.dbType === 'mysql'
+  return {
+    id: 'database-query',
+    name: isMySql ? 'MySQL Query' : 'Postgres Query',
+    type: isMySql ? 'n8n-nodes-base.mySql' : 'n8n-nodes-base.postgres',
+    typeVersion: isMySql ? 2.4 : 2.5,
+    position: [500, 300],
+    parameters: {
+      operation: 'executeQuery',
+      query: options?.dbQuery || 'SELECT 1',
+      options: {}
+    }
+  }
+}
+
+/**
+ * Creates the nodes that write query results to a CSV or JSON file
+ */
+function createExportNodes(options?: TemplateOptions): N8nNode[] {
+  const format = options?.exportFormat ?? 'csv'
+  if (format === 'none') return []
+
+  return [
+    {
+      id: 'convert-to-file',
+      name: 'Convert to File',
+      type: 'n8n-nodes-base.convertToFile',
+      typeVersion: 1.1,
+      position: [750, 300],
+      parameters: format === 'csv'
+        ? { operation: 'csv', options: {} }
+        : { operation: 'toJson', mode: 'once', options: {} }
+    },
+    {
+      id: 'write-file',
+      name: 'Write File',
+      type: 'n8n-nodes-base.readWriteFile',
+      typeVersion: 1,
+      position: [1000, 300],
+      parameters: {
+        operation: 'write',
+        fileName: options?.exportPath || `=/data/exports/query-{{ $now.toFormat('yyyyMMdd-HHmm') }}.${format}`,
+        dataPropertyName: 'data',
+        options: {}
+      }
+    }
+  ]
+}
+
+/**
+ * Creates the nodes of an HTTP health check that calls an alert webhook
+ * when the endpoint does not return the expected status or cannot be reached
+ */
+function createHealthCheckNodes(options?: TemplateOptions): N8nNode[] {
+  const url = options?.healthCheckUrl || 'https://example.com/health'
+  const status = options?.healthCheckStatus ?? 200
+
+  return [
+    {
+      id: 'health-check',
+      name: 'Health Check',
+      type: 'n8n-nodes-base.httpRequest',
+      typeVersion: 4.2,
+      position: [500, 300],
+      parameters: {
+        method: 'GET',
+        url,
+        options: {
+          // Report failures through the IF node instead of failing the execution
+          response: { response: { fullResponse: true, neverError: true } },
+          timeout: 10000
+        }
+      },
+      // Connection errors and timeouts go on as items without a status code
+      onError: 'continueRegularOutput'
+    },
+    {
+      id: 'is-unhealthy',
+      name: 'Is Unhealthy',
+      type: 'n8n-nodes-base.if',
+      typeVersion: 2,
+      position: [750, 300],
+      parameters: {
+        conditions: {
+          options: { caseSensitive: true, leftValue: '', typeValidation: 'loose' },
+          conditions: [
+            {
+              id: 'unreachable-check',
+              leftValue: '={{ $json.statusCode }}',
+              rightValue: '',
+              operator: { type: 'number', operation: 'notExists', singleValue: true }
+            },
+            {
+              id: 'status-check',
+              leftValue: '={{ $json.statusCode }}',
+              rightValue: status,
+              operator: { type: 'number', operation: 'notEquals' }
+            }
+          ],
+          combinator: 'or'
+        },
+        options: {}
+      }
+    },
+    {
+      id: 'send-alert',
+      name: 'Send Alert',
+      type: 'n8n-nodes-base.httpRequest',
+      typeVersion: 4.2,
+      position: [1000, 300],
+      parameters: {
+        method: 'POST',
+        url: options?.alertWebhookUrl || 'https://hooks.example.com/alerts',
+        sendBody: true,
+        specifyBody: 'json',
+        jsonBody: `={{ JSON.stringify({ text: 'Health check failed for ' + ${JSON.stringify(url)} + ': status ' + ($json.statusCode ?? 'unreachable') }) }}`,
+        options: {}
+      }
+    }
+  ]
+}
+
+// Digest message listing the aggregated items
+const DIGEST_ITEMS = "{{ $json.items.length }} new item(s):\n" +
+  "{{ $json.items.map(item => '• ' + (item.title ?? item.name ?? JSON.stringify(item))).join('\\n') }}"
+
+/**
+ * Creates the nodes of a digest that fetches items and posts them to
+ * Slack or sends them by email
+ */
+function createDigestNodes(options?: TemplateOptions): N8nNode[] {
+  const subject = options?.digestSubject || 'Daily digest'
+  const send: N8nNode = options?.digestChannel === 'email'
+    ? {
+        id: 'send-email',
+        name: 'Send Email',
+        type: 'n8n-nodes-base.emailSend',
+        typeVersion: 2.1,
+        position: [1000, 300],
+        parameters: {
+          fromEmail: options.emailFrom || 'cron8n@example.com',
+          toEmail: options.emailTo || 'team@example.com',
+          subject,
+          emailFormat: 'text',
+          text: `=${DIGEST_ITEMS}`,
+          options: {}
+        }
+      }
+    : {
+        id: 'post-to-slack',
+        name: 'Post to Slack',
+        type: 'n8n-nodes-base.slack',
+        typeVersion: 2.2,
+        position: [1000, 300],
+        parameters: {
+          select: 'channel',
+          channelId: { __rl: true, value: options?.slackChannel || '#general', mode: 'name' },
+          text: `=*${subject}*\n${DIGEST_ITEMS}`,
+          otherOptions: {}
+        }
+      }
+
+  return [
+    {
+      id: 'fetch-items',
+      name: 'Fetch Items',
+      type: 'n8n-nodes-base.httpRequest',
+      typeVersion: 4.2,
+      position: [500, 300],
+      parameters: {
+        method: 'GET',
+        url: options?.digestSourceUrl || 'https://api.example.com/items',
+        options: {}
+      }
+    },
+    {
+      id: 'aggregate-items',
+      name: 'Aggregate Items',
+      type: 'n8n-nodes-base.aggregate',
+      typeVersion: 1,
+      position: [750, 300],
+      parameters: {
+        aggregate: 'aggregateAllItemData',
+        destinationFieldName: 'items',
+        options: {}
+      }
+    },
+    send
+  ]
+}
+
+/**
+ * Creates the nodes that read files from disk and upload them to S3 or
+ * copy them to a dated backup directory
+ */
+function createBackupNodes(options?: TemplateOptions): N8nNode[] {
+  const datedName = "{{ $now.toFormat('yyyy-MM-dd') }}/{{ $binary.data.fileName }}"
+  const store: N8nNode = options?.backupTarget === 's3'
+    ? {
+        id: 'upload-to-s3',
+        name: 'Upload to S3',
+        type: 'n8n-nodes-base.awsS3',
+        typeVersion: 2,
+        position: [750, 300],
+        parameters: {
+          operation: 'upload',
+          bucketName: options.backupBucket || 'backups',
+          fileName: `=${datedName}`,
+          additionalFields: {}
+        }
+      }
+    : {
+        id: 'write-backup',
+        name: 'Write Backup',
+        type: 'n8n-nodes-base.readWriteFile',
+        typeVersion: 1,
+        position: [750, 300],
+        parameters: {
+          operation: 'write',
+          fileName: `=${(options?.backupDirectory || '/backups').replace(/\/+$/, '')}/${datedName}`,
+          dataPropertyName: 'data',
+          options: {}
+        }
+      }
+
+  return [
+    {
+      id: 'read-files',
+      name: 'Read Files',
+      type: 'n8n-nodes-base.readWriteFile',
+      typeVersion: 1,
+      position: [500, 300],
+      parameters: {
+        operation: 'read',
+        fileSelector: options?.backupSource || '/data/*.db',
+        options: {}
+      }
+    },
+    store
+  ]
+}
+
+/**
+ * Creates the nodes that poll an RSS feed or API and pass on only items
+ * not seen in earlier runs, remembered in the workflow's static data
+ */
+function createFeedPollNodes(options?: TemplateOptions): N8nNode[] {
+  const isApi = options?.pollSource === 'api'
+  const url = options?.pollUrl || (isApi ? 'https://api.example.com/items' : 'https://example.com/feed.xml')
+  const idField = options?.pollIdField || (isApi ? 'id' : 'guid')
+
+  return [
+    isApi
+      ? {
+          id: 'fetch-items',
+          name: 'Fetch Items',
+          type: 'n8n-nodes-base.httpRequest',
+          typeVersion: 4.2,
+          position: [500, 300],
+          parameters: { method: 'GET', url, options: {} }
+        }
+      : {
+          id: 'read-feed',
+          name: 'Read Feed',
+          type: 'n8n-nodes-base.rssFeedRead',
+          typeVersion: 1.1,
+          position: [500, 300],
+          parameters: { url, options: {} }
+        },
+    {
+      id: 'only-new-items',
+      name: 'Only New Items',
+      type: 'n8n-nodes-base.code',
+      typeVersion: 2,
+      position: [750, 300],
+      parameters: {
+        jsCode: [
+          '// Static data is only saved for executions of the active workflow',
+          "const staticData = $getWorkflowStaticData('global');",
+          'const seen = new Set(staticData.seenIds ?? []);',
+          'const newItems = $input.all().filter(item => {',
+          `  const id = String(item.json[${JSON.stringify(idField)}] ?? JSON.stringify(item.json));`,
+          '  if (seen.has(id)) return false;',
+          '  seen.add(id);',
+          '  return true;',
+          '});',
+          '// Keep the latest ids so static data stays small',
+          'staticData.seenIds = [...seen].slice(-1000);',
+          'return newItems;'
+        ].join('\n')
+      }
+    },
+    {
+      id: 'process-items',
+      name: 'Process New Items',
+      type: 'n8n-nodes-base.noOp',
+      typeVersion: 1,
+      position: [1000, 300],
+      parameters: {}
+    }
+  ]
+}
+
+/**
+ * Creates an Execute Workflow node calling another workflow by ID
+ */
+function createSubWorkflowNode(options?: TemplateOptions): N8nNode {
+  return {
+    id: 'execute-workflow',
+    name: 'Execute Workflow',
+    type: 'n8n-nodes-base.executeWorkflow',
+    typeVersion: 1.2,
+    position: [500, 300],
+    parameters: {
+      workflowId: { __rl: true, value: options?.subWorkflowId || '', mode: 'id' },
+      options: { waitForSubWorkflow: options?.subWorkflowWait ?? true }
+    }
+  }
+}
+
 /**
  * Available workflow templates
  */
-export const TEMPLATES: Record<TemplateName, TemplateConfig> = {
+export const TEMPLATES: Record<BuiltinTemplateName, TemplateConfig> = {
   'cron-only': {
     name: 'Cron Only',
     description: 'A simple workflow with just a cron trigger (useful as a starting point)',
-    create: (workflowName, cronExpression, timezone) => ({
-      name: workflowName,
-      active: false,
-      nodes: [
-        createCronNode(cronExpression, timezone),
-        createNoOpNode()
-      ],
-      connections: {
-        'Schedule Trigger': {
-          main: [
-            [{ node: 'No Operation', type: 'main', index: 0 }]
-          ]
-        }
-      },
-      settings: {
-        executionOrder: 'v1'
-      }
-    })
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createNoOpNode()
+    )
   },
 
   'shell-command': {
     name: 'Shell Command',
     description: 'Cron trigger that executes a shell command on the n8n server',
-    create: (workflowName, cronExpression, timezone, options) => ({
-      name: workflowName,
-      active: false,
-      nodes: [
-        createCronNode(cronExpression, timezone),
-        createExecuteCommandNode(options?.shellCommand)
-      ],
-      connections: {
-        'Schedule Trigger': {
-          main: [
-            [{ node: 'Execute Command', type: 'main', index: 0 }]
-          ]
-        }
-      },
-      settings: {
-        executionOrder: 'v1'
-      }
-    })
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createExecuteCommandNode(options?.shellCommand)
+    )
   },
 
   'http-request': {
     name: 'HTTP Request',
     description: 'Cron trigger with an HTTP request (call an API on schedule)',
-    create: (workflowName, cronExpression, timezone) => ({
-      name: workflowName,
-      active: false,
-      nodes: [
-        createCronNode(cronExpression, timezone),
-        createHttpRequestNode()
-      ],
-      connections: {
-        'Schedule Trigger': {
-          main: [
-            [{ node: 'HTTP Request', type: 'main', index: 0 }]
-          ]
-        }
-      },
-      settings: {
-        executionOrder: 'v1'
-      }
-    })
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createHttpRequestNode(options)
+    )
   },
 
   'webhook-call': {
     name: 'Webhook Call',
     description: 'Cron trigger that calls an external webhook',
-    create: (workflowName, cronExpression, timezone) => ({
-      name: workflowName,
-      active: false,
-      nodes: [
-        createCronNode(cronExpression, timezone),
-        createWebhookCallNode()
-      ],
-      connections: {
-        'Schedule Trigger': {
-          main: [
-            [{ node: 'Webhook Call', type: 'main', index: 0 }]
-          ]
-        }
-      },
-      settings: {
-        executionOrder: 'v1'
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createWebhookCallNode(options)
+    )
+  },
+
+  'database-query': {
+    name: 'Database Query',
+    description: 'Cron trigger that runs a Postgres or MySQL query and exports the results to a file',
+    fields: [
+      { name: 'dbType', label: 'Database', type: 'select', choices: ['postgres', 'mysql'], default: 'postgres' },
+      { name: 'dbQuery', label: 'SQL query', type: 'text', required: true },
+      { name: 'exportFormat', label: 'Export results as', type: 'select', choices: ['csv', 'json', 'none'], default: 'csv' },
+      {
+        name: 'exportPath',
+        label: 'Export file path (empty for a timestamped file in /data/exports)',
+        type: 'text',
+        when: { field: 'exportFormat', oneOf: ['csv', 'json'] }
       }
-    })
+    ],
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      [createDatabaseQueryNode(options), ...createExportNodes(options)]
+    )
+  },
+
+  'health-check': {
+    name: 'Health Check',
+    description: 'Cron trigger that checks an HTTP endpoint and calls an alert webhook on failure',
+    fields: [
+      { name: 'healthCheckUrl', label: 'URL to check', type: 'text', required: true },
+      { name: 'healthCheckStatus', label: 'Expected status code', type: 'number', default: 200 },
+      { name: 'alertWebhookUrl', label: 'Alert webhook URL (e.g. Slack incoming webhook)', type: 'text', required: true }
+    ],
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createHealthCheckNodes(options)
+    )
+  },
+
+  'digest': {
+    name: 'Slack/Email Digest',
+    description: 'Cron trigger that fetches items from an API and sends them as a Slack or email digest',
+    fields: [
+      { name: 'digestSourceUrl', label: 'API URL returning the items', type: 'text', required: true },
+      { name: 'digestChannel', label: 'Send digest via', type: 'select', choices: ['slack', 'email'], default: 'slack' },
+      { name: 'slackChannel', label: 'Slack channel', type: 'text', default: '#general', when: { field: 'digestChannel', oneOf: ['slack'] } },
+      { name: 'emailTo', label: 'Recipient email', type: 'text', required: true, when: { field: 'digestChannel', oneOf: ['email'] } },
+      { name: 'emailFrom', label: 'Sender email', type: 'text', required: true, when: { field: 'digestChannel', oneOf: ['email'] } },
+      { name: 'digestSubject', label: 'Digest title', type: 'text', default: 'Daily digest' }
+    ],
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createDigestNodes(options)
+    )
+  },
+
+  'backup': {
+    name: 'File Backup',
+    description: 'Cron trigger that copies files from the n8n server to S3 or a dated backup directory',
+    fields: [
+      { name: 'backupSource', label: 'Files to back up (path or glob)', type: 'text', required: true },
+      { name: 'backupTarget', label: 'Back up to', type: 'select', choices: ['s3', 'file'], default: 's3' },
+      { name: 'backupBucket', label: 'S3 bucket', type: 'text', required: true, when: { field: 'backupTarget', oneOf: ['s3'] } },
+      { name: 'backupDirectory', label: 'Backup directory', type: 'text', default: '/backups', when: { field: 'backupTarget', oneOf: ['file'] } }
+    ],
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createBackupNodes(options)
+    )
+  },
+
+  'feed-poll': {
+    name: 'Feed/API Polling',
+    description: 'Cron trigger that polls an RSS feed or API and passes on only new items',
+    fields: [
+      { name: 'pollSource', label: 'Source', type: 'select', choices: ['rss', 'api'], default: 'rss' },
+      { name: 'pollUrl', label: 'Feed or API URL', type: 'text', required: true },
+      { name: 'pollIdField', label: 'Item ID field (default: guid for RSS, id for APIs)', type: 'text' }
+    ],
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createFeedPollNodes(options)
+    )
+  },
+
+  'sub-workflow': {
+    name: 'Call Sub-workflow',
+    description: 'Cron trigger that runs another n8n workflow by ID',
+    fields: [
+      { name: 'subWorkflowId', label: 'Workflow ID to call', type: 'text', required: true },
+      { name: 'subWorkflowWait', label: 'Wait for it to finish', type: 'boolean', default: true }
+    ],
+    create: (workflowName, cronExpression, timezone, options) => createScheduledWorkflow(
+      workflowName,
+      getTemplateSchedules(cronExpression, timezone, options),
+      createSubWorkflowNode(options)
+    )
   }
 }
 
 /**
- * Gets a template by name
+ * Gets a template by name, from the built-in templates unless a set
+ * including user templates is given
  */
-export function getTemplate(name: TemplateName): TemplateConfig {
-  return TEMPLATES[name]
+export function getTemplate(name: TemplateName, templates: TemplateSet = TEMPLATES): TemplateConfig {
+  const template = templates[name]
+  if (!template) {
+    throw new ValidationError(
+      `Unknown template: ${name}`,
+      `Available templates: ${Object.keys(templates).join(', ')}`
+    )
+  }
+  return template
 }
 
 /**
  * Gets all available template names
  */
-export function getTemplateNames(): TemplateName[] {
-  return Object.keys(TEMPLATES) as TemplateName[]
+export function getTemplateNames(templates: TemplateSet = TEMPLATES): TemplateName[] {
+  return Object.keys(templates)
 }
 
 /**
  * Gets template choices for prompts
  */
-export function getTemplateChoices(): Array<{ title: string; value: TemplateName; description: string }> {
-  return Object.entries(TEMPLATES).map(([key, config]) => ({
-    title: config.name,
-    value: key as TemplateName,
+export function getTemplateChoices(
+  templates: TemplateSet = TEMPLATES
+): Array<{ title: string; value: TemplateName; description: string }> {
+  return Object.entries(templates).map(([key, config]) => ({
+    title: config.source ? `${config.name} (${key})` : config.name,
+    value: key,
     description: config.description
   }))
 }
+
+/**
+ * Gets the cron new flag of a template field, e.g. --db-type for dbType
+ */
+export function getTemplateFieldFlag(field: Pick<TemplateField, 'name'>): string {
+  return `--${field.name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`
+}
+
+/**
+ * Checks whether a field applies given the values of the fields before it
+ */
+export function isTemplateFieldActive(field: TemplateField, values: Partial<Record<TemplateFieldName, unknown>>): boolean {
+  return !field.when || field.when.oneOf.includes(String(values[field.when.field]))
+}
+
+function parseFieldValue(field: TemplateField, value: unknown): string | number | boolean {
+  const flag = getTemplateFieldFlag(field)
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim())
+      if (!Number.isInteger(number)) {
+        throw new ValidationError(`Invalid ${flag}: ${String(value)}`, 'Expected a whole number')
+      }
+      return number
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const text = String(value).trim().toLowerCase()
+      if (['true', 'yes', '1'].includes(text)) return true
+      if (['false', 'no', '0'].includes(text)) return false
+      throw new ValidationError(`Invalid ${flag}: ${String(value)}`, 'Expected true or false')
+    }
+    case 'select': {
+      const text = String(value)
+      if (!field.choices?.includes(text)) {
+        throw new ValidationError(`Invalid ${flag}: ${text}`, `Expected one of: ${field.choices?.join(', ')}`)
+      }
+      return text
+    }
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Converts raw field values (flags, prompt answers or request fields) into
+ * template options, applying defaults and skipping fields that do not apply
+ */
+export function resolveTemplateFields(
+  template: TemplateConfig,
+  values: Partial<Record<TemplateFieldName, unknown>>
+): TemplateOptions {
+  const resolved: Partial<Record<TemplateFieldName, string | number | boolean>> = {}
+  for (const field of template.fields ?? []) {
+    if (!isTemplateFieldActive(field, resolved)) continue
+
+    const value = values[field.name]
+    if (value !== undefined && value !== '') {
+      resolved[field.name] = parseFieldValue(field, value)
+    } else if (field.default !== undefined) {
+      resolved[field.name] = field.default
+    } else if (field.required) {
+      throw new ValidationError(
+        `Missing value for ${field.label}`,
+        `Pass it with ${getTemplateFieldFlag(field)} <value>`
+      )
+    }
+  }
+  return resolved as TemplateOptions
+}
@@ -0,0 +1,359 @@
+import { z } from 'zod'
+import { join } from 'pathe'
+import { readJson, writeJson, exists, listFiles, getHomeDir } from '../utils/fs.js'
+import { ValidationError } from '../utils/errors.js'
+import type { N8nNode, N8nWorkflow } from '../api/n8nClient.js'
+import { isCronNode } from './discover.js'
+import { removeRunTrigger } from './runTrigger.js'
+import {
+  TEMPLATES,
+  applySchedules,
+  createTemplateCronNode,
+  type TemplateConfig,
+  type TemplateOptions,
+  type TemplateSet
+} from './templates.js'
+import { getProjectRoot } from '../config/project.js'
+
+/**
+ * User templates live in <dir>/<template-name>/ with these two files
+ */
+export const TEMPLATE_META_FILE = 'template.json'
+export const TEMPLATE_WORKFLOW_FILE = 'workflow.json'
+
+/**
+ * Placeholder filled with the workflow name
+ */
+const WORKFLOW_NAME_KEY = 'workflowName'
+
+// Matches {{cron8n.<key>}} placeholders in workflow string values
+const PLACEHOLDER_PATTERN = /\{\{\s*cron8n\.([A-Za-z][\w-]*)\s*\}\}/g
+
+const TemplateOptionSchema = z.object({
+  key: z.string()
+    .regex(/^[A-Za-z][\w-]*$/, 'Option keys must start with a letter and contain only letters, digits, - and _')
+    .refine(key => key !== WORKFLOW_NAME_KEY, `"${WORKFLOW_NAME_KEY}" is reserved for the workflow name`),
+  message: z.string().optional(),
+  default: z.string().optional(),
+  required: z.boolean().optional()
+})
+
+export const TemplateMetaSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  options: z.array(TemplateOptionSchema).default([])
+})
+
+export type TemplateMeta = z.infer<typeof TemplateMetaSchema>
+
+export interface TemplateLoadError {
+  path: string
+  error: string
+}
+
+export interface LoadedTemplates {
+  templates: TemplateSet
+  /** User templates that were skipped because they are invalid */
+  errors: TemplateLoadError[]
+}
+
+/**
+ * Gets the user template directories, project first so its templates
+ * take precedence over the ones in the home directory
+ */
+export function getTemplateDirs(basePath?: string): string[] {
+  return [
+    join(basePath ?? getProjectRoot(), '.cron8n', 'templates'),
+    join(getHomeDir(), '.cron8n', 'templates')
+  ]
+}
+
+/**
+ * Replaces {{cron8n.<key>}} placeholders in every string of a JSON value
+ */
+export function fillPlaceholders<T>(value: T, values: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => values[key] ?? placeholder) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillPlaceholders(item, values)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, values)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * Finds the placeholder keys used in a JSON value
+ */
+export function findPlaceholders(value: unknown): string[] {
+  const keys = new Set<string>()
+  const visit = (item: unknown): void => {
+    if (typeof item === 'string') {
+      for (const match of item.matchAll(PLACEHOLDER_PATTERN)) {
+        keys.add(match[1]!)
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit)
+    } else if (item && typeof item === 'object') {
+      Object.values(item).forEach(visit)
+    }
+  }
+  visit(value)
+  return [...keys]
+}
+
+/**
+ * Resolves option values for a template, using defaults for missing ones
+ */
+function resolveOptionValues(meta: TemplateMeta, options?: TemplateOptions): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const option of meta.options) {
+    const value = options?.values?.[option.key] ?? option.default
+    if (value === undefined || (option.required && !value)) {
+      throw new ValidationError(
+        `Missing value for template option "${option.key}"`,
+        `Pass it with --option ${option.key}=<value>`
+      )
+    }
+    values[option.key] = value
+  }
+  return values
+}
+
+/**
+ * Creates a template from user template metadata and a workflow whose
+ * Schedule Trigger nodes are rewritten with the workflow's schedules
+ */
+export function createUserTemplate(meta: TemplateMeta, workflow: N8nWorkflow, source?: string): TemplateConfig {
+  const declared = new Set([WORKFLOW_NAME_KEY, ...meta.options.map(o => o.key)])
+  const undeclared = findPlaceholders(workflow).filter(key => !declared.has(key))
+  if (undeclared.length > 0) {
+    throw new ValidationError(`Undeclared template options: ${undeclared.join(', ')}`)
+  }
+  if (!workflow.nodes?.some(n => n.type === 'n8n-nodes-base.scheduleTrigger')) {
+    throw new ValidationError('Template workflow has no Schedule Trigger node')
+  }
+
+  return {
+    name: meta.name,
+    description: meta.description,
+    options: meta.options.map(option => ({
+      key: option.key,
+      message: option.message ?? `${option.key}:`,
+      ...(option.default !== undefined ? { default: option.default } : {}),
+      ...(option.required !== undefined ? { required: option.required } : {})
+    })),
+    ...(source ? { source } : {}),
+    create: (workflowName, cronExpression, timezone, options) => {
+      const values = { ...resolveOptionValues(meta, options), [WORKFLOW_NAME_KEY]: workflowName }
+      const { id: _id, ...rest } = structuredClone(workflow)
+      const created: N8nWorkflow = {
+        ...fillPlaceholders(rest, values),
+        name: workflowName,
+        active: false
+      }
+      return applySchedules(created, [
+        { cronExpression, timezone },
+        ...(options?.additionalSchedules ?? [])
+      ])
+    }
+  }
+}
+
+/**
+ * Loads the user template in a directory
+ */
+export async function loadUserTemplate(dir: string): Promise<TemplateConfig> {
+  const meta = TemplateMetaSchema.parse(await readJson<unknown>(join(dir, TEMPLATE_META_FILE)))
+  const workflow = await readJson<N8nWorkflow>(join(dir, TEMPLATE_WORKFLOW_FILE))
+  return createUserTemplate(meta, workflow, dir)
+}
+
+/**
+ * Loads the built-in templates plus the user templates from the project's
+ * and the home directory's .cron8n/templates. User templates override
+ * built-in ones of the same name.
+ */
+export async function loadTemplates(basePath?: string): Promise<LoadedTemplates> {
+  const templates: TemplateSet = { ...TEMPLATES }
+  const errors: TemplateLoadError[] = []
+  const loaded = new Set<string>()
+
+  for (const templatesDir of getTemplateDirs(basePath)) {
+    for (const name of (await listFiles(templatesDir)).sort()) {
+      const dir = join(templatesDir, name)
+      if (loaded.has(name) || !(await exists(join(dir, TEMPLATE_META_FILE)))) continue
+
+      try {
+        templates[name] = await loadUserTemplate(dir)
+        loaded.add(name)
+      } catch (error) {
+        const message = error instanceof z.ZodError
+          ? error.errors.map(e => `${e.path.join('.') || 'template'}: ${e.message}`).join(', ')
+          : error instanceof Error ? error.message : String(error)
+        errors.push({ path: dir, error: message })
+      }
+    }
+  }
+
+  return { templates, errors }
+}
+
+/**
+ * A string parameter of a workflow node that can become a template option
+ */
+export interface TemplateParameter {
+  node: string
+  /** Dot-separated path inside the node's parameters (array items by index) */
+  path: string
+  value: string
+}
+
+/**
+ * A parameter turned into a template option
+ */
+export interface TemplateParameterOption {
+  node: string
+  path: string
+  key: string
+  message?: string
+}
+
+export interface TemplateFromWorkflow {
+  meta: TemplateMeta
+  workflow: N8nWorkflow
+  /** Nodes whose credentials were removed */
+  strippedCredentials: string[]
+}
+
+/**
+ * Lists the string parameters of a workflow's nodes, except schedule and
+ * run trigger nodes whose parameters cron8n manages
+ */
+export function findTemplateParameters(workflow: N8nWorkflow): TemplateParameter[] {
+  const parameters: TemplateParameter[] = []
+  const visit = (node: string, value: unknown, path: string[]): void => {
+    if (typeof value === 'string') {
+      if (value) parameters.push({ node, path: path.join('.'), value })
+    } else if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        visit(node, item, [...path, key])
+      }
+    }
+  }
+
+  for (const node of removeRunTrigger(workflow).nodes) {
+    if (!isCronNode(node)) {
+      visit(node.name, node.parameters ?? {}, [])
+    }
+  }
+  return parameters
+}
+
+/**
+ * Suggests an option key for a parameter from its path, e.g. "url" for
+ * "url" or "value" for "bodyParameters.parameters.0.value"
+ */
+export function suggestOptionKey(parameter: Pick<TemplateParameter, 'path'>, taken: string[] = []): string {
+  const segment = parameter.path.split('.').reverse().find(s => !/^\d+$/.test(s)) ?? 'option'
+  const base = segment.replace(/[^\w-]/g, '') || 'option'
+  let key = /^[A-Za-z]/.test(base) ? base : `option${base}`
+  for (let n = 2; taken.includes(key) || key === WORKFLOW_NAME_KEY; n++) {
+    key = `${base}${n}`
+  }
+  return key
+}
+
+function setParameter(node: N8nNode, path: string, value: string): void {
+  const segments = path.split('.')
+  let target = node.parameters as Record<string, unknown>
+  for (const segment of segments.slice(0, -1)) {
+    target = target[segment] as Record<string, unknown>
+  }
+  target[segments[segments.length - 1]!] = value
+}
+
+/**
+ * Turns a workflow into a user template: drops ids, credentials and the run
+ * trigger, replaces the schedule nodes with one placeholder Schedule Trigger
+ * and replaces the chosen parameters with option placeholders
+ */
+export function createTemplateFromWorkflow(
+  workflow: N8nWorkflow,
+  info: { name: string; description?: string },
+  parameterOptions: TemplateParameterOption[] = []
+): TemplateFromWorkflow {
+  const source = removeRunTrigger(structuredClone(workflow))
+  const cronNodes = source.nodes.filter(isCronNode)
+  const firstCron = cronNodes[0]
+  if (!firstCron) {
+    throw new ValidationError('Workflow has no schedule trigger node')
+  }
+
+  const connections = { ...source.connections }
+  for (const node of cronNodes.slice(1)) {
+    delete connections[node.name]
+  }
+
+  const strippedCredentials: string[] = []
+  const nodes = source.nodes
+    .filter(node => node === firstCron || !isCronNode(node))
+    .map(node => {
+      if (node === firstCron) {
+        return createTemplateCronNode(node.name, node.position)
+      }
+      const { id: _id, credentials, webhookId: _webhookId, ...rest } = node as N8nNode & { webhookId?: string }
+      if (credentials && Object.keys(credentials).length > 0) {
+        strippedCredentials.push(node.name)
+      }
+      return rest
+    })
+
+  const parameters = findTemplateParameters(source)
+  const options: TemplateMeta['options'] = []
+  for (const option of parameterOptions) {
+    const parameter = parameters.find(p => p.node === option.node && p.path === option.path)
+    if (!parameter) {
+      throw new ValidationError(`Parameter not found: ${option.node}.${option.path}`)
+    }
+    if (options.some(o => o.key === option.key)) {
+      throw new ValidationError(`Duplicate template option: ${option.key}`)
+    }
+    setParameter(nodes.find(n => n.name === option.node)!, option.path, `{{cron8n.${option.key}}}`)
+    options.push({
+      key: option.key,
+      message: option.message ?? `${option.node} ${option.path}:`,
+      default: parameter.value
+    })
+  }
+
+  const meta = TemplateMetaSchema.parse({ name: info.name, description: info.description ?? '', options })
+  const templateWorkflow: N8nWorkflow = {
+    name: `{{cron8n.${WORKFLOW_NAME_KEY}}}`,
+    nodes,
+    connections,
+    ...(source.settings ? { settings: source.settings } : {})
+  }
+
+  // Fails early if the result would not load as a template
+  createUserTemplate(meta, templateWorkflow)
+  return { meta, workflow: templateWorkflow, strippedCredentials }
+}
+
+/**
+ * Writes a user template into a templates directory
+ */
+export async function saveUserTemplate(
+  templatesDir: string,
+  templateName: string,
+  template: Pick<TemplateFromWorkflow, 'meta' | 'workflow'>
+): Promise<string> {
+  const dir = join(templatesDir, templateName)
+  await writeJson(join(dir, TEMPLATE_META_FILE), template.meta)
+  await writeJson(join(dir, TEMPLATE_WORKFLOW_FILE), template.workflow)
+  return dir
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as nodeFs } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import { Agent, ProxyAgent } from 'undici'
+import {
+  createDispatcher,
+  describeConnectionError,
+  validateConnectionSettings
+} from '../../src/api/connection.js'
+
+const withCode = (message: string, code: string): Error => Object.assign(new Error(message), { code })
+
+describe('connection', () => {
+  describe('validateConnectionSettings', () => {
+    it('should require a certificate and key together', () => {
+      expect(() => validateConnectionSettings({ certFile: '/certs/client.pem' }))
+        .toThrow('needs both a certificate and a key file')
+      expect(() => validateConnectionSettings({ certFile: '/certs/client.pem', keyFile: '/certs/key.pem' }))
+        .not.toThrow()
+    })
+
+    it('should require an http(s) proxy URL', () => {
+      expect(() => validateConnectionSettings({ proxy: 'socks5://proxy:1080' })).toThrow('Invalid proxy URL')
+      expect(() => validateConnectionSettings({ proxy: 'https://proxy:3128' })).not.toThrow()
+    })
+  })
+
+  describe('createDispatcher', () => {
+    let basePath: string
+
+    beforeEach(async () => {
+      basePath = await nodeFs.mkdtemp(join(tmpdir(), 'cron8n-connection-'))
+    })
+
+    afterEach(async () => {
+      await nodeFs.rm(basePath, { recursive: true, force: true })
+    })
+
+    it('should use the default dispatcher without settings', async () => {
+      expect(await createDispatcher()).toBeUndefined()
+      expect(await createDispatcher({})).toBeUndefined()
+    })
+
+    it('should create an agent for TLS settings and a proxy agent for proxies', async () => {
+      const agent = await createDispatcher({ insecure: true })
+      const proxy = await createDispatcher({ proxy: 'http://proxy.example.com:3128' })
+
+      expect(agent).toBeInstanceOf(Agent)
+      expect(proxy).toBeInstanceOf(ProxyAgent)
+      await Promise.all([agent!.close(), proxy!.close()])
+    })
+
+    it('should report missing certificate files', async () => {
+      await expect(createDispatcher({ caFile: join(basePath, 'missing.pem') })).rejects.toThrow('missing.pem')
+    })
+  })
+
+  describe('describeConnectionError', () => {
+    it('should point at the CA setting for untrusted certificates', () => {
+      const error = withCode('self-signed certificate in certificate chain', 'SELF_SIGNED_CERT_IN_CHAIN')
+
+      expect(describeConnectionError(error).hint).toContain('--ca-file')
+      expect(describeConnectionError(error, { caFile: '/certs/ca.pem' }).hint).toContain('/certs/ca.pem')
+    })
+
+    it('should explain proxy authentication failures', () => {
+      const error = withCode('Proxy response (407) !== 200 when HTTP Tunneling', 'UND_ERR_ABORTED')
+      const described = describeConnectionError(error, { proxy: 'http://proxy:3128' })
+
+      expect(described.message).toBe('Proxy authentication required via proxy http://proxy:3128')
+      expect(described.hint).toContain('user:password@')
+    })
+
+    it('should suggest a proxy for unknown hosts', () => {
+      const error = withCode('getaddrinfo ENOTFOUND n8n.internal', 'ENOTFOUND')
+
+      expect(describeConnectionError(error).hint).toContain('--proxy')
+      expect(describeConnectionError(error, { proxy: 'http://proxy:3128' }).hint).toBeUndefined()
+    })
+
+    it('should fall back to the original message', () => {
+      expect(describeConnectionError(new Error('socket hang up')).message).toBe('Request failed: socket hang up')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createLimiter,
+  getRequestPolicy,
+  getRetryDelay,
+  isIdempotentMethod,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+  DEFAULT_REQUEST_POLICY
+} from '../../src/api/http.js'
+
+describe('http', () => {
+  describe('getRequestPolicy', () => {
+    it('should apply environment variables, then overrides', () => {
+      const policy = getRequestPolicy({ retries: 1 }, {
+        CRON8N_HTTP_TIMEOUT: '5000',
+        CRON8N_HTTP_RETRIES: '5',
+        CRON8N_HTTP_CONCURRENCY: 'many'
+      })
+
+      expect(policy).toEqual({ ...DEFAULT_REQUEST_POLICY, timeout: 5000, retries: 1 })
+    })
+  })
+
+  describe('retry rules', () => {
+    it('should retry only idempotent methods', () => {
+      expect(['GET', 'put', 'DELETE'].every(isIdempotentMethod)).toBe(true)
+      expect(isIdempotentMethod('POST')).toBe(false)
+      expect(isIdempotentMethod('PATCH')).toBe(false)
+    })
+
+    it('should retry 408, 429 and 5xx gateway errors', () => {
+      expect([408, 429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true)
+      expect([400, 401, 404, 501].some(isRetryableStatus)).toBe(false)
+    })
+
+    it('should retry connection errors and timeouts', () => {
+      expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true)
+      expect(isRetryableError(Object.assign(new Error('timeout'), { code: 'UND_ERR_HEADERS_TIMEOUT' }))).toBe(true)
+      expect(isRetryableError(new Error('Invalid URL'))).toBe(false)
+    })
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z')
+      expect(parseRetryAfter('2', now)).toBe(2000)
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000)
+      expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0)
+      expect(parseRetryAfter(undefined)).toBeUndefined()
+      expect(parseRetryAfter('soon')).toBeUndefined()
+    })
+  })
+
+  describe('getRetryDelay', () => {
+    const policy = { retryDelay: 500, maxRetryDelay: 3000 }
+
+    it('should back off exponentially with jitter', () => {
+      expect(getRetryDelay(0, policy, undefined, () => 1)).toBe(500)
+      expect(getRetryDelay(2, policy, undefined, () => 1)).toBe(2000)
+      expect(getRetryDelay(2, policy, undefined, () => 0.5)).toBe(1000)
+      expect(getRetryDelay(10, policy, undefined, () => 1)).toBe(3000)
+    })
+
+    it('should honor Retry-After up to the maximum delay', () => {
+      expect(getRetryDelay(0, policy, 1200)).toBe(1200)
+      expect(getRetryDelay(0, policy, 60000)).toBe(3000)
+    })
+  })
+
+  describe('createLimiter', () => {
+    it('should run at most the given number of tasks at once', async () => {
+      const limit = createLimiter(2)
+      let active = 0
+      let peak = 0
+      const task = async (value: number): Promise<number> => {
+        active++
+        peak = Math.max(peak, active)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        active--
+        return value
+      }
+
+      const results = await Promise.all([1, 2, 3, 4, 5].map(value => limit(() => task(value))))
+
+      expect(results).toEqual([1, 2, 3, 4, 5])
+      expect(peak).toBe(2)
+    })
+
+    it('should keep going after a task fails', async () => {
+      const limit = createLimiter(1)
+      await expect(limit(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+      await expect(limit(() => Promise.resolve('ok'))).resolves.toBe('ok')
+    })
+  })
+})
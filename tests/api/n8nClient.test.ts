@@ -190,6 +190,37 @@ describe('n8nClient', () => {
     })
   })
 
+  describe('credentials', () => {
+    it('should create a credential', async () => {
+      setupMockResponse({ id: '9', name: 'Token', type: 'httpHeaderAuth' })
+
+      const client = createClient(testAuth)
+      const credential = await client.createCredential({
+        name: 'Token',
+        type: 'httpHeaderAuth',
+        data: { name: 'X-Token', value: 'secret' }
+      })
+
+      expect(credential.id).toBe('9')
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://n8n.example.com/api/v1/credentials',
+        expect.objectContaining({ method: 'POST' })
+      )
+    })
+
+    it('should delete a credential', async () => {
+      setupMockResponse({})
+
+      const client = createClient(testAuth)
+      await client.deleteCredential('9')
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://n8n.example.com/api/v1/credentials/9',
+        expect.objectContaining({ method: 'DELETE' })
+      )
+    })
+  })
+
   describe('activateWorkflow and deactivateWorkflow', () => {
     it('should activate workflow', async () => {
       setupMockResponse({ ...mockWorkflow, active: true })
@@ -252,6 +283,94 @@ describe('n8nClient', () => {
     })
   })
 
+  describe('execution operations', () => {
+    const mockExecution = {
+      id: 42,
+      workflowId: '123',
+      finished: true,
+      mode: 'trigger',
+      status: 'success',
+      startedAt: '2026-02-07T10:00:00.000Z',
+      stoppedAt: '2026-02-07T10:00:05.000Z'
+    }
+
+    it('should list executions with filters', async () => {
+      setupMockResponse({ data: [mockExecution], nextCursor: null })
+
+      const client = createClient(testAuth)
+      const executions = await client.listExecutions({ workflowId: '123', status: 'error', limit: 10 })
+
+      expect(executions).toHaveLength(1)
+      expect(executions[0]?.id).toBe('42')
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://n8n.example.com/api/v1/executions?workflowId=123&status=error&limit=10',
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should paginate through executions', async () => {
+      setupMockResponse({ data: [mockExecution], nextCursor: 'cursor1' })
+      setupMockResponse({ data: [{ ...mockExecution, id: 43 }], nextCursor: null })
+
+      const client = createClient(testAuth)
+      const executions = await client.listExecutions({ workflowId: '123' })
+
+      expect(executions).toHaveLength(2)
+      expect(mockRequest).toHaveBeenCalledTimes(2)
+    })
+
+    it('should get execution with data', async () => {
+      setupMockResponse({ ...mockExecution, data: { resultData: {} } })
+
+      const client = createClient(testAuth)
+      const execution = await client.getExecution('42', true)
+
+      expect(execution.data).toBeDefined()
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://n8n.example.com/api/v1/executions/42?includeData=true',
+        expect.any(Object)
+      )
+    })
+  })
+
+    describe('triggerWebhook', () => {
+    it('should post to the production webhook URL', async () => {
+      setupMockResponse({ message: 'Workflow was started' })
+
+      const client = createClient(testAuth)
+      await client.triggerWebhook('cron8n-test-abc', { source: 'cron8n' })
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://n8n.example.com/webhook/cron8n-test-abc',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ source: 'cron8n' })
+        })
+      )
+    })
+
+    it('should send extra headers', async () => {
+      setupMockResponse({ message: 'Workflow was started' })
+
+      const client = createClient(testAuth)
+      await client.triggerWebhook('cron8n-test-abc', {}, { 'X-Cron8n-Token': 'token' })
+
+      expect(mockRequest).toHaveBeenCalledWith(
+        'https://n8n.example.com/webhook/cron8n-test-abc',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Cron8n-Token': 'token' })
+        })
+      )
+    })
+
+    it('should throw when webhook is not registered', async () => {
+      setupMockResponse({ message: 'not registered' }, 404)
+
+      const client = createClient(testAuth)
+      await expect(client.triggerWebhook('missing')).rejects.toThrow('Webhook not registered')
+    })
+  })
+
   describe('auth header', () => {
     it('should use API key header', async () => {
       setupMockResponse({ data: [] })
@@ -292,4 +411,74 @@ describe('n8nClient', () => {
       )
     })
   })
+
+  describe('retries', () => {
+    const setupStatus = (statusCode: number, headers: Record<string, string> = {}) => {
+      mockRequest.mockResolvedValueOnce({
+        statusCode,
+        headers,
+        body: { text: async () => JSON.stringify({ message: `status ${statusCode}` }) }
+      } as any)
+    }
+
+    const connectionError = () => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+
+    it('should retry idempotent requests on 5xx and 429', async () => {
+      setupStatus(503)
+      setupStatus(429, { 'retry-after': '0' })
+      setupMockResponse(mockWorkflow)
+
+      const client = createClient(testAuth, { retryDelay: 1 })
+      const workflow = await client.getWorkflow('123')
+
+      expect(workflow.id).toBe('123')
+      expect(mockRequest).toHaveBeenCalledTimes(3)
+    })
+
+    it('should retry connection errors', async () => {
+      mockRequest.mockRejectedValueOnce(connectionError())
+      setupMockResponse({})
+
+      const client = createClient(testAuth, { retryDelay: 1 })
+      await client.deleteWorkflow('123')
+
+      expect(mockRequest).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry POST requests', async () => {
+      setupStatus(503)
+
+      const client = createClient(testAuth, { retryDelay: 1 })
+      await expect(client.createWorkflow({ name: 'X', nodes: [], connections: {} })).rejects.toThrow('status 503')
+      expect(mockRequest).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up after the configured retries', async () => {
+      setupStatus(502)
+      setupStatus(502)
+
+      const client = createClient(testAuth, { retries: 1, retryDelay: 1 })
+      await expect(client.getWorkflow('123')).rejects.toMatchObject({ statusCode: 502 })
+      expect(mockRequest).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry client errors', async () => {
+      setupStatus(404)
+
+      const client = createClient(testAuth, { retryDelay: 1 })
+      await expect(client.getWorkflow('123')).rejects.toMatchObject({ statusCode: 404 })
+      expect(mockRequest).toHaveBeenCalledTimes(1)
+    })
+
+    it('should pass the timeout and report timeouts', async () => {
+      mockRequest.mockRejectedValueOnce(Object.assign(new Error('Headers Timeout Error'), { code: 'UND_ERR_HEADERS_TIMEOUT' }))
+
+      const client = createClient(testAuth, { timeout: 5000, retries: 0 })
+      await expect(client.getWorkflow('123')).rejects.toThrow('Request timed out after 5000ms')
+      expect(mockRequest).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headersTimeout: 5000, bodyTimeout: 5000 })
+      )
+    })
+  })
 })
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as nodeFs } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import {
+  applyNamePrefix,
+  createProjectSlug,
+  findProjectConfig,
+  getProjectRoot,
+  loadProjectConfig,
+  resetProjectConfig
+} from '../../src/config/project.js'
+import { getActiveProfileName } from '../../src/config/store.js'
+import {
+  createManifest,
+  getManifestPath,
+  getWorkflowPath,
+  getWorkflowsDir,
+  resolveManifest,
+  saveManifest
+} from '../../src/workflows/manifest.js'
+import { getDefaultTimezone } from '../../src/utils/time.js'
+
+describe('project config', () => {
+  let basePath: string
+
+  beforeEach(async () => {
+    basePath = await nodeFs.mkdtemp(join(tmpdir(), 'cron8n-project-'))
+    await nodeFs.mkdir(join(basePath, 'jobs', 'nightly'), { recursive: true })
+  })
+
+  afterEach(async () => {
+    resetProjectConfig()
+    await nodeFs.rm(basePath, { recursive: true, force: true })
+  })
+
+  const writeConfig = (name: string, config: unknown): Promise<void> =>
+    nodeFs.writeFile(join(basePath, name), JSON.stringify(config))
+
+  describe('findProjectConfig', () => {
+    it('should walk up from subdirectories', async () => {
+      await writeConfig('.cron8nrc', {})
+      expect(await findProjectConfig(join(basePath, 'jobs', 'nightly'))).toBe(join(basePath, '.cron8nrc'))
+    })
+
+    it('should prefer cron8n.config.json', async () => {
+      await writeConfig('.cron8nrc', {})
+      await writeConfig('cron8n.config.json', {})
+      expect(await findProjectConfig(basePath)).toBe(join(basePath, 'cron8n.config.json'))
+    })
+  })
+
+  describe('loadProjectConfig', () => {
+    it('should apply the project defaults', async () => {
+      await writeConfig('cron8n.config.json', {
+        timezone: 'UTC',
+        workflowsDir: 'n8n/workflows',
+        tags: ['team:billing'],
+        profile: 'staging'
+      })
+      await loadProjectConfig(join(basePath, 'jobs'))
+
+      expect(getProjectRoot()).toBe(basePath)
+      expect(getWorkflowsDir()).toBe(join(basePath, 'n8n', 'workflows'))
+      expect(getDefaultTimezone()).toBe('UTC')
+      expect(await getActiveProfileName()).toBe('staging')
+      expect(createManifest('sync', 'Sync', 'cron-only', '0 * * * *', 'UTC').tags)
+        .toEqual(['managed-by:cron8n', 'cron8n:sync', 'team:billing'])
+    })
+
+    it('should keep the built-in defaults without a config file', async () => {
+      await loadProjectConfig(basePath)
+
+      expect(getProjectRoot()).toBe(basePath)
+      expect(getWorkflowsDir()).toBe(join(basePath, 'workflows'))
+      expect(getDefaultTimezone()).toBe('Europe/Istanbul')
+    })
+
+    it('should reject unknown keys', async () => {
+      await writeConfig('cron8n.config.json', { timzone: 'UTC' })
+      await expect(loadProjectConfig(basePath)).rejects.toThrow('Invalid project config')
+    })
+  })
+
+  describe('resolveManifest', () => {
+    it('should find the project root of files in a nested workflows directory', async () => {
+      await writeConfig('cron8n.config.json', { workflowsDir: 'n8n/workflows' })
+      await loadProjectConfig(basePath)
+      await nodeFs.mkdir(getWorkflowsDir(), { recursive: true })
+      await saveManifest(createManifest('sync', 'Sync', 'cron-only', '0 * * * *', 'UTC'))
+      await nodeFs.writeFile(getWorkflowPath('sync'), '{}')
+
+      const fromManifest = await resolveManifest(getManifestPath('sync'))
+      const fromWorkflow = await resolveManifest(getWorkflowPath('sync'))
+
+      expect(fromManifest.basePath).toBe(basePath)
+      expect(fromWorkflow.basePath).toBe(basePath)
+      expect(fromWorkflow.manifest.slug).toBe('sync')
+    })
+  })
+
+  describe('naming conventions', () => {
+    it('should prefix names and slugs once', async () => {
+      await writeConfig('cron8n.config.json', { naming: { namePrefix: '[Billing] ', slugPrefix: 'billing-' } })
+      await loadProjectConfig(basePath)
+
+      expect(applyNamePrefix('Invoice Sync')).toBe('[Billing] Invoice Sync')
+      expect(applyNamePrefix('[Billing] Invoice Sync')).toBe('[Billing] Invoice Sync')
+      expect(createProjectSlug('Invoice Sync')).toBe('billing-invoice-sync')
+      expect(createProjectSlug('[Billing] Invoice Sync')).toBe('billing-invoice-sync')
+    })
+  })
+})
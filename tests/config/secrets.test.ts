@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  decryptSecret,
+  describeSecretBackend,
+  encryptSecret,
+  readSecret,
+  runSecretCommand
+} from '../../src/config/secrets.js'
+
+describe('secrets', () => {
+  afterEach(() => {
+    delete process.env['CRON8N_API_KEY']
+    delete process.env['CRON8N_TEST_SECRET']
+  })
+
+  describe('encryptSecret and decryptSecret', () => {
+    it('should round-trip a secret without storing it in plaintext', async () => {
+      const encrypted = await encryptSecret('n8n-api-key', 'correct horse')
+
+      expect(JSON.stringify(encrypted)).not.toContain('n8n-api-key')
+      expect(await decryptSecret(encrypted, 'correct horse')).toBe('n8n-api-key')
+    })
+
+    it('should reject a wrong passphrase', async () => {
+      const encrypted = await encryptSecret('n8n-api-key', 'correct horse')
+      await expect(decryptSecret(encrypted, 'battery staple')).rejects.toThrow('Wrong passphrase')
+    })
+  })
+
+  describe('runSecretCommand', () => {
+    it('should use the first line of the output', async () => {
+      expect(await runSecretCommand('printf "key-123\\nurl: n8n\\n"')).toBe('key-123')
+    })
+
+    it('should fail on errors and empty output', async () => {
+      await expect(runSecretCommand('exit 3')).rejects.toThrow('Secret command failed: exit 3')
+      await expect(runSecretCommand('printf ""')).rejects.toThrow('Secret command printed nothing')
+    })
+  })
+
+  describe('readSecret', () => {
+    it('should read the env backend from CRON8N_API_KEY or a named variable', async () => {
+      process.env['CRON8N_API_KEY'] = 'from-default'
+      process.env['CRON8N_TEST_SECRET'] = 'from-named'
+
+      expect(await readSecret('default', { secretBackend: 'env' })).toBe('from-default')
+      expect(await readSecret('default', { secretBackend: 'env', secretEnv: 'CRON8N_TEST_SECRET' })).toBe('from-named')
+    })
+
+    it('should report unset variables', async () => {
+      await expect(readSecret('ci', { secretBackend: 'env' })).rejects.toThrow('CRON8N_API_KEY is not set')
+    })
+
+    it('should use the stored secret for the config backend', async () => {
+      expect(await readSecret('default', {}, 'stored')).toBe('stored')
+    })
+  })
+
+  describe('describeSecretBackend', () => {
+    it('should describe the source without the secret', () => {
+      expect(describeSecretBackend('default', {})).toBe('config file (plaintext)')
+      expect(describeSecretBackend('default', { secretBackend: 'command', secretCommand: 'pass show n8n' }))
+        .toBe('command "pass show n8n"')
+      expect(describeSecretBackend('prod', { secretBackend: 'encrypted' })).toMatch(/secrets\/prod\.json$/)
+    })
+  })
+})
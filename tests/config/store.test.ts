@@ -1,12 +1,32 @@
-import { describe, it, expect, afterEach } from 'vitest'
+import { describe, it, expect, vi, afterEach, afterAll } from 'vitest'
+import { rm } from 'node:fs/promises'
+
+// Keeps the tests away from the real ~/.cron8n. The store computes its
+// paths when loaded, so the home directory is replaced before that.
+vi.mock('../../src/utils/fs.js', async (importOriginal) => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const home = mkdtempSync(`${tmpdir()}/cron8n-home-`)
+  return {
+    ...await importOriginal<typeof import('../../src/utils/fs.js')>(),
+    getHomeDir: () => home
+  }
+})
+
 import {
   saveAuth,
   getAuth,
   clearAuth,
   isAuthenticated,
   getAuthHeader,
+  listProfiles,
+  setActiveProfile,
+  setDefaultProfile,
+  getConfigPath,
   type AuthCredentials
 } from '../../src/config/store.js'
+import { readJson, writeJson, getHomeDir } from '../../src/utils/fs.js'
+import { AuthError, ValidationError } from '../../src/utils/errors.js'
 
 describe('config store', () => {
   const testCredentials: AuthCredentials = {
@@ -17,7 +37,19 @@ describe('config store', () => {
 
   // Clean up after each test
   afterEach(async () => {
-    await clearAuth()
+    setActiveProfile(undefined)
+    delete process.env['CRON8N_PROFILE']
+    for (const profile of await listProfiles()) {
+      await clearAuth(profile.name)
+    }
+  })
+
+  afterAll(async () => {
+    await rm(getHomeDir(), { recursive: true, force: true })
+  })
+
+  it('should keep the config in a temporary home directory', () => {
+    expect(getConfigPath()).toContain('cron8n-home-')
   })
 
   describe('saveAuth and getAuth', () => {
@@ -31,6 +63,30 @@ describe('config store', () => {
       expect(auth?.secret).toBe(testCredentials.secret)
     })
 
+    it('should keep connection settings when logging in again without them', async () => {
+      const connection = { proxy: 'http://proxy.example.com:3128', insecure: true }
+      await saveAuth({ ...testCredentials, connection })
+      await saveAuth({ ...testCredentials, secret: 'new-key' })
+
+      const auth = await getAuth()
+      expect(auth?.secret).toBe('new-key')
+      expect(auth?.connection).toEqual(connection)
+    })
+
+    it('should read the secret from the env backend without storing it', async () => {
+      process.env['CRON8N_API_KEY'] = 'env-secret'
+      try {
+        await saveAuth({ ...testCredentials, secret: 'env-secret', secretBackend: 'env' })
+
+        const config = await readJson<{ profiles: Record<string, Record<string, unknown>> }>(getConfigPath())
+        expect(config.profiles['default']?.['secret']).toBeUndefined()
+        expect(config.profiles['default']?.['secretBackend']).toBe('env')
+        expect((await getAuth())?.secret).toBe('env-secret')
+      } finally {
+        delete process.env['CRON8N_API_KEY']
+      }
+    })
+
     it('should return null if not authenticated', async () => {
       const auth = await getAuth()
       expect(auth).toBeNull()
@@ -58,6 +114,74 @@ describe('config store', () => {
     })
   })
 
+  describe('profiles', () => {
+    const prodCredentials: AuthCredentials = {
+      baseUrl: 'https://n8n-prod.example.com',
+      authMode: 'bearerToken',
+      secret: 'prod-token-12345'
+    }
+
+    it('should keep credentials of multiple profiles', async () => {
+      await saveAuth(testCredentials, 'staging')
+      await saveAuth(prodCredentials, 'prod')
+
+      expect((await getAuth('staging'))?.baseUrl).toBe(testCredentials.baseUrl)
+      expect((await getAuth('prod'))?.baseUrl).toBe(prodCredentials.baseUrl)
+    })
+
+    it('should make the first saved profile the default', async () => {
+      await saveAuth(testCredentials, 'staging')
+      await saveAuth(prodCredentials, 'prod')
+
+      const auth = await getAuth()
+      expect(auth?.profile).toBe('staging')
+    })
+
+    it('should select the active profile from flag or environment', async () => {
+      await saveAuth(testCredentials, 'staging')
+      await saveAuth(prodCredentials, 'prod')
+
+      process.env['CRON8N_PROFILE'] = 'prod'
+      expect((await getAuth())?.profile).toBe('prod')
+
+      setActiveProfile('staging')
+      expect((await getAuth())?.profile).toBe('staging')
+    })
+
+    it('should list profiles with default and active markers', async () => {
+      await saveAuth(testCredentials, 'staging')
+      await saveAuth(prodCredentials, 'prod')
+      await setDefaultProfile('prod')
+
+      const profiles = await listProfiles()
+      expect(profiles.map(p => p.name)).toEqual(['staging', 'prod'])
+      expect(profiles.find(p => p.isDefault)?.name).toBe('prod')
+      expect(profiles.find(p => p.isActive)?.name).toBe('prod')
+    })
+
+    it('should reject unknown default profile', async () => {
+      await expect(setDefaultProfile('missing')).rejects.toThrow(AuthError)
+    })
+
+    it('should reject profile names that are not plain names', async () => {
+      setActiveProfile('../../x')
+      await expect(saveAuth(testCredentials)).rejects.toThrow(ValidationError)
+      await expect(getAuth()).rejects.toThrow(ValidationError)
+
+      setActiveProfile(undefined)
+      process.env['CRON8N_PROFILE'] = 'a/b'
+      await expect(clearAuth()).rejects.toThrow(ValidationError)
+    })
+
+    it('should migrate legacy single-instance config', async () => {
+      await writeJson(getConfigPath(), testCredentials)
+
+      const auth = await getAuth()
+      expect(auth?.profile).toBe('default')
+      expect(auth?.secret).toBe(testCredentials.secret)
+    })
+  })
+
   describe('getAuthHeader', () => {
     it('should return API key header for apiKey mode', () => {
       const credentials: AuthCredentials = {
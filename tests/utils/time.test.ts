@@ -1,10 +1,17 @@
 import { describe, it, expect } from 'vitest'
 import { 
   parseCron, 
+  describeCron,
+  findDstWarnings,
+  getCronSyntaxError,
+  createCronIterator,
+  normalizeCronExpression,
+  mergeRunTimes,
   validateCron, 
   getPreset, 
   CRON_PRESETS,
   formatDate,
+  formatDuration,
   getISOTimestamp,
   getTimezoneOptions
 } from '../../src/utils/time.js'
@@ -38,6 +45,18 @@ describe('time utilities', () => {
       expect(result.nextRuns).toHaveLength(10)
     })
 
+    it('should accept seconds and L, W, # and ? syntax', () => {
+      for (const expression of ['*/30 * * * * *', '0 0 L * *', '0 9 15W * *', '0 9 ? * 1#2', '0 17 * * 5L']) {
+        expect(parseCron(expression, 'UTC').isValid).toBe(true)
+      }
+    })
+
+    it('should explain syntax errors', () => {
+      const result = parseCron('0 9 * * * * *')
+      expect(result.isValid).toBe(false)
+      expect(result.error).toMatch(/Expected 5 fields/)
+    })
+
     it('should return invalid for bad expression', () => {
       const result = parseCron('invalid cron')
       expect(result.isValid).toBe(false)
@@ -51,6 +70,208 @@ describe('time utilities', () => {
         expect(result.isValid).toBe(true)
       }
     })
+
+    it('should include a description for valid expressions', () => {
+      const result = parseCron('30 2 * * 1-5', 'UTC')
+      expect(result.description).toBe('At 02:30 on Monday through Friday')
+    })
+
+    it('should include DST warnings when asked for', () => {
+      expect(parseCron('30 2 * * *', 'Europe/Berlin', 5, { dstWarnings: true }).dstWarnings).toHaveLength(2)
+      expect(parseCron('30 2 * * *', 'UTC', 5, { dstWarnings: true }).dstWarnings).toEqual([])
+    })
+
+    it('should skip the DST scan by default', () => {
+      expect(parseCron('30 2 * * *', 'Europe/Berlin').dstWarnings).toBeUndefined()
+    })
+  })
+
+  describe('findDstWarnings', () => {
+    const from = new Date('2026-01-01T00:00:00Z')
+
+    it('should warn about runs skipped and repeated around DST changes', () => {
+      const warnings = findDstWarnings('30 2 * * *', 'Europe/Berlin', from)
+
+      expect(warnings).toEqual([
+        {
+          kind: 'skip',
+          date: '2026-03-29',
+          times: ['02:30'],
+          message: 'On 2026-03-29 clocks in Europe/Berlin jump from 02:00 to 03:00: run at 02:30 will be skipped'
+        },
+        {
+          kind: 'repeat',
+          date: '2026-10-25',
+          times: ['02:30'],
+          message: 'On 2026-10-25 clocks in Europe/Berlin fall back from 03:00 to 02:00: run at 02:30 may fire twice'
+        }
+      ])
+    })
+
+    it('should only warn for runs within the changed hour', () => {
+      expect(findDstWarnings('30 3 * * *', 'Europe/Berlin', from)).toEqual([])
+      expect(findDstWarnings('0 1 * * *', 'America/New_York', from)).toHaveLength(1)
+    })
+
+    it('should respect day fields', () => {
+      // 2026-03-29 is a Sunday, 2026-10-25 as well
+      expect(findDstWarnings('30 2 * * 1-5', 'Europe/Berlin', from)).toEqual([])
+    })
+
+    it('should not warn for schedules that run every hour', () => {
+      expect(findDstWarnings('15 * * * *', 'Europe/Berlin', from)).toEqual([])
+    })
+
+    it('should not warn for timezones without DST', () => {
+      expect(findDstWarnings('30 2 * * *', 'Europe/Istanbul', from)).toEqual([])
+    })
+
+    it('should ignore invalid expressions', () => {
+      expect(findDstWarnings('not a cron', 'Europe/Berlin', from)).toEqual([])
+    })
+  })
+
+  describe('describeCron', () => {
+    it('should describe intervals', () => {
+      expect(describeCron('* * * * *')).toBe('Every minute')
+      expect(describeCron('*/5 * * * *')).toBe('Every 5 minutes')
+      expect(describeCron('0 * * * *')).toBe('Every hour')
+      expect(describeCron('0 */4 * * *')).toBe('Every 4 hours')
+      expect(describeCron('15 * * * *')).toBe('At minute 15 past every hour')
+    })
+
+    it('should describe specific times', () => {
+      expect(describeCron('30 2 * * *')).toBe('At 02:30')
+      expect(describeCron('0 9,17 * * *')).toBe('At 09:00 and 17:00')
+    })
+
+    it('should describe hour ranges', () => {
+      expect(describeCron('0 9-17 * * *')).toBe('Every hour from 09:00 through 17:00')
+      expect(describeCron('*/15 9-17 * * 1-5')).toBe('Every 15 minutes between 09:00 and 17:59 on Monday through Friday')
+    })
+
+    it('should describe days and months', () => {
+      expect(describeCron('0 0 1 * *')).toBe('At 00:00 on day 1 of the month')
+      expect(describeCron('0 3 * * 1,3,5')).toBe('At 03:00 on Monday, Wednesday and Friday')
+      expect(describeCron('0 12 * JAN-MAR MON')).toBe('At 12:00 on Monday in January through March')
+      expect(describeCron('0 0 */2 * *')).toBe('At 00:00 on every 2nd day of the month')
+      expect(describeCron('0 0 * * 7')).toBe('At 00:00 on Sunday')
+    })
+
+    it('should use "or" when both day fields are set', () => {
+      expect(describeCron('0 0 1 * 1')).toBe('At 00:00 on day 1 of the month or on Monday')
+    })
+
+    it('should describe macros', () => {
+      expect(describeCron('@daily')).toBe('At 00:00')
+      expect(describeCron('@weekly')).toBe('At 00:00 on Sunday')
+    })
+
+    it('should describe all presets', () => {
+      for (const preset of CRON_PRESETS) {
+        expect(describeCron(preset.expression)).not.toBe(preset.expression)
+      }
+    })
+
+    it('should fall back to the expression for unsupported syntax', () => {
+      expect(describeCron('invalid cron')).toBe('invalid cron')
+      expect(describeCron('15 0 0 * * *')).toBe('15 0 0 * * *')
+    })
+
+    it('should describe seconds', () => {
+      expect(describeCron('* * * * * *')).toBe('Every second')
+      expect(describeCron('*/10 * * * * *')).toBe('Every 10 seconds')
+      expect(describeCron('0 0 9 * * *')).toBe(describeCron('0 9 * * *'))
+    })
+
+    it('should describe L, W and # days', () => {
+      expect(describeCron('0 0 L * *')).toContain('on the last day of the month')
+      expect(describeCron('0 9 15W * *')).toContain('on the weekday nearest day 15 of the month')
+      expect(describeCron('0 9 ? * 1#2')).toContain('on the second Monday of the month')
+      expect(describeCron('0 17 * * 5L')).toContain('on the last Friday of the month')
+    })
+  })
+
+  describe('getCronSyntaxError', () => {
+    it('should accept 5 and 6 field expressions and macros', () => {
+      expect(getCronSyntaxError('0 9 * * 1-5')).toBeUndefined()
+      expect(getCronSyntaxError('30 0 9 * * MON-FRI')).toBeUndefined()
+      expect(getCronSyntaxError('@daily')).toBeUndefined()
+    })
+
+    it('should accept L, W, # and ? in the day fields', () => {
+      for (const expression of ['0 0 L * ?', '0 0 LW * *', '0 0 15W * *', '0 0 ? * 5L', '0 0 ? * MON#2']) {
+        expect(getCronSyntaxError(expression)).toBeUndefined()
+      }
+    })
+
+    it('should reject the wrong number of fields', () => {
+      expect(getCronSyntaxError('0 9 * *')).toMatch(/Expected 5 fields .* got 4/)
+      expect(getCronSyntaxError('0 0 9 * * * 2026')).toMatch(/got 7/)
+    })
+
+    it('should name the invalid field', () => {
+      expect(getCronSyntaxError('0 24 * * *')).toBe('Invalid hour field "24": 24 is out of range (0-23)')
+      expect(getCronSyntaxError('60 0 9 * * *')).toMatch(/^Invalid second field/)
+      expect(getCronSyntaxError('0 9 * FOO *')).toMatch(/^Invalid month field/)
+      expect(getCronSyntaxError('0 9 * * 5-1')).toMatch(/reversed/)
+      expect(getCronSyntaxError('*/0 * * * *')).toMatch(/step/)
+    })
+
+    it('should reject misplaced special characters', () => {
+      expect(getCronSyntaxError('0 L * * *')).toMatch(/^Invalid hour field/)
+      expect(getCronSyntaxError('0 9 1,L * *')).toMatch(/only value/)
+      expect(getCronSyntaxError('0 9 * * 1#6')).toMatch(/between 1 and 5/)
+      expect(getCronSyntaxError('0 9 ? * ?')).toMatch(/one of/)
+    })
+  })
+
+  describe('createCronIterator', () => {
+    const currentDate = new Date('2026-01-01T00:00:00Z')
+    const take = (expression: string, count: number): string[] => {
+      const iterator = createCronIterator(expression, { timezone: 'UTC', currentDate })
+      return Array.from({ length: count }, () => iterator.next().toISOString().slice(0, 10))
+    }
+
+    it('should run on the nearest weekday', () => {
+      // 2026-02-01 is a Sunday and 2026-03-01 is a Sunday, 2026-08-01 a Saturday
+      expect(take('0 9 1W * *', 3)).toEqual(['2026-01-01', '2026-02-02', '2026-03-02'])
+      expect(take('0 9 1W 8 *', 1)).toEqual(['2026-08-03'])
+      // 2026-01-31 is a Saturday and 2026-05-31 a Sunday
+      expect(take('0 9 LW 1,5 *', 2)).toEqual(['2026-01-30', '2026-05-29'])
+    })
+
+    it('should support L and # days', () => {
+      expect(take('0 9 L * *', 2)).toEqual(['2026-01-31', '2026-02-28'])
+      expect(take('0 9 ? * 1#2', 2)).toEqual(['2026-01-12', '2026-02-09'])
+    })
+
+    it('should support seconds', () => {
+      const iterator = createCronIterator('30 * * * * *', { timezone: 'UTC', currentDate })
+      expect(iterator.next().toISOString()).toBe('2026-01-01T00:00:30.000Z')
+    })
+
+    it('should throw for invalid syntax', () => {
+      expect(() => createCronIterator('0 9 * *')).toThrow(/Expected 5 fields/)
+    })
+  })
+
+  describe('normalizeCronExpression', () => {
+    it('should collapse whitespace and upper-case names', () => {
+      expect(normalizeCronExpression('  0 9  ?  * mon#2 ')).toBe('0 9 ? * MON#2')
+      expect(normalizeCronExpression('0 9 15w * *')).toBe('0 9 15W * *')
+      expect(normalizeCronExpression('@Daily')).toBe('@daily')
+    })
+  })
+
+  describe('mergeRunTimes', () => {
+    it('should sort run times and drop duplicates', () => {
+      const runs = ['2026-03-02T10:00:00Z', '2026-03-02T09:00:00Z', '2026-03-02T10:00:00Z'].map(t => new Date(t))
+      expect(mergeRunTimes(runs).map(d => d.toISOString())).toEqual([
+        '2026-03-02T09:00:00.000Z',
+        '2026-03-02T10:00:00.000Z'
+      ])
+    })
   })
 
   describe('validateCron', () => {
@@ -102,6 +323,18 @@ describe('time utilities', () => {
     })
   })
 
+  describe('formatDuration', () => {
+    it('should format milliseconds', () => {
+      expect(formatDuration(250)).toBe('250ms')
+    })
+
+    it('should format seconds, minutes and hours', () => {
+      expect(formatDuration(5000)).toBe('5s')
+      expect(formatDuration(65000)).toBe('1m 5s')
+      expect(formatDuration(3_720_000)).toBe('1h 2m')
+    })
+  })
+
   describe('getISOTimestamp', () => {
     it('should return ISO formatted timestamp', () => {
       const timestamp = getISOTimestamp()
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createErrorWorkflow,
+  formatAlert,
+  parseAlertSpec,
+  removeErrorWorkflow,
+  setErrorWorkflow
+} from '../../src/workflows/alerts.js'
+import { createManifest } from '../../src/workflows/manifest.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+
+describe('alerts', () => {
+  const manifest = createManifest('nightly-sync', 'Nightly Sync', 'cron-only', '0 2 * * *', 'UTC')
+
+  describe('parseAlertSpec', () => {
+    it('should parse each destination type', () => {
+      expect(parseAlertSpec('slack:https://hooks.slack.com/services/T/B/X'))
+        .toEqual({ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/T/B/X' })
+      expect(parseAlertSpec('email:ops@example.com')).toEqual({ type: 'email', to: 'ops@example.com' })
+      expect(parseAlertSpec('HTTP:https://alerts.example.com/hook'))
+        .toEqual({ type: 'http', url: 'https://alerts.example.com/hook' })
+    })
+
+    it('should round-trip through formatAlert', () => {
+      const spec = 'http:https://alerts.example.com/hook'
+      expect(formatAlert(parseAlertSpec(spec))).toBe(spec)
+    })
+
+    it('should reject unknown types and invalid targets', () => {
+      expect(() => parseAlertSpec('pager:123')).toThrow('Invalid alert destination: pager:123')
+      expect(() => parseAlertSpec('https://hooks.example.com')).toThrow('Invalid alert destination')
+      expect(() => parseAlertSpec('email:not-an-address')).toThrow('Invalid alert destination')
+    })
+  })
+
+  describe('createErrorWorkflow', () => {
+    it('should connect an Error Trigger to the notifier', () => {
+      const workflow = createErrorWorkflow(manifest, { type: 'slack', webhookUrl: 'https://hooks.slack.com/services/T/B/X' })
+
+      expect(workflow.name).toBe('Nightly Sync (cron8n alerts)')
+      expect(workflow.nodes.map(n => n.type)).toEqual(['n8n-nodes-base.errorTrigger', 'n8n-nodes-base.httpRequest'])
+      expect(workflow.nodes[1]!.parameters!['url']).toBe('https://hooks.slack.com/services/T/B/X')
+      expect(workflow.connections['Error Trigger']).toEqual({ main: [[{ node: 'Notify', type: 'main', index: 0 }]] })
+    })
+
+    it('should send email alerts from the recipient by default', () => {
+      const workflow = createErrorWorkflow(manifest, { type: 'email', to: 'ops@example.com' })
+      const notify = workflow.nodes[1]!
+
+      expect(notify.type).toBe('n8n-nodes-base.emailSend')
+      expect(notify.parameters).toMatchObject({ toEmail: 'ops@example.com', fromEmail: 'ops@example.com' })
+    })
+
+    it('should add the owner and runbook to alert messages', () => {
+      const owned = { ...manifest, owner: 'team-payments', runbookUrl: 'https://wiki.example.com/sync' }
+      const slack = createErrorWorkflow(owned, { type: 'slack', webhookUrl: 'https://hooks.slack.com/services/T/B/X' })
+      const http = createErrorWorkflow(owned, { type: 'http', url: 'https://alerts.example.com/hook' })
+
+      expect(slack.nodes[1]!.parameters!['jsonBody']).toContain('Owner: team-payments\\nRunbook: https://wiki.example.com/sync')
+      expect(http.nodes[1]!.parameters!['jsonBody']).toContain('owner: "team-payments"')
+    })
+
+    it('should include the slug in generic HTTP alerts', () => {
+      const workflow = createErrorWorkflow(manifest, { type: 'http', url: 'https://alerts.example.com/hook' })
+      expect(workflow.nodes[1]!.parameters!['jsonBody']).toContain('slug: "nightly-sync"')
+    })
+  })
+
+  describe('error workflow setting', () => {
+    const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+    it('should set and remove the error workflow', () => {
+      const deployed = setErrorWorkflow(workflow, '42')
+      expect(deployed.settings).toEqual({ executionOrder: 'v1', errorWorkflow: '42' })
+      expect(removeErrorWorkflow(deployed, '42').settings).toEqual({ executionOrder: 'v1' })
+    })
+
+    it('should keep an error workflow chosen in n8n', () => {
+      const deployed = setErrorWorkflow(workflow, '99')
+      expect(removeErrorWorkflow(deployed, '42')).toBe(deployed)
+      expect(removeErrorWorkflow(deployed)).toBe(deployed)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeSchedules,
+  getManifestSchedules,
+  getRemoteSchedules,
+  offsetCronMinute
+} from '../../src/workflows/analyze.js'
+import { createManifest } from '../../src/workflows/manifest.js'
+import type { N8nWorkflow, N8nNode } from '../../src/api/n8nClient.js'
+
+describe('analyze', () => {
+  const options = { from: new Date('2026-03-02T00:00:00Z'), days: 1, threshold: 3, duration: 5 }
+
+  describe('analyzeSchedules', () => {
+    it('should report jobs firing at the same UTC minute', () => {
+      const schedules = [
+        createManifest('a', 'A', 'cron-only', '0 0 * * *', 'UTC'),
+        createManifest('b', 'B', 'cron-only', '0 3 * * *', 'Europe/Istanbul'),
+        createManifest('c', 'C', 'cron-only', '0 0 * * *', 'UTC'),
+        createManifest('d', 'D', 'cron-only', '0 12 * * *', 'UTC')
+      ]
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.collisions).toEqual([{ time: '00:00', jobs: ['a', 'b', 'c'], occurrences: 1 }])
+      expect(report.runs).toBe(4)
+    })
+
+    it('should ignore collisions below the threshold', () => {
+      const schedules = [
+        createManifest('a', 'A', 'cron-only', '0 0 * * *', 'UTC'),
+        createManifest('b', 'B', 'cron-only', '0 0 * * *', 'UTC')
+      ]
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.collisions).toEqual([])
+    })
+
+    it('should report runs that overlap within the expected duration', () => {
+      const schedules = [
+        createManifest('a', 'A', 'cron-only', '0 6 * * *', 'UTC'),
+        createManifest('b', 'B', 'cron-only', '3 6 * * *', 'UTC'),
+        createManifest('c', 'C', 'cron-only', '10 6 * * *', 'UTC')
+      ]
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.overlaps).toEqual([{ jobs: ['a', 'b'], count: 1 }])
+    })
+
+    it('should report jobs that overlap with themselves', () => {
+      const schedules = [
+        createManifest('frequent', 'Frequent', 'cron-only', '*/2 * * * *', 'UTC'),
+        createManifest('hourly', 'Hourly', 'cron-only', '0 * * * *', 'UTC')
+      ]
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.selfOverlaps).toEqual([{ job: 'frequent', minGapMinutes: 2 }])
+    })
+
+    it('should suggest offsets for colliding jobs', () => {
+      const schedules = ['a', 'b', 'c'].map(slug => createManifest(slug, slug, 'cron-only', '0 9 * * *', 'UTC'))
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.suggestions).toEqual([
+        { job: 'b', from: '0 9 * * *', to: '5 9 * * *', offsetMinutes: 5 },
+        { job: 'c', from: '0 9 * * *', to: '10 9 * * *', offsetMinutes: 10 }
+      ])
+      expect(report.unresolved).toEqual([])
+    })
+
+    it('should report collisions that cannot be offset', () => {
+      const schedules = [
+        createManifest('a', 'A', 'cron-only', '0 9 * * *', 'UTC'),
+        createManifest('b', 'B', 'cron-only', '0 * * * *', 'UTC'),
+        createManifest('c', 'C', 'cron-only', '0,30 9 * * *', 'UTC')
+      ]
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.suggestions).toHaveLength(1)
+      expect(report.unresolved).toEqual(['c'])
+    })
+
+    it('should suggest offsets for the colliding schedule of a job', () => {
+      const z = createManifest('z', 'Z', 'cron-only', '0 6 * * *', 'UTC')
+      z.additionalSchedules = [{ cronExpression: '0 9 * * *', timezone: 'UTC' }]
+      const schedules = getManifestSchedules([
+        createManifest('b', 'B', 'cron-only', '0 9 * * *', 'UTC'),
+        createManifest('c', 'C', 'cron-only', '0 9 * * *', 'UTC'),
+        z
+      ])
+      const report = analyzeSchedules(schedules, options)
+
+      expect(report.collisions).toEqual([{ time: '09:00', jobs: ['b', 'c', 'z#2'], occurrences: 1 }])
+      expect(report.suggestions).toEqual([
+        { job: 'c', from: '0 9 * * *', to: '5 9 * * *', offsetMinutes: 5 },
+        { job: 'z#2', from: '0 9 * * *', to: '10 9 * * *', offsetMinutes: 10 }
+      ])
+    })
+
+    it('should not report the schedules of a job as overlapping each other', () => {
+      const a = createManifest('a', 'A', 'cron-only', '0 9 * * *', 'UTC')
+      a.additionalSchedules = [{ cronExpression: '2 9 * * *', timezone: 'UTC' }]
+      const report = analyzeSchedules(getManifestSchedules([a]), options)
+
+      expect(report.overlaps).toEqual([])
+      expect(report.selfOverlaps).toEqual([{ job: 'a', minGapMinutes: 2 }])
+    })
+
+    it('should report invalid expressions', () => {
+      const report = analyzeSchedules([createManifest('bad', 'Bad', 'cron-only', 'nope', 'UTC')], options)
+
+      expect(report.invalid).toEqual(['bad'])
+      expect(report.runs).toBe(0)
+    })
+  })
+
+  describe('getManifestSchedules', () => {
+    it('should include additional schedules', () => {
+      const manifest = createManifest('a', 'A', 'cron-only', '0 9 * * *', 'UTC')
+      manifest.additionalSchedules = [{ cronExpression: '0 18 * * *', timezone: 'Europe/Berlin' }]
+
+      expect(getManifestSchedules([manifest])).toEqual([
+        { slug: 'a', name: 'A', cronExpression: '0 9 * * *', timezone: 'UTC' },
+        { slug: 'a', name: 'A', cronExpression: '0 18 * * *', timezone: 'Europe/Berlin' }
+      ])
+    })
+  })
+
+  describe('offsetCronMinute', () => {
+    it('should shift a single minute value', () => {
+      expect(offsetCronMinute('0 9 * * 1-5', 15)).toBe('15 9 * * 1-5')
+      expect(offsetCronMinute('30 0 9 * * *', 5)).toBe('30 5 9 * * *')
+    })
+
+    it('should not shift lists, steps or past the hour', () => {
+      expect(offsetCronMinute('0,30 9 * * *', 5)).toBeUndefined()
+      expect(offsetCronMinute('*/5 * * * *', 1)).toBeUndefined()
+      expect(offsetCronMinute('55 9 * * *', 10)).toBeUndefined()
+    })
+  })
+
+  describe('getRemoteSchedules', () => {
+    const createCronNode = (name: string, expression: string, timezone?: string): N8nNode => ({
+      name,
+      type: 'n8n-nodes-base.scheduleTrigger',
+      position: [250, 300],
+      parameters: {
+        rule: { interval: [{ field: 'cronExpression', expression }] },
+        ...(timezone ? { options: { timezone } } : {})
+      }
+    })
+
+    const createWorkflow = (overrides?: Partial<N8nWorkflow>): N8nWorkflow => ({
+      id: '123',
+      name: 'Remote',
+      active: true,
+      nodes: [createCronNode('Schedule Trigger', '0 * * * *', 'Europe/Istanbul')],
+      connections: {},
+      tags: [],
+      ...overrides
+    })
+
+    it('should use cron nodes of active workflows', () => {
+      const schedules = getRemoteSchedules([
+        createWorkflow(),
+        createWorkflow({ id: '456', active: false })
+      ])
+
+      expect(schedules).toEqual([
+        { slug: '123', name: 'Remote', cronExpression: '0 * * * *', timezone: 'Europe/Istanbul' }
+      ])
+    })
+
+    it('should fall back to the workflow timezone setting', () => {
+      const schedules = getRemoteSchedules([
+        createWorkflow({
+          nodes: [createCronNode('Schedule Trigger', '0 9 * * *')],
+          settings: { timezone: 'America/New_York' }
+        })
+      ])
+
+      expect(schedules[0]!.timezone).toBe('America/New_York')
+    })
+
+    it('should name schedules by node when a workflow has several', () => {
+      const schedules = getRemoteSchedules([
+        createWorkflow({
+          nodes: [createCronNode('Morning', '0 9 * * *'), createCronNode('Evening', '0 18 * * *')]
+        })
+      ])
+
+      expect(schedules.map(s => [s.slug, s.timezone])).toEqual([
+        ['123:Morning', 'UTC'],
+        ['123:Evening', 'UTC']
+      ])
+    })
+
+    it('should include every interval of a node', () => {
+      const node = createCronNode('Schedule Trigger', '0 9 * * *')
+      node.parameters = {
+        rule: { interval: [{ field: 'cronExpression', expression: '0 9 * * *' }, { field: 'minutes', minutesInterval: 30 }] }
+      }
+      const schedules = getRemoteSchedules([createWorkflow({ nodes: [node] })])
+
+      expect(schedules.map(s => [s.slug, s.cronExpression])).toEqual([
+        ['123:Schedule Trigger#1', '0 9 * * *'],
+        ['123:Schedule Trigger#2', '*/30 * * * *']
+      ])
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  expandSchedules,
+  buildHourlyGrid,
+  getBusiestSlots,
+  getZonedHour
+} from '../../src/workflows/calendar.js'
+import { createManifest } from '../../src/workflows/manifest.js'
+
+describe('calendar', () => {
+  const from = new Date('2026-03-02T00:00:00Z')
+  const to = new Date('2026-03-03T00:00:00Z')
+
+  describe('expandSchedules', () => {
+    it('should expand runs within the range, including the start', () => {
+      const manifest = createManifest('six-hourly', 'Six Hourly', 'cron-only', '0 */6 * * *', 'UTC')
+      const { events } = expandSchedules([manifest], from, to)
+
+      expect(events.map(e => e.time.toISOString())).toEqual([
+        '2026-03-02T00:00:00.000Z',
+        '2026-03-02T06:00:00.000Z',
+        '2026-03-02T12:00:00.000Z',
+        '2026-03-02T18:00:00.000Z'
+      ])
+    })
+
+    it('should use each manifest timezone', () => {
+      const manifest = createManifest('istanbul', 'Istanbul', 'cron-only', '0 3 * * *', 'Europe/Istanbul')
+      const { events } = expandSchedules([manifest], from, to)
+
+      expect(events.map(e => e.time.toISOString())).toEqual(['2026-03-02T00:00:00.000Z'])
+    })
+
+    it('should sort events across manifests', () => {
+      const a = createManifest('a', 'A', 'cron-only', '0 12 * * *', 'UTC')
+      const b = createManifest('b', 'B', 'cron-only', '0 6 * * *', 'UTC')
+      const { events } = expandSchedules([a, b], from, to)
+
+      expect(events.map(e => e.slug)).toEqual(['b', 'a'])
+    })
+
+    it('should report invalid expressions', () => {
+      const manifest = createManifest('bad', 'Bad', 'cron-only', 'not a cron', 'UTC')
+      const { events, invalid } = expandSchedules([manifest], from, to)
+
+      expect(events).toEqual([])
+      expect(invalid).toEqual(['bad'])
+    })
+
+    it('should truncate jobs with too many runs', () => {
+      const manifest = createManifest('busy', 'Busy', 'cron-only', '* * * * *', 'UTC')
+      const { events, truncated } = expandSchedules([manifest], from, to, 10)
+
+      expect(events).toHaveLength(10)
+      expect(truncated).toEqual(['busy'])
+    })
+  })
+
+  describe('getZonedHour', () => {
+    it('should return the date and hour in a timezone', () => {
+      const time = new Date('2026-03-02T22:30:00Z')
+      expect(getZonedHour(time, 'UTC')).toEqual({ date: '2026-03-02', hour: 22 })
+      expect(getZonedHour(time, 'Europe/Istanbul')).toEqual({ date: '2026-03-03', hour: 1 })
+    })
+  })
+
+  describe('buildHourlyGrid', () => {
+    it('should bucket events by hour in the display timezone', () => {
+      const manifest = createManifest('midnight', 'Midnight', 'cron-only', '0 0 * * *', 'UTC')
+      const { events } = expandSchedules([manifest], from, to)
+      const grid = buildHourlyGrid(events, from, to, 'Europe/Istanbul')
+
+      expect(grid.map(d => d.date)).toEqual(['2026-03-02', '2026-03-03'])
+      expect(grid[0]!.hours[3]).toHaveLength(1)
+      expect(grid[0]!.hours[0]).toHaveLength(0)
+    })
+
+    it('should include days without events', () => {
+      const grid = buildHourlyGrid([], from, new Date('2026-03-05T00:00:00Z'), 'UTC')
+
+      expect(grid.map(d => d.date)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04'])
+      expect(grid.every(d => d.hours.length === 24)).toBe(true)
+    })
+  })
+
+  describe('getBusiestSlots', () => {
+    it('should rank hours by number of runs', () => {
+      const manifests = [
+        createManifest('a', 'A', 'cron-only', '0 0 * * *', 'UTC'),
+        createManifest('b', 'B', 'cron-only', '30 0 * * *', 'UTC'),
+        createManifest('c', 'C', 'cron-only', '0 9 * * *', 'UTC')
+      ]
+      const { events } = expandSchedules(manifests, from, to)
+      const slots = getBusiestSlots(buildHourlyGrid(events, from, to, 'UTC'))
+
+      expect(slots.map(s => [s.label, s.events.length])).toEqual([
+        ['2026-03-02 00:00', 2],
+        ['2026-03-02 09:00', 1]
+      ])
+    })
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+
+vi.mock('../../src/config/registry.js', () => ({
+  updateWorkflowId: vi.fn()
+}))
+
+vi.mock('../../src/config/store.js', () => ({
+  requireAuth: vi.fn(async () => ({ baseUrl: 'https://n8n.example.com', authMode: 'apiKey', secret: 'key' }))
+}))
+
+import { deployWorkflow } from '../../src/workflows/deploy.js'
+import { createManifest, saveManifest, loadManifest } from '../../src/workflows/manifest.js'
+import { isRunTriggerNode } from '../../src/workflows/runTrigger.js'
+import { setErrorWorkflow } from '../../src/workflows/alerts.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+import { ApiError } from '../../src/utils/errors.js'
+import type { N8nClient, N8nWorkflow } from '../../src/api/n8nClient.js'
+
+describe('deploy', () => {
+  describe('deployWorkflow', () => {
+    let basePath: string | undefined
+
+    afterEach(async () => {
+      if (basePath) {
+        await rm(basePath, { recursive: true, force: true })
+        basePath = undefined
+      }
+    })
+
+    function createDeployClient() {
+      return {
+        baseUrl: 'https://n8n.example.com',
+        createWorkflow: vi.fn(async (workflow: N8nWorkflow) => ({ ...workflow, id: '1' })),
+        createCredential: vi.fn().mockResolvedValue({ id: 'c2', name: 'cron8n Run Trigger', type: 'httpHeaderAuth' }),
+        deleteCredential: vi.fn().mockResolvedValue(undefined),
+        addTagsToWorkflow: vi.fn().mockResolvedValue(undefined)
+      }
+    }
+
+    it('should replace the run trigger credential of the previous deploy', async () => {
+      basePath = await mkdtemp(`${tmpdir()}/cron8n-deploy-`)
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.runTriggerPath = 'cron8n-test-abc'
+      manifest.deployments = { default: { workflowId: '1', deployedAt: '', runTriggerCredentialId: 'c1' } }
+      await saveManifest(manifest, basePath)
+      const client = createDeployClient()
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+      const result = await deployWorkflow(client as unknown as N8nClient, manifest, workflow, basePath, 'default')
+
+      expect(client.createCredential).toHaveBeenCalledTimes(1)
+      expect(result.workflow.nodes.some(isRunTriggerNode)).toBe(true)
+      expect(client.deleteCredential).toHaveBeenCalledWith('c1')
+      expect((await loadManifest('test', basePath)).deployments?.['default']?.runTriggerCredentialId).toBe('c2')
+    })
+
+    it('should not create a run trigger credential without a cron node', async () => {
+      basePath = await mkdtemp(`${tmpdir()}/cron8n-deploy-`)
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.runTriggerPath = 'cron8n-test-abc'
+      manifest.deployments = { default: { workflowId: '1', deployedAt: '', runTriggerCredentialId: 'c1' } }
+      await saveManifest(manifest, basePath)
+      const client = createDeployClient()
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+      workflow.nodes = workflow.nodes.filter(node => node.type !== 'n8n-nodes-base.scheduleTrigger')
+
+      const result = await deployWorkflow(client as unknown as N8nClient, manifest, workflow, basePath, 'default')
+
+      expect(client.createCredential).not.toHaveBeenCalled()
+      expect(result.workflow.nodes.some(isRunTriggerNode)).toBe(false)
+      expect(client.deleteCredential).toHaveBeenCalledWith('c1')
+      expect((await loadManifest('test', basePath)).deployments?.['default']?.runTriggerCredentialId).toBeUndefined()
+    })
+
+    it('should delete a new error workflow when the workflow cannot be created', async () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.alert = { type: 'http', url: 'https://alerts.example.com' }
+      const client = {
+        baseUrl: 'https://n8n.example.com',
+        createWorkflow: vi.fn()
+          .mockResolvedValueOnce({ id: '7' })
+          .mockRejectedValueOnce(new ApiError('Invalid workflow', 400)),
+        deleteWorkflow: vi.fn().mockResolvedValue(undefined)
+      }
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+      await expect(deployWorkflow(client as unknown as N8nClient, manifest, workflow, '/tmp', 'default'))
+        .rejects.toThrow('Invalid workflow')
+      expect(client.deleteWorkflow).toHaveBeenCalledWith('7')
+    })
+
+    it('should keep the old error workflow when the alert was removed and the update fails', async () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.deployments = { default: { workflowId: '1', deployedAt: '', errorWorkflowId: '7' } }
+      const client = {
+        baseUrl: 'https://n8n.example.com',
+        updateWorkflow: vi.fn().mockRejectedValue(new ApiError('Invalid workflow', 400)),
+        deleteWorkflow: vi.fn().mockResolvedValue(undefined)
+      }
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+      await expect(deployWorkflow(client as unknown as N8nClient, manifest, workflow, '/tmp', 'default', '1'))
+        .rejects.toThrow('Invalid workflow')
+      expect(client.deleteWorkflow).not.toHaveBeenCalled()
+    })
+
+    it('should delete the old error workflow after the workflow stops using it', async () => {
+      basePath = await mkdtemp(`${tmpdir()}/cron8n-deploy-`)
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.deployments = { default: { workflowId: '1', deployedAt: '', errorWorkflowId: '7' } }
+      await saveManifest(manifest, basePath)
+      const client = {
+        ...createDeployClient(),
+        updateWorkflow: vi.fn(async (workflow: N8nWorkflow) => workflow),
+        deleteWorkflow: vi.fn().mockResolvedValue(undefined)
+      }
+      const workflow = setErrorWorkflow(getTemplate('cron-only').create('Test', '0 * * * *', 'UTC'), '7')
+
+      await deployWorkflow(client as unknown as N8nClient, manifest, workflow, basePath, 'default', '1')
+
+      expect(client.updateWorkflow.mock.calls[0]![0].settings?.['errorWorkflow']).toBeUndefined()
+      expect(client.deleteWorkflow).toHaveBeenCalledWith('7')
+      expect(client.updateWorkflow.mock.invocationCallOrder[0]!)
+        .toBeLessThan(client.deleteWorkflow.mock.invocationCallOrder[0]!)
+    })
+
+    it('should keep an existing error workflow when the update fails', async () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.alert = { type: 'http', url: 'https://alerts.example.com' }
+      manifest.deployments = { default: { workflowId: '1', deployedAt: '', errorWorkflowId: '7' } }
+      const client = {
+        baseUrl: 'https://n8n.example.com',
+        updateWorkflow: vi.fn()
+          .mockResolvedValueOnce({ id: '7' })
+          .mockRejectedValueOnce(new ApiError('Invalid workflow', 400)),
+        deleteWorkflow: vi.fn().mockResolvedValue(undefined)
+      }
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+      await expect(deployWorkflow(client as unknown as N8nClient, manifest, workflow, '/tmp', 'default', '1'))
+        .rejects.toThrow('Invalid workflow')
+      expect(client.deleteWorkflow).not.toHaveBeenCalled()
+    })
+  })
+})
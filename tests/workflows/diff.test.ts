@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { diffWorkflows } from '../../src/workflows/diff.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+import { injectRunTrigger } from '../../src/workflows/runTrigger.js'
+import type { N8nWorkflow } from '../../src/api/n8nClient.js'
+
+describe('workflow diff', () => {
+  const createLocal = (): N8nWorkflow =>
+    getTemplate('http-request').create('Test', '0 * * * *', 'UTC')
+
+  it('should report no drift for identical workflows', () => {
+    const diff = diffWorkflows(createLocal(), createLocal())
+    expect(diff.hasDrift).toBe(false)
+  })
+
+  it('should ignore ids, positions and the run trigger', () => {
+    const remote = injectRunTrigger(createLocal(), 'cron8n-test', { id: 'c1', name: 'cron8n Run Trigger' })
+    remote.id = '123'
+    remote.updatedAt = '2026-02-07T12:00:00Z'
+    for (const node of remote.nodes) {
+      node.id = 'server-id'
+      node.position = [0, 0]
+    }
+
+    expect(diffWorkflows(createLocal(), remote).hasDrift).toBe(false)
+  })
+
+  it('should detect added, removed and changed nodes', () => {
+    const local = createLocal()
+    local.nodes.push({ name: 'Local Only', type: 'n8n-nodes-base.noOp', position: [0, 0] })
+
+    const remote = createLocal()
+    remote.nodes.push({ name: 'Remote Only', type: 'n8n-nodes-base.noOp', position: [0, 0] })
+    remote.nodes[1]!.parameters!['url'] = 'https://api.example.com/changed'
+
+    const diff = diffWorkflows(local, remote)
+
+    expect(diff.hasDrift).toBe(true)
+    expect(diff.nodes.added).toEqual(['Remote Only'])
+    expect(diff.nodes.removed).toEqual(['Local Only'])
+    expect(diff.nodes.changed).toEqual([{
+      name: 'HTTP Request',
+      changes: [{
+        path: 'parameters.url',
+        local: 'https://api.example.com/endpoint',
+        remote: 'https://api.example.com/changed'
+      }]
+    }])
+  })
+
+  it('should detect connection changes', () => {
+    const remote = createLocal()
+    remote.connections = {}
+
+    const diff = diffWorkflows(createLocal(), remote)
+
+    expect(diff.connections.removed).toEqual(['Schedule Trigger[main:0] -> HTTP Request[0]'])
+    expect(diff.connections.added).toEqual([])
+  })
+
+  it('should detect schedule and settings changes', () => {
+    const remote = getTemplate('http-request').create('Test', '30 2 * * *', 'Europe/Berlin')
+    remote.settings = { executionOrder: 'v1', timezone: 'Europe/Berlin' }
+
+    const diff = diffWorkflows(createLocal(), remote)
+
+    expect(diff.schedules).toEqual([{
+      nodeName: 'Schedule Trigger',
+      local: { cronExpression: '0 * * * *', timezone: 'UTC' },
+      remote: { cronExpression: '30 2 * * *', timezone: 'Europe/Berlin' }
+    }])
+    expect(diff.settings).toEqual([{ path: 'timezone', local: undefined, remote: 'Europe/Berlin' }])
+  })
+
+  it('should compare credentials by name only', () => {
+    const local = createLocal()
+    local.nodes[1]!.credentials = { httpHeaderAuth: { id: '1', name: 'API Key' } }
+    const remote = createLocal()
+    remote.nodes[1]!.credentials = { httpHeaderAuth: { id: '99', name: 'API Key' } }
+
+    expect(diffWorkflows(local, remote).hasDrift).toBe(false)
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest'
 import {
   isCronNode,
   extractCronExpression,
+  extractSchedules,
   extractTimezone,
   getCronNodes,
   hasCronTrigger,
@@ -82,6 +83,104 @@ describe('workflow discovery', () => {
       const node = createCronNode({ parameters: {} })
       expect(extractCronExpression(node)).toBeUndefined()
     })
+
+    it('should convert interval modes to cron', () => {
+      const node = createCronNode({
+        parameters: { rule: { interval: [{ field: 'minutes', minutesInterval: 15 }] } }
+      })
+      expect(extractCronExpression(node)).toBe('*/15 * * * *')
+    })
+  })
+
+  describe('extractSchedules', () => {
+    const withIntervals = (...interval: Record<string, unknown>[]): N8nNode =>
+      createCronNode({ parameters: { rule: { interval } } })
+
+    it('should parse every scheduleTrigger interval', () => {
+      const schedules = extractSchedules(withIntervals(
+        { field: 'cronExpression', expression: '0 9 * * 1-5' },
+        { field: 'seconds', secondsInterval: 10 },
+        { field: 'minutes', minutesInterval: 15 },
+        { field: 'hours', hoursInterval: 2, triggerAtMinute: 30 },
+        { field: 'days', triggerAtHour: 9, triggerAtMinute: 15 },
+        { field: 'weeks', triggerAtDay: [1, 3], triggerAtHour: 8 },
+        { field: 'months', triggerAtDayOfMonth: 15, triggerAtHour: 6 }
+      ))
+
+      expect(schedules.map(s => [s.mode, s.cronExpression])).toEqual([
+        ['cronExpression', '0 9 * * 1-5'],
+        ['seconds', '*/10 * * * * *'],
+        ['minutes', '*/15 * * * *'],
+        ['hours', '30 */2 * * *'],
+        ['days', '15 9 * * *'],
+        ['weeks', '0 8 * * 1,3'],
+        ['months', '0 6 15 * *']
+      ])
+      expect(schedules[1]!.description).toBe('Every 10 seconds')
+      expect(schedules[2]!.description).toBe('Every 15 minutes')
+    })
+
+    it('should use n8n defaults for missing parameters', () => {
+      const schedules = extractSchedules(withIntervals({}, { field: 'minutes' }, { field: 'weeks' }))
+
+      expect(schedules.map(s => s.cronExpression)).toEqual(['0 0 * * *', '*/5 * * * *', '0 0 * * 0'])
+    })
+
+    it('should run weekly intervals without a day on Sunday', () => {
+      const [schedule] = extractSchedules(withIntervals({ field: 'weeks', triggerAtHour: 7 }))
+
+      expect(schedule!.cronExpression).toBe('0 7 * * 0')
+    })
+
+    it('should describe intervals without a cron equivalent', () => {
+      const [schedule] = extractSchedules(withIntervals(
+        { field: 'weeks', weeksInterval: 2, triggerAtDay: [1], triggerAtHour: 9 }
+      ))
+
+      expect(schedule).toEqual({ mode: 'weeks', description: 'Every 2 weeks, at 09:00 on Monday' })
+    })
+
+    it('should keep unknown intervals', () => {
+      const [schedule] = extractSchedules(withIntervals({ field: 'fortnights' }))
+
+      expect(schedule!.cronExpression).toBeUndefined()
+      expect(schedule!.description).toContain('fortnights')
+    })
+
+    it('should parse legacy cron node trigger times', () => {
+      const node = createCronNode({
+        type: 'n8n-nodes-base.cron',
+        parameters: {
+          triggerTimes: {
+            item: [
+              { mode: 'everyMinute' },
+              { mode: 'everyHour', minute: 10 },
+              { mode: 'everyDay', hour: 9, minute: 30 },
+              { mode: 'everyWeek', hour: 8, minute: 0, weekday: '5' },
+              { mode: 'everyMonth', hour: 7, minute: 0, dayOfMonth: 2 },
+              { mode: 'everyX', value: 10, unit: 'minutes' },
+              { mode: 'everyX', value: 3, unit: 'hours' },
+              { mode: 'custom', cronExpression: '0 0 1 1 *' }
+            ]
+          }
+        }
+      })
+
+      expect(extractSchedules(node).map(s => s.cronExpression)).toEqual([
+        '* * * * *',
+        '10 * * * *',
+        '30 9 * * *',
+        '0 8 * * 5',
+        '0 7 2 * *',
+        '*/10 * * * *',
+        '0 */3 * * *',
+        '0 0 1 1 *'
+      ])
+    })
+
+    it('should return no schedules without parameters', () => {
+      expect(extractSchedules(createCronNode({ parameters: {} }))).toEqual([])
+    })
   })
 
   describe('extractTimezone', () => {
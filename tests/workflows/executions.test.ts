@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getExecutionStatus,
+  getExecutionDuration,
+  getExecutionError,
+  getExecutionOutput,
+  isExecutionFinished,
+  summarizeExecution
+} from '../../src/workflows/executions.js'
+import type { N8nExecution } from '../../src/api/n8nClient.js'
+
+describe('execution helpers', () => {
+  const createExecution = (overrides?: Partial<N8nExecution>): N8nExecution => ({
+    id: '1',
+    workflowId: '123',
+    finished: true,
+    mode: 'trigger',
+    status: 'success',
+    startedAt: '2026-02-07T10:00:00.000Z',
+    stoppedAt: '2026-02-07T10:00:05.000Z',
+    ...overrides
+  })
+
+  describe('getExecutionStatus', () => {
+    it('should use reported status', () => {
+      expect(getExecutionStatus(createExecution({ status: 'error' }))).toBe('error')
+    })
+
+    it('should derive status when not reported', () => {
+      expect(getExecutionStatus(createExecution({ status: undefined }))).toBe('success')
+      expect(getExecutionStatus(createExecution({ status: undefined, finished: false }))).toBe('error')
+      expect(getExecutionStatus(createExecution({ status: undefined, stoppedAt: null }))).toBe('running')
+    })
+  })
+
+  describe('getExecutionDuration', () => {
+    it('should compute duration from start and stop times', () => {
+      expect(getExecutionDuration(createExecution())).toBe(5000)
+    })
+
+    it('should return undefined for running executions', () => {
+      expect(getExecutionDuration(createExecution({ stoppedAt: null }))).toBeUndefined()
+    })
+  })
+
+  describe('getExecutionError', () => {
+    it('should extract error message with last node', () => {
+      const execution = createExecution({
+        status: 'error',
+        data: {
+          resultData: {
+            lastNodeExecuted: 'HTTP Request',
+            error: { message: 'Request failed with status code 500' }
+          }
+        }
+      })
+
+      expect(getExecutionError(execution)).toBe('HTTP Request: Request failed with status code 500')
+    })
+
+    it('should return undefined without data', () => {
+      expect(getExecutionError(createExecution())).toBeUndefined()
+    })
+  })
+
+  describe('isExecutionFinished', () => {
+    it('should detect final and pending states', () => {
+      expect(isExecutionFinished(createExecution())).toBe(true)
+      expect(isExecutionFinished(createExecution({ status: 'error' }))).toBe(true)
+      expect(isExecutionFinished(createExecution({ status: 'running' }))).toBe(false)
+    })
+  })
+
+  describe('getExecutionOutput', () => {
+    it('should return json items of the last executed node', () => {
+      const execution = createExecution({
+        data: {
+          resultData: {
+            lastNodeExecuted: 'HTTP Request',
+            runData: {
+              'HTTP Request': [{ data: { main: [[{ json: { ok: true } }]] } }]
+            }
+          }
+        }
+      })
+
+      expect(getExecutionOutput(execution)).toEqual([{ ok: true }])
+    })
+
+    it('should return undefined without data', () => {
+      expect(getExecutionOutput(createExecution())).toBeUndefined()
+    })
+  })
+
+  describe('summarizeExecution', () => {
+    it('should summarize execution', () => {
+      const summary = summarizeExecution(createExecution())
+
+      expect(summary.id).toBe('1')
+      expect(summary.status).toBe('success')
+      expect(summary.durationMs).toBe(5000)
+      expect(summary.error).toBeUndefined()
+    })
+  })
+})
@@ -5,6 +5,19 @@ import {
   getWorkflowsDir,
   getWorkflowPath,
   getManifestPath,
+  getDeployment,
+  getDeployedWorkflowId,
+  requireDeployedWorkflowId,
+  setDeployment,
+  parseManifest,
+  getSchedules,
+  setSchedules,
+  parseScheduleSpec,
+  getDeployTags,
+  validateTags,
+  setManifestMetadata,
+  matchesManifestFilter,
+  matchesWorkflowFilter,
   ManifestSchema
 } from '../../src/workflows/manifest.js'
 
@@ -122,4 +135,179 @@ describe('manifest utilities', () => {
       expect(result.success).toBe(false)
     })
   })
+
+  describe('parseManifest', () => {
+    const legacyManifest = {
+      slug: 'test',
+      name: 'Test',
+      createdAt: '2026-02-07T10:00:00Z',
+      template: 'cron-only',
+      cronExpression: '0 * * * *',
+      timezone: 'UTC',
+      tags: [],
+      lastDeployedWorkflowId: '123',
+      lastDeployedAt: '2026-02-07T12:00:00Z'
+    }
+
+    it('should migrate legacy deployment fields into the default environment', () => {
+      const manifest = parseManifest(legacyManifest)
+
+      expect(manifest.deployments).toEqual({
+        default: { workflowId: '123', deployedAt: '2026-02-07T12:00:00Z' }
+      })
+      expect(manifest).not.toHaveProperty('lastDeployedWorkflowId')
+      expect(manifest).not.toHaveProperty('lastDeployedAt')
+    })
+
+    it('should not overwrite an existing default deployment', () => {
+      const manifest = parseManifest({
+        ...legacyManifest,
+        deployments: { default: { workflowId: '456', deployedAt: '2026-03-01T00:00:00Z' } }
+      })
+
+      expect(getDeployedWorkflowId(manifest, 'default')).toBe('456')
+    })
+
+    it('should leave manifests without deployments unchanged', () => {
+      const { lastDeployedWorkflowId, lastDeployedAt, ...minimal } = legacyManifest
+      const manifest = parseManifest(minimal)
+
+      expect(manifest.deployments).toBeUndefined()
+    })
+  })
+
+  describe('deployments', () => {
+    it('should record deployments per environment', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      setDeployment(manifest, 'staging', '1', 'https://staging.example.com')
+      setDeployment(manifest, 'prod', '2', 'https://n8n.example.com')
+
+      expect(getDeployedWorkflowId(manifest, 'staging')).toBe('1')
+      expect(getDeployedWorkflowId(manifest, 'prod')).toBe('2')
+      expect(getDeployment(manifest, 'prod')?.baseUrl).toBe('https://n8n.example.com')
+      expect(getDeployment(manifest, 'prod')?.deployedAt).toBeTruthy()
+      expect(getDeployment(manifest, 'default')).toBeUndefined()
+    })
+
+    it('should require a deployment in the environment', () => {
+      const manifest = setDeployment(
+        createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC'),
+        'staging',
+        '1'
+      )
+
+      expect(requireDeployedWorkflowId(manifest, 'staging')).toBe('1')
+      expect(() => requireDeployedWorkflowId(manifest, 'prod')).toThrow('not deployed to "prod"')
+    })
+  })
+
+  describe('schedules', () => {
+    it('should return the primary schedule first', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '*/10 9-17 * * 1-5', 'Europe/Berlin')
+      manifest.additionalSchedules = [{ cronExpression: '0 0-8,18-23 * * *', timezone: 'Europe/Berlin' }]
+
+      expect(getSchedules(manifest)).toEqual([
+        { cronExpression: '*/10 9-17 * * 1-5', timezone: 'Europe/Berlin' },
+        { cronExpression: '0 0-8,18-23 * * *', timezone: 'Europe/Berlin' }
+      ])
+    })
+
+    it('should set the primary and additional schedules', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+
+      setSchedules(manifest, [
+        { cronExpression: '0 9 * * *', timezone: 'Europe/Berlin' },
+        { cronExpression: '0 18 * * *', timezone: 'UTC' }
+      ])
+      expect(manifest.cronExpression).toBe('0 9 * * *')
+      expect(manifest.timezone).toBe('Europe/Berlin')
+      expect(manifest.additionalSchedules).toEqual([{ cronExpression: '0 18 * * *', timezone: 'UTC' }])
+
+      setSchedules(manifest, [{ cronExpression: '0 9 * * *', timezone: 'UTC' }])
+      expect(manifest.additionalSchedules).toBeUndefined()
+    })
+
+    it('should require at least one schedule', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      expect(() => setSchedules(manifest, [])).toThrow('at least one schedule')
+    })
+
+    it('should parse schedule specs with an optional timezone', () => {
+      expect(parseScheduleSpec('0 9 * * *', 'UTC')).toEqual({ cronExpression: '0 9 * * *', timezone: 'UTC' })
+      expect(parseScheduleSpec('0 9 * * *@Europe/Berlin', 'UTC')).toEqual({
+        cronExpression: '0 9 * * *',
+        timezone: 'Europe/Berlin'
+      })
+      expect(parseScheduleSpec('@daily', 'UTC')).toEqual({ cronExpression: '@daily', timezone: 'UTC' })
+    })
+
+    it('should accept manifests with additional schedules', () => {
+      const manifest = parseManifest({
+        ...createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC'),
+        additionalSchedules: [{ cronExpression: '30 * * * *', timezone: 'UTC' }]
+      })
+      expect(manifest.additionalSchedules).toHaveLength(1)
+    })
+  })
+
+  describe('metadata', () => {
+    const createOwnedManifest = () => {
+      const manifest = createManifest('payouts', 'Payouts', 'cron-only', '0 * * * *', 'UTC')
+      manifest.tags.push('team:payments')
+      setManifestMetadata(manifest, { owner: 'Alice', labels: { tier: '1' } })
+      return manifest
+    }
+
+    it('should push the cron8n tags, user tags and owner', () => {
+      expect(getDeployTags(createOwnedManifest())).toEqual([
+        'managed-by:cron8n',
+        'cron8n:payouts',
+        'team:payments',
+        'owner:Alice'
+      ])
+    })
+
+    it('should reject empty and managed tags', () => {
+      expect(validateTags([' team:ops '], 'payouts')).toEqual(['team:ops'])
+      expect(() => validateTags([' '], 'payouts')).toThrow('Tags cannot be empty')
+      expect(() => validateTags(['cron8n:payouts'], 'payouts')).toThrow('managed by cron8n')
+      expect(() => validateTags(['cron8n:other'], 'payouts')).toThrow('managed by cron8n')
+      expect(() => validateTags(['managed-by:cron8n'], 'payouts')).toThrow('managed by cron8n')
+      expect(() => validateTags(['owner:ops'], 'payouts')).toThrow('managed by cron8n')
+    })
+
+    it('should set and remove metadata and report changes', () => {
+      const manifest = createOwnedManifest()
+      const changed = setManifestMetadata(manifest, {
+        owner: '',
+        runbookUrl: 'https://wiki.example.com/payouts',
+        labels: { tier: '', region: 'eu' }
+      })
+
+      expect(changed).toEqual(['owner', 'runbookUrl', 'labels.tier', 'labels.region'])
+      expect(manifest.owner).toBeUndefined()
+      expect(manifest.labels).toEqual({ region: 'eu' })
+      expect(ManifestSchema.safeParse(manifest).success).toBe(true)
+      expect(() => setManifestMetadata(manifest, { runbookUrl: 'wiki/payouts' })).toThrow('Invalid runbook URL')
+    })
+
+    it('should filter by tags, owner and labels', () => {
+      const manifest = createOwnedManifest()
+
+      expect(matchesManifestFilter(manifest, { tags: ['team:payments'], owner: 'alice' })).toBe(true)
+      expect(matchesManifestFilter(manifest, { labels: { tier: '1' } })).toBe(true)
+      expect(matchesManifestFilter(manifest, { tags: ['team:payments', 'team:ops'] })).toBe(false)
+      expect(matchesManifestFilter(manifest, { owner: 'bob' })).toBe(false)
+      expect(matchesManifestFilter(manifest, { labels: { tier: '2' } })).toBe(false)
+    })
+
+    it('should filter remote workflows by tags and owner, ignoring the owner case', () => {
+      const workflow = { tags: [{ id: '1', name: 'team:payments' }, { id: '2', name: 'owner:Alice' }] }
+
+      expect(matchesWorkflowFilter(workflow, { tags: ['team:payments'], owner: 'alice' })).toBe(true)
+      expect(matchesWorkflowFilter(workflow, { owner: 'ALICE' })).toBe(true)
+      expect(matchesWorkflowFilter(workflow, { owner: 'bob' })).toBe(false)
+      expect(matchesWorkflowFilter(workflow, { tags: ['team:ops'] })).toBe(false)
+    })
+  })
 })
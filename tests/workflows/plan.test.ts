@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest'
+import { createPlan, hasChanges, type PlanInput } from '../../src/workflows/plan.js'
+import { createManifest, setDeployment, type Manifest } from '../../src/workflows/manifest.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+import { createErrorWorkflow } from '../../src/workflows/alerts.js'
+import { injectRunTrigger } from '../../src/workflows/runTrigger.js'
+import { analyzeWorkflow } from '../../src/workflows/discover.js'
+import type { N8nWorkflow } from '../../src/api/n8nClient.js'
+
+describe('plan', () => {
+  const createLocal = (name = 'Test'): N8nWorkflow =>
+    getTemplate('cron-only').create(name, '0 * * * *', 'UTC')
+
+  const createRemote = (id: string, slug: string, overrides: Partial<N8nWorkflow> = {}): N8nWorkflow => ({
+    ...createLocal(),
+    id,
+    active: false,
+    tags: [
+      { id: '1', name: 'managed-by:cron8n' },
+      { id: '2', name: `cron8n:${slug}` }
+    ],
+    ...overrides
+  })
+
+  const createDeployed = (slug: string, workflowId: string, env = 'default'): Manifest =>
+    setDeployment(createManifest(slug, 'Test', 'cron-only', '0 * * * *', 'UTC'), env, workflowId)
+
+  const createInput = (manifests: Manifest[], remotes: N8nWorkflow[]): PlanInput => ({
+    env: 'default',
+    manifests,
+    localWorkflows: new Map(manifests.map(m => [m.slug, createLocal()])),
+    managed: remotes.map(analyzeWorkflow),
+    remoteWorkflows: new Map(remotes.map(w => [w.id!, w]))
+  })
+
+  it('should create workflows that are not deployed', () => {
+    const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+    const plan = createPlan(createInput([manifest], []))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'create', slug: 'test' })
+    ])
+    expect(plan.summary.create).toBe(1)
+  })
+
+  it('should report unchanged workflows', () => {
+    const manifest = createDeployed('test', '1')
+    const plan = createPlan(createInput([manifest], [createRemote('1', 'test')]))
+
+    expect(hasChanges(plan)).toBe(false)
+    expect(plan.unchanged).toEqual(['test'])
+  })
+
+  it('should update drifted workflows matched by slug tag', () => {
+    const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+    const remote = createRemote('1', 'test', { name: 'Renamed in UI' })
+    const plan = createPlan(createInput([manifest], [remote]))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'update', slug: 'test', workflowId: '1' })
+    ])
+  })
+
+  const createAlerted = (): Manifest => {
+    const manifest = setDeployment(createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC'), 'default', '1', undefined, { errorWorkflowId: '7' })
+    manifest.alert = { type: 'http', url: 'https://alerts.example.com' }
+    return manifest
+  }
+
+  const withErrorWorkflow = (input: PlanInput, errorWorkflow: N8nWorkflow): PlanInput => {
+    input.remoteWorkflows.set('7', { ...errorWorkflow, id: '7' })
+    return input
+  }
+
+  it('should ignore the error workflow setting added on deploy', () => {
+    const manifest = createAlerted()
+    const remote = createRemote('1', 'test', { settings: { executionOrder: 'v1', errorWorkflow: '7' } })
+    const input = withErrorWorkflow(createInput([manifest], [remote]), createErrorWorkflow(manifest, manifest.alert!))
+
+    expect(hasChanges(createPlan(input))).toBe(false)
+  })
+
+  it('should update workflows whose alert destination changed', () => {
+    const manifest = createAlerted()
+    const remote = createRemote('1', 'test', { settings: { executionOrder: 'v1', errorWorkflow: '7' } })
+    const deployed = createErrorWorkflow(manifest, { type: 'http', url: 'https://old.example.com' })
+    const plan = createPlan(withErrorWorkflow(createInput([manifest], [remote]), deployed))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'update', slug: 'test', reason: 'alert changed' })
+    ])
+  })
+
+  it('should update workflows whose alert owner or runbook changed', () => {
+    const manifest = createAlerted()
+    const remote = createRemote('1', 'test', {
+      settings: { executionOrder: 'v1', errorWorkflow: '7' },
+      tags: [...createRemote('1', 'test').tags!, { id: '3', name: 'owner:payments' }]
+    })
+    const deployed = createErrorWorkflow(manifest, manifest.alert!)
+    manifest.owner = 'payments'
+    manifest.runbookUrl = 'https://wiki.example.com/runbooks/test'
+    const plan = createPlan(withErrorWorkflow(createInput([manifest], [remote]), deployed))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'update', slug: 'test', reason: 'alert changed' })
+    ])
+  })
+
+  it('should update workflows missing deploy tags', () => {
+    const manifest = createDeployed('test', '1')
+    manifest.tags = ['team:billing']
+    manifest.owner = 'payments'
+    const plan = createPlan(createInput([manifest], [createRemote('1', 'test')]))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'update', slug: 'test', reason: 'missing tags: team:billing, owner:payments' })
+    ])
+  })
+
+  it('should update workflows whose error workflow was deleted', () => {
+    const manifest = createAlerted()
+    const remote = createRemote('1', 'test', { settings: { executionOrder: 'v1', errorWorkflow: '7' } })
+    const plan = createPlan(createInput([manifest], [remote]))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'update', slug: 'test', reason: 'error workflow not found on server' })
+    ])
+  })
+
+  it('should update workflows whose alert destination is not deployed', () => {
+    const manifest = createDeployed('test', '1')
+    manifest.alert = { type: 'slack', webhookUrl: 'https://hooks.slack.com/services/T/B/X' }
+    const plan = createPlan(createInput([manifest], [createRemote('1', 'test')]))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'update', slug: 'test', reason: 'alert destination not deployed' })
+    ])
+  })
+
+  it('should activate and deactivate based on manifest state', () => {
+    const active = { ...createManifest('a', 'Test', 'cron-only', '0 * * * *', 'UTC'), active: true }
+    const inactive = { ...createManifest('b', 'Test', 'cron-only', '0 * * * *', 'UTC'), active: false }
+    const plan = createPlan(createInput(
+      [active, inactive],
+      [createRemote('1', 'a'), createRemote('2', 'b', { active: true })]
+    ))
+
+    expect(plan.actions.map(a => [a.type, a.slug])).toEqual([
+      ['activate', 'a'],
+      ['deactivate', 'b']
+    ])
+  })
+
+  it('should delete orphaned managed workflows', () => {
+    const plan = createPlan(createInput([], [createRemote('9', 'removed')]))
+
+    expect(plan.actions).toEqual([
+      expect.objectContaining({ type: 'delete', slug: 'removed', workflowId: '9' })
+    ])
+  })
+
+  it('should delete the error workflow and run trigger credential of orphaned workflows', () => {
+    const remote = createRemote('9', 'removed', {
+      ...injectRunTrigger(createLocal(), 'cron8n-removed', { id: 'c1', name: 'cron8n Run Trigger' }),
+      settings: { executionOrder: 'v1', errorWorkflow: '7' }
+    })
+    const errorWorkflow = createErrorWorkflow(
+      createManifest('removed', 'Test', 'cron-only', '0 * * * *', 'UTC'),
+      { type: 'http', url: 'https://alerts.example.com' }
+    )
+    const plan = createPlan(withErrorWorkflow(createInput([], [remote]), errorWorkflow))
+
+    expect(plan.actions[0]?.resources).toEqual({ errorWorkflowId: '7', runTriggerCredentialId: 'c1' })
+  })
+
+  it('should not delete error workflows cron8n did not generate', () => {
+    const remote = createRemote('9', 'removed', { settings: { executionOrder: 'v1', errorWorkflow: '7' } })
+    const plan = createPlan(withErrorWorkflow(createInput([], [remote]), { ...createLocal('Shared errors'), id: '7' }))
+
+    expect(plan.actions[0]?.resources).toEqual({})
+  })
+
+  it('should not delete workflows whose local file is missing', () => {
+    const manifest = createDeployed('test', '1')
+    const input = createInput([manifest], [createRemote('1', 'test')])
+    input.localWorkflows.clear()
+
+    const plan = createPlan(input)
+
+    expect(plan.actions).toEqual([])
+    expect(plan.warnings).toHaveLength(1)
+  })
+
+  it('should only use the deployment of the planned environment', () => {
+    const manifest = createDeployed('test', '1', 'prod')
+    const plan = createPlan(createInput([manifest], [createRemote('1', 'other')]))
+
+    expect(plan.actions.map(a => [a.type, a.slug])).toEqual([
+      ['create', 'test'],
+      ['delete', 'other']
+    ])
+    expect(plan.actions[0]?.reason).toBe('not deployed yet')
+  })
+
+  it('should order actions by type', () => {
+    const manifest = createManifest('new', 'Test', 'cron-only', '0 * * * *', 'UTC')
+    const plan = createPlan(createInput([manifest], [createRemote('9', 'removed')]))
+
+    expect(plan.actions.map(a => a.type)).toEqual(['create', 'delete'])
+  })
+})
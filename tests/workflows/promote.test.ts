@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { promoteWorkflow } from '../../src/workflows/promote.js'
+import { createManifest, type Manifest } from '../../src/workflows/manifest.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+import { injectRunTrigger, RUN_TRIGGER_NODE_NAME } from '../../src/workflows/runTrigger.js'
+import type { N8nWorkflow } from '../../src/api/n8nClient.js'
+
+describe('promoteWorkflow', () => {
+  const staging = { env: 'staging', baseUrl: 'https://n8n-staging.example.com/' }
+  const prod = { env: 'prod', baseUrl: 'https://n8n.example.com' }
+
+  const createRemote = (): N8nWorkflow => {
+    const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+    workflow.id = '12'
+    workflow.nodes.push({
+      name: 'Call API',
+      type: 'n8n-nodes-base.httpRequest',
+      position: [450, 300],
+      parameters: {
+        url: 'https://api-staging.example.com/v1/sync',
+        options: {
+          headers: ['x-callback: https://n8n-staging.example.com/webhook/done']
+        }
+      },
+      credentials: {
+        httpHeaderAuth: { id: '3', name: 'API Token' }
+      }
+    })
+    return workflow
+  }
+
+  const createPromotable = (): Manifest => ({
+    ...createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC'),
+    variables: {
+      apiUrl: { staging: 'https://api-staging.example.com', prod: 'https://api.example.com' }
+    },
+    credentials: {
+      'API Token': { staging: '3', prod: '7' }
+    }
+  })
+
+  it('should rewrite manifest variables and the instance URL', () => {
+    const { workflow, changes } = promoteWorkflow(createRemote(), createPromotable(), staging, prod)
+    const node = workflow.nodes.find(n => n.name === 'Call API')!
+
+    expect(node.parameters?.['url']).toBe('https://api.example.com/v1/sync')
+    expect(node.parameters?.['options']).toEqual({
+      headers: ['x-callback: https://n8n.example.com/webhook/done']
+    })
+    expect(changes).toContainEqual(expect.objectContaining({
+      node: 'Call API',
+      path: 'parameters.options.headers[0]'
+    }))
+  })
+
+  it('should map credential IDs by name', () => {
+    const { workflow, changes, unmappedCredentials } = promoteWorkflow(createRemote(), createPromotable(), staging, prod)
+    const node = workflow.nodes.find(n => n.name === 'Call API')!
+
+    expect(node.credentials).toEqual({ httpHeaderAuth: { id: '7', name: 'API Token' } })
+    expect(changes).toContainEqual({
+      node: 'Call API',
+      path: 'credentials.httpHeaderAuth.id',
+      from: '3',
+      to: '7'
+    })
+    expect(unmappedCredentials).toEqual([])
+  })
+
+  it('should report credentials without a target mapping', () => {
+    const manifest = { ...createPromotable(), credentials: undefined }
+    const { workflow, unmappedCredentials } = promoteWorkflow(createRemote(), manifest, staging, prod)
+    const node = workflow.nodes.find(n => n.name === 'Call API')!
+
+    expect(unmappedCredentials).toEqual(['Call API: httpHeaderAuth "API Token"'])
+    expect(node.credentials).toEqual({ httpHeaderAuth: { id: '3', name: 'API Token' } })
+  })
+
+  it('should drop server fields and the run trigger', () => {
+    const remote = injectRunTrigger(createRemote(), 'cron8n-test-abc', { id: 'c1', name: 'cron8n Run Trigger' })
+    const { workflow } = promoteWorkflow(remote, createPromotable(), staging, prod)
+
+    expect(workflow.id).toBeUndefined()
+    expect(workflow.nodes.some(n => n.name === RUN_TRIGGER_NODE_NAME)).toBe(false)
+  })
+
+  it('should not modify the source workflow', () => {
+    const remote = createRemote()
+    promoteWorkflow(remote, createPromotable(), staging, prod)
+
+    const node = remote.nodes.find(n => n.name === 'Call API')!
+    expect(node.parameters?.['url']).toBe('https://api-staging.example.com/v1/sync')
+    expect(node.credentials).toEqual({ httpHeaderAuth: { id: '3', name: 'API Token' } })
+  })
+})
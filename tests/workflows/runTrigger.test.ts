@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RUN_TRIGGER_NODE_NAME,
+  RUN_TRIGGER_HEADER,
+  createRunTriggerPath,
+  createRunTriggerToken,
+  createRunTriggerCredential,
+  injectRunTrigger,
+  isRunTriggerNode
+} from '../../src/workflows/runTrigger.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+
+describe('run trigger', () => {
+  describe('createRunTriggerPath', () => {
+    it('should include slug and a random suffix', () => {
+      const path = createRunTriggerPath('my-workflow')
+      expect(path).toMatch(/^cron8n-my-workflow-[a-z0-9_-]{16}$/)
+      expect(createRunTriggerPath('my-workflow')).not.toBe(path)
+    })
+  })
+
+  describe('createRunTriggerToken', () => {
+    it('should derive the same token from the same secret and path', () => {
+      const token = createRunTriggerToken('secret', 'cron8n-test-path')
+
+      expect(token).toMatch(/^[a-f0-9]{64}$/)
+      expect(createRunTriggerToken('secret', 'cron8n-test-path')).toBe(token)
+      expect(createRunTriggerToken('other', 'cron8n-test-path')).not.toBe(token)
+      expect(createRunTriggerToken('secret', 'cron8n-other-path')).not.toBe(token)
+    })
+  })
+
+  describe('createRunTriggerCredential', () => {
+    it('should create a header auth credential checking the token', () => {
+      const credential = createRunTriggerCredential('cron8n-test-path', 'token')
+
+      expect(credential.type).toBe('httpHeaderAuth')
+      expect(credential.data).toEqual({ name: RUN_TRIGGER_HEADER, value: 'token' })
+    })
+  })
+
+  describe('injectRunTrigger', () => {
+    const workflow = getTemplate('http-request').create('Test', '0 * * * *', 'UTC')
+    const credential = { id: 'c1', name: 'cron8n Run Trigger' }
+
+    it('should add a webhook node wired like the schedule trigger', () => {
+      const result = injectRunTrigger(workflow, 'cron8n-test-path', credential)
+      const node = result.nodes.find(isRunTriggerNode)
+
+      expect(node?.type).toBe('n8n-nodes-base.webhook')
+      expect(node?.parameters?.['path']).toBe('cron8n-test-path')
+      expect(result.connections[RUN_TRIGGER_NODE_NAME]).toEqual(workflow.connections['Schedule Trigger'])
+    })
+
+    it('should require header auth with the credential', () => {
+      const node = injectRunTrigger(workflow, 'cron8n-test-path', credential).nodes.find(isRunTriggerNode)
+
+      expect(node?.parameters?.['authentication']).toBe('headerAuth')
+      expect(node?.credentials).toEqual({ httpHeaderAuth: credential })
+    })
+
+    it('should not modify the original workflow', () => {
+      injectRunTrigger(workflow, 'cron8n-test-path', credential)
+      expect(workflow.nodes.some(isRunTriggerNode)).toBe(false)
+    })
+
+    it('should replace an existing run trigger', () => {
+      const once = injectRunTrigger(workflow, 'first', credential)
+      const twice = injectRunTrigger(once, 'second', credential)
+      const triggers = twice.nodes.filter(isRunTriggerNode)
+
+      expect(triggers).toHaveLength(1)
+      expect(triggers[0]?.parameters?.['path']).toBe('second')
+    })
+  })
+})
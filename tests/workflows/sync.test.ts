@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { toLocalWorkflow, syncManifestFromWorkflow, getWorkflowSchedules, updatePrimarySchedule } from '../../src/workflows/sync.js'
+import { createManifest } from '../../src/workflows/manifest.js'
+import { getTemplate } from '../../src/workflows/templates.js'
+import { injectRunTrigger, isRunTriggerNode } from '../../src/workflows/runTrigger.js'
+
+describe('workflow sync', () => {
+  describe('toLocalWorkflow', () => {
+    it('should drop server-managed fields and the run trigger', () => {
+      const remote = {
+        ...injectRunTrigger(getTemplate('cron-only').create('Test', '0 * * * *', 'UTC'), 'cron8n-test', { id: 'c1', name: 'cron8n Run Trigger' }),
+        id: '123',
+        tags: [{ id: '1', name: 'managed-by:cron8n' }],
+        createdAt: '2026-02-07T10:00:00Z',
+        updatedAt: '2026-02-07T12:00:00Z'
+      }
+
+      const local = toLocalWorkflow(remote)
+
+      expect(local.id).toBeUndefined()
+      expect(local.tags).toBeUndefined()
+      expect(local.updatedAt).toBeUndefined()
+      expect(local.nodes.some(isRunTriggerNode)).toBe(false)
+      expect(Object.keys(local.connections)).toEqual(['Schedule Trigger'])
+    })
+  })
+
+  describe('syncManifestFromWorkflow', () => {
+    it('should update name and schedule from the workflow', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      const workflow = getTemplate('cron-only').create('Renamed', '30 2 * * *', 'Europe/Berlin')
+
+      const updates = syncManifestFromWorkflow(manifest, workflow)
+
+      expect(updates.map(u => u.field)).toEqual(['name', 'cronExpression', 'timezone'])
+      expect(manifest.name).toBe('Renamed')
+      expect(manifest.cronExpression).toBe('30 2 * * *')
+      expect(manifest.timezone).toBe('Europe/Berlin')
+    })
+
+    it('should sync additional schedules from the workflow', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.additionalSchedules = [{ cronExpression: '0 6 * * *', timezone: 'UTC' }]
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC', {
+        additionalSchedules: [
+          { cronExpression: '0 7 * * *', timezone: 'UTC' },
+          { cronExpression: '0 9 * * 1', timezone: 'Europe/Berlin' }
+        ]
+      })
+
+      const updates = syncManifestFromWorkflow(manifest, workflow)
+
+      expect(updates).toEqual([{
+        field: 'additionalSchedules',
+        from: '0 6 * * *@UTC',
+        to: '0 7 * * *@UTC, 0 9 * * 1@Europe/Berlin'
+      }])
+      expect(manifest.additionalSchedules).toEqual([
+        { cronExpression: '0 7 * * *', timezone: 'UTC' },
+        { cronExpression: '0 9 * * 1', timezone: 'Europe/Berlin' }
+      ])
+    })
+
+    it('should remove additional schedules missing from the workflow', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.additionalSchedules = [{ cronExpression: '0 6 * * *', timezone: 'UTC' }]
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+      expect(syncManifestFromWorkflow(manifest, workflow).map(u => u.field)).toEqual(['additionalSchedules'])
+      expect(manifest.additionalSchedules).toBeUndefined()
+    })
+
+    it('should return no updates when nothing changed', () => {
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC')
+
+      expect(syncManifestFromWorkflow(manifest, workflow)).toEqual([])
+    })
+
+    it('should ignore the order of additional schedules', () => {
+      const additionalSchedules = [
+        { cronExpression: '0 9 * * 1', timezone: 'Europe/Berlin' },
+        { cronExpression: '0 7 * * *', timezone: 'UTC' }
+      ]
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.additionalSchedules = additionalSchedules
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC', { additionalSchedules })
+
+      expect(syncManifestFromWorkflow(manifest, workflow)).toEqual([])
+      expect(manifest.additionalSchedules).toEqual(additionalSchedules)
+    })
+  })
+
+  describe('updatePrimarySchedule', () => {
+    it('should keep additional schedules in their own timezones', () => {
+      const additionalSchedules = [
+        { cronExpression: '0 6 * * *', timezone: 'UTC' },
+        { cronExpression: '0 9 * * 1', timezone: 'Europe/Berlin' }
+      ]
+      const manifest = createManifest('test', 'Test', 'cron-only', '0 * * * *', 'UTC')
+      manifest.additionalSchedules = additionalSchedules
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'UTC', { additionalSchedules })
+
+      updatePrimarySchedule(manifest, workflow, { cronExpression: '30 2 * * *', timezone: 'America/New_York' })
+
+      expect(manifest.cronExpression).toBe('30 2 * * *')
+      expect(manifest.timezone).toBe('America/New_York')
+      expect(manifest.additionalSchedules).toEqual(additionalSchedules)
+      expect(getWorkflowSchedules(workflow, 'UTC')).toEqual(expect.arrayContaining([
+        { cronExpression: '30 2 * * *', timezone: 'America/New_York' },
+        ...additionalSchedules
+      ]))
+      expect(getWorkflowSchedules(workflow, 'UTC')).toHaveLength(3)
+      expect(syncManifestFromWorkflow(manifest, workflow)).toEqual([])
+    })
+  })
+})
@@ -4,18 +4,24 @@ import {
   getTemplate,
   getTemplateNames,
   getTemplateChoices,
+  applySchedules,
+  validateHttpOptions,
+  resolveTemplateFields,
+  getTemplateFieldFlag,
   type TemplateName
 } from '../../src/workflows/templates.js'
 
 describe('workflow templates', () => {
   describe('TEMPLATES', () => {
-    it('should have four templates', () => {
+    it('should have ten templates', () => {
       const templateNames = Object.keys(TEMPLATES)
-      expect(templateNames).toHaveLength(4)
+      expect(templateNames).toHaveLength(10)
       expect(templateNames).toContain('cron-only')
       expect(templateNames).toContain('shell-command')
       expect(templateNames).toContain('http-request')
       expect(templateNames).toContain('webhook-call')
+      expect(templateNames).toContain('database-query')
+      expect(templateNames).toContain('sub-workflow')
     })
 
     it('should have name and description for each template', () => {
@@ -49,7 +55,7 @@ describe('workflow templates', () => {
     it('should return choices for prompts', () => {
       const choices = getTemplateChoices()
       expect(Array.isArray(choices)).toBe(true)
-      expect(choices).toHaveLength(4)
+      expect(choices).toHaveLength(10)
       
       for (const choice of choices) {
         expect(choice.title).toBeTruthy()
@@ -60,7 +66,10 @@ describe('workflow templates', () => {
   })
 
   describe('template.create', () => {
-    const testCases: TemplateName[] = ['cron-only', 'shell-command', 'http-request', 'webhook-call']
+    const testCases: TemplateName[] = [
+      'cron-only', 'shell-command', 'http-request', 'webhook-call',
+      'database-query', 'health-check', 'digest', 'backup', 'feed-poll', 'sub-workflow'
+    ]
 
     for (const templateName of testCases) {
       describe(`${templateName} template`, () => {
@@ -141,4 +150,276 @@ describe('workflow templates', () => {
       expect(webhookNode).toBeDefined()
     })
   })
+
+  describe('HTTP options', () => {
+    const getHttpParameters = (workflow: ReturnType<typeof TEMPLATES['cron-only']['create']>) =>
+      workflow.nodes.find(n => n.type === 'n8n-nodes-base.httpRequest')!.parameters
+
+    it('should use the URL and method', () => {
+      const workflow = getTemplate('http-request').create('Test', '0 * * * *', 'UTC', {
+        httpUrl: 'https://api.test/items',
+        httpMethod: 'POST'
+      })
+
+      expect(getHttpParameters(workflow)).toEqual({ method: 'POST', url: 'https://api.test/items', options: {} })
+    })
+
+    it('should add headers, query, JSON body, auth and timeout', () => {
+      const workflow = getTemplate('http-request').create('Test', '0 * * * *', 'UTC', {
+        httpUrl: 'https://api.test/items',
+        httpHeaders: { Accept: 'application/json' },
+        httpQuery: { limit: '100' },
+        httpBody: '{"status":"active"}',
+        httpAuth: 'bearer',
+        httpTimeout: 5000
+      })
+
+      expect(getHttpParameters(workflow)).toEqual({
+        method: 'GET',
+        url: 'https://api.test/items',
+        authentication: 'genericCredentialType',
+        genericAuthType: 'httpBearerAuth',
+        sendQuery: true,
+        queryParameters: { parameters: [{ name: 'limit', value: '100' }] },
+        sendHeaders: true,
+        headerParameters: { parameters: [{ name: 'Accept', value: 'application/json' }] },
+        sendBody: true,
+        specifyBody: 'json',
+        jsonBody: '{"status":"active"}',
+        options: { timeout: 5000 }
+      })
+    })
+
+    it('should use the webhook URL and keep the default body', () => {
+      const parameters = getHttpParameters(getTemplate('webhook-call').create('Test', '0 * * * *', 'UTC', {
+        webhookUrl: 'https://hooks.test/abc'
+      }))!
+
+      expect(parameters['url']).toBe('https://hooks.test/abc')
+      expect(parameters['method']).toBe('POST')
+      expect(parameters['bodyParameters']).toBeDefined()
+    })
+
+    it('should replace the webhook body with a JSON body', () => {
+      const parameters = getHttpParameters(getTemplate('webhook-call').create('Test', '0 * * * *', 'UTC', {
+        httpBody: '{"text":"done"}'
+      }))!
+
+      expect(parameters['jsonBody']).toBe('{"text":"done"}')
+      expect(parameters['bodyParameters']).toBeUndefined()
+    })
+
+    describe('validateHttpOptions', () => {
+      it('should accept valid options and n8n expressions', () => {
+        expect(() => validateHttpOptions({
+          httpUrl: 'https://api.test',
+          webhookUrl: '={{ $env.HOOK_URL }}',
+          httpMethod: 'DELETE',
+          httpBody: '={{ JSON.stringify($json) }}',
+          httpAuth: 'basic',
+          httpTimeout: 1000
+        })).not.toThrow()
+      })
+
+      it('should reject invalid options', () => {
+        expect(() => validateHttpOptions({ httpUrl: 'not a url' })).toThrow('Invalid URL')
+        expect(() => validateHttpOptions({ webhookUrl: 'ftp://x.test' })).toThrow('Invalid webhook URL')
+        expect(() => validateHttpOptions({ httpMethod: 'FETCH' })).toThrow('Invalid HTTP method')
+        expect(() => validateHttpOptions({ httpBody: '{nope' })).toThrow('Invalid request body')
+        expect(() => validateHttpOptions({ httpAuth: 'oauth' as never })).toThrow('Invalid auth type')
+        expect(() => validateHttpOptions({ httpTimeout: 0 })).toThrow('Invalid timeout')
+      })
+    })
+  })
+
+  describe('additional schedules', () => {
+    const schedules = [
+      { cronExpression: '0 18 * * *', timezone: 'Europe/Istanbul' },
+      { cronExpression: '0 9 * * *', timezone: 'America/New_York' }
+    ]
+
+    const getTriggers = (workflow: ReturnType<typeof TEMPLATES['cron-only']['create']>) =>
+      workflow.nodes.filter(n => n.type === 'n8n-nodes-base.scheduleTrigger')
+
+    const getIntervals = (node: { parameters?: Record<string, unknown> }) =>
+      ((node.parameters as any).rule.interval as Array<{ expression: string }>).map(i => i.expression)
+
+    it('should add schedules sharing a timezone as intervals of one trigger', () => {
+      const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'Europe/Istanbul', {
+        additionalSchedules: schedules
+      })
+      const triggers = getTriggers(workflow)
+
+      expect(triggers).toHaveLength(2)
+      expect(getIntervals(triggers[0]!)).toEqual(['0 * * * *', '0 18 * * *'])
+      expect(getIntervals(triggers[1]!)).toEqual(['0 9 * * *'])
+      expect((triggers[1]!.parameters as any).options.timezone).toBe('America/New_York')
+    })
+
+    it('should write normalized cron expressions', () => {
+      const workflow = getTemplate('cron-only').create('Test', '0  0 9 ? * mon#2', 'UTC')
+
+      expect(getIntervals(getTriggers(workflow)[0]!)).toEqual(['0 0 9 ? * MON#2'])
+    })
+
+    it('should connect every trigger to the action node', () => {
+      const workflow = getTemplate('http-request').create('Test', '0 * * * *', 'UTC', {
+        additionalSchedules: schedules
+      })
+
+      for (const trigger of getTriggers(workflow)) {
+        expect((workflow.connections[trigger.name] as any).main[0][0].node).toBe('HTTP Request')
+      }
+    })
+
+    describe('applySchedules', () => {
+      it('should add trigger nodes wired like the first one', () => {
+        const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'Europe/Istanbul')
+        applySchedules(workflow, [{ cronExpression: '0 * * * *', timezone: 'Europe/Istanbul' }, ...schedules])
+
+        const triggers = getTriggers(workflow)
+        expect(triggers.map(t => t.name)).toEqual(['Schedule Trigger', 'Schedule Trigger 2'])
+        expect(getIntervals(triggers[0]!)).toEqual(['0 * * * *', '0 18 * * *'])
+        expect(workflow.connections['Schedule Trigger 2']).toEqual(workflow.connections['Schedule Trigger'])
+      })
+
+      it('should remove surplus trigger nodes', () => {
+        const workflow = getTemplate('cron-only').create('Test', '0 * * * *', 'Europe/Istanbul', {
+          additionalSchedules: schedules
+        })
+        applySchedules(workflow, [{ cronExpression: '*/5 * * * *', timezone: 'UTC' }])
+
+        const triggers = getTriggers(workflow)
+        expect(triggers).toHaveLength(1)
+        expect(getIntervals(triggers[0]!)).toEqual(['*/5 * * * *'])
+        expect((triggers[0]!.parameters as any).options.timezone).toBe('UTC')
+        expect(workflow.connections['Schedule Trigger 2']).toBeUndefined()
+      })
+    })
+  })
+
+  describe('template fields', () => {
+    const getNode = (workflow: { nodes: Array<{ name: string; type: string; parameters?: Record<string, unknown> }> }, type: string) =>
+      workflow.nodes.find(n => n.type === type)!
+    const getChain = (workflow: { connections: Record<string, unknown> }) =>
+      Object.entries(workflow.connections).map(([from, c]) => `${from} -> ${(c as any).main[0][0].node}`)
+
+    it('should derive flags from field names', () => {
+      expect(getTemplateFieldFlag({ name: 'dbType' })).toBe('--db-type')
+      expect(getTemplateFieldFlag({ name: 'healthCheckStatus' })).toBe('--health-check-status')
+    })
+
+    it('should resolve values with defaults and skip fields that do not apply', () => {
+      const options = resolveTemplateFields(getTemplate('digest'), {
+        digestSourceUrl: 'https://example.com/items',
+        digestChannel: 'email',
+        emailTo: 'ops@example.com',
+        emailFrom: 'cron@example.com',
+        slackChannel: '#ignored'
+      })
+      expect(options).toEqual({
+        digestSourceUrl: 'https://example.com/items',
+        digestChannel: 'email',
+        emailTo: 'ops@example.com',
+        emailFrom: 'cron@example.com',
+        digestSubject: 'Daily digest'
+      })
+    })
+
+    it('should convert numbers and booleans', () => {
+      expect(resolveTemplateFields(getTemplate('health-check'), {
+        healthCheckUrl: 'https://example.com/health',
+        healthCheckStatus: '204',
+        alertWebhookUrl: 'https://hooks.example.com/x'
+      }).healthCheckStatus).toBe(204)
+      expect(resolveTemplateFields(getTemplate('sub-workflow'), { subWorkflowId: '42', subWorkflowWait: 'no' }))
+        .toEqual({ subWorkflowId: '42', subWorkflowWait: false })
+    })
+
+    it('should reject missing and invalid values', () => {
+      expect(() => resolveTemplateFields(getTemplate('sub-workflow'), {})).toThrow('Missing value for Workflow ID to call')
+      expect(() => resolveTemplateFields(getTemplate('database-query'), { dbType: 'oracle', dbQuery: 'SELECT 1' }))
+        .toThrow('Invalid --db-type: oracle')
+      expect(() => resolveTemplateFields(getTemplate('health-check'), { healthCheckUrl: 'x', healthCheckStatus: 'ok', alertWebhookUrl: 'y' }))
+        .toThrow('Invalid --health-check-status: ok')
+    })
+
+    it('should chain a MySQL query into a JSON export', () => {
+      const workflow = getTemplate('database-query').create('Export', '0 2 * * *', 'UTC', {
+        dbType: 'mysql', dbQuery: 'SELECT * FROM orders', exportFormat: 'json', exportPath: '/data/orders.json'
+      })
+      expect(getNode(workflow, 'n8n-nodes-base.mySql').parameters!['query']).toBe('SELECT * FROM orders')
+      expect(getNode(workflow, 'n8n-nodes-base.convertToFile').parameters!['operation']).toBe('toJson')
+      expect(getNode(workflow, 'n8n-nodes-base.readWriteFile').parameters!['fileName']).toBe('/data/orders.json')
+      expect(getChain(workflow)).toEqual([
+        'Schedule Trigger -> MySQL Query',
+        'MySQL Query -> Convert to File',
+        'Convert to File -> Write File'
+      ])
+    })
+
+    it('should skip the export when the format is none', () => {
+      const workflow = getTemplate('database-query').create('Cleanup', '0 2 * * *', 'UTC', { exportFormat: 'none' })
+      expect(workflow.nodes.map(n => n.type)).toEqual(['n8n-nodes-base.scheduleTrigger', 'n8n-nodes-base.postgres'])
+    })
+
+    it('should alert when the health check status differs', () => {
+      const workflow = getTemplate('health-check').create('Health', '*/5 * * * *', 'UTC', {
+        healthCheckUrl: 'https://example.com/health', healthCheckStatus: 204, alertWebhookUrl: 'https://hooks.example.com/x'
+      })
+      const condition = (getNode(workflow, 'n8n-nodes-base.if').parameters as any).conditions.conditions[1]
+      expect(condition.rightValue).toBe(204)
+      expect(condition.operator.operation).toBe('notEquals')
+      expect(getChain(workflow)).toContain('Is Unhealthy -> Send Alert')
+    })
+
+    it('should alert when the health check endpoint cannot be reached', () => {
+      const workflow = getTemplate('health-check').create('Health', '*/5 * * * *', 'UTC', {
+        healthCheckUrl: "https://example.com/it's-up", alertWebhookUrl: 'https://hooks.example.com/x'
+      })
+      const check = workflow.nodes.find(n => n.name === 'Health Check')
+      const conditions = (getNode(workflow, 'n8n-nodes-base.if').parameters as any).conditions
+
+      expect(check?.onError).toBe('continueRegularOutput')
+      expect(conditions.combinator).toBe('or')
+      expect(conditions.conditions[0].leftValue).toBe('={{ $json.statusCode }}')
+      expect(conditions.conditions[0].operator.operation).toBe('notExists')
+
+      const alert = workflow.nodes.find(n => n.name === 'Send Alert')
+      expect(alert?.parameters?.['jsonBody']).toContain(`+ "https://example.com/it's-up" +`)
+    })
+
+    it('should send digests to Slack or email', () => {
+      const slack = getTemplate('digest').create('Digest', '0 9 * * *', 'UTC', { slackChannel: '#ops' })
+      expect((getNode(slack, 'n8n-nodes-base.slack').parameters as any).channelId.value).toBe('#ops')
+
+      const email = getTemplate('digest').create('Digest', '0 9 * * *', 'UTC', { digestChannel: 'email', emailTo: 'ops@example.com' })
+      expect(getNode(email, 'n8n-nodes-base.emailSend').parameters!['toEmail']).toBe('ops@example.com')
+    })
+
+    it('should back up to S3 or a directory', () => {
+      const s3 = getTemplate('backup').create('Backup', '0 3 * * *', 'UTC', { backupTarget: 's3', backupBucket: 'my-backups' })
+      expect(getNode(s3, 'n8n-nodes-base.awsS3').parameters!['bucketName']).toBe('my-backups')
+
+      const file = getTemplate('backup').create('Backup', '0 3 * * *', 'UTC', { backupTarget: 'file', backupDirectory: '/mnt/backups/' })
+      const write = file.nodes.find(n => n.name === 'Write Backup')!
+      expect(String(write.parameters!['fileName'])).toMatch(/^=\/mnt\/backups\/\{\{/)
+    })
+
+    it('should dedupe polled items with workflow static data', () => {
+      const workflow = getTemplate('feed-poll').create('Poll', '*/15 * * * *', 'UTC', { pollSource: 'api', pollUrl: 'https://api.example.com/items' })
+      const code = String(getNode(workflow, 'n8n-nodes-base.code').parameters!['jsCode'])
+      expect(getNode(workflow, 'n8n-nodes-base.httpRequest').parameters!['url']).toBe('https://api.example.com/items')
+      expect(code).toContain("$getWorkflowStaticData('global')")
+      expect(code).toContain('item.json["id"]')
+    })
+
+    it('should call a sub-workflow by id', () => {
+      const workflow = getTemplate('sub-workflow').create('Call', '0 * * * *', 'UTC', { subWorkflowId: '42', subWorkflowWait: false })
+      expect(getNode(workflow, 'n8n-nodes-base.executeWorkflow').parameters).toEqual({
+        workflowId: { __rl: true, value: '42', mode: 'id' },
+        options: { waitForSubWorkflow: false }
+      })
+    })
+  })
 })
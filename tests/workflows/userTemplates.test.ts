@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as nodeFs } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'pathe'
+import {
+  createTemplateFromWorkflow,
+  createUserTemplate,
+  fillPlaceholders,
+  findPlaceholders,
+  findTemplateParameters,
+  loadTemplates,
+  suggestOptionKey,
+  TemplateMetaSchema
+} from '../../src/workflows/userTemplates.js'
+import { getTemplate, getTemplateChoices } from '../../src/workflows/templates.js'
+import { injectRunTrigger } from '../../src/workflows/runTrigger.js'
+import type { N8nWorkflow } from '../../src/api/n8nClient.js'
+
+describe('user templates', () => {
+  const createWorkflow = (): N8nWorkflow => ({
+    id: 'abc',
+    name: '{{cron8n.workflowName}}',
+    active: true,
+    nodes: [
+      {
+        name: 'Nightly',
+        type: 'n8n-nodes-base.scheduleTrigger',
+        position: [0, 0],
+        parameters: { rule: { interval: [{ field: 'cronExpression', expression: '0 0 * * *' }] } }
+      },
+      {
+        name: 'Backup',
+        type: 'n8n-nodes-base.executeCommand',
+        position: [200, 0],
+        parameters: { command: 'pg_dump {{ cron8n.database }} > /backups/{{cron8n.database}}.sql' }
+      }
+    ],
+    connections: { Nightly: { main: [[{ node: 'Backup', type: 'main', index: 0 }]] } }
+  })
+
+  const meta = TemplateMetaSchema.parse({
+    name: 'DB Backup',
+    description: 'Nightly database dump',
+    options: [{ key: 'database', message: 'Database name:', default: 'app' }]
+  })
+
+  describe('fillPlaceholders', () => {
+    it('should replace placeholders in nested strings', () => {
+      const filled = fillPlaceholders({ a: ['x {{cron8n.db}} y'], b: 1, c: '={{ $json.id }}' }, { db: 'main' })
+      expect(filled).toEqual({ a: ['x main y'], b: 1, c: '={{ $json.id }}' })
+    })
+
+    it('should leave unknown placeholders', () => {
+      expect(fillPlaceholders('{{cron8n.other}}', {})).toBe('{{cron8n.other}}')
+    })
+  })
+
+  describe('findPlaceholders', () => {
+    it('should list placeholder keys once', () => {
+      expect(findPlaceholders(createWorkflow()).sort()).toEqual(['database', 'workflowName'])
+    })
+  })
+
+  describe('createUserTemplate', () => {
+    it('should fill options and apply the schedule', () => {
+      const template = createUserTemplate(meta, createWorkflow())
+      const workflow = template.create('Backup Orders', '30 2 * * *', 'Europe/Berlin', { values: { database: 'orders' } })
+      const trigger = workflow.nodes.find(n => n.name === 'Nightly')!
+
+      expect(workflow.id).toBeUndefined()
+      expect(workflow.name).toBe('Backup Orders')
+      expect(workflow.active).toBe(false)
+      expect(workflow.nodes[1]!.parameters!['command']).toBe('pg_dump orders > /backups/orders.sql')
+      expect(trigger.parameters).toEqual({
+        rule: { interval: [{ field: 'cronExpression', expression: '30 2 * * *' }] },
+        options: { timezone: 'Europe/Berlin' }
+      })
+    })
+
+    it('should use option defaults', () => {
+      const workflow = createUserTemplate(meta, createWorkflow()).create('Test', '0 * * * *', 'UTC')
+      expect(workflow.nodes[1]!.parameters!['command']).toContain('pg_dump app')
+    })
+
+    it('should require values for options without defaults', () => {
+      const template = createUserTemplate(
+        TemplateMetaSchema.parse({ name: 'X', options: [{ key: 'database', required: true }] }),
+        createWorkflow()
+      )
+      expect(() => template.create('Test', '0 * * * *', 'UTC')).toThrow('Missing value for template option "database"')
+    })
+
+    it('should reject undeclared placeholders and workflows without a Schedule Trigger', () => {
+      expect(() => createUserTemplate(TemplateMetaSchema.parse({ name: 'X' }), createWorkflow()))
+        .toThrow('Undeclared template options: database')
+
+      const workflow = createWorkflow()
+      workflow.nodes = workflow.nodes.slice(1)
+      expect(() => createUserTemplate(meta, workflow)).toThrow('no Schedule Trigger')
+    })
+  })
+
+  describe('loadTemplates', () => {
+    let basePath: string
+
+    beforeEach(async () => {
+      basePath = await nodeFs.mkdtemp(join(tmpdir(), 'cron8n-templates-'))
+    })
+
+    afterEach(async () => {
+      await nodeFs.rm(basePath, { recursive: true, force: true })
+    })
+
+    const writeTemplate = async (name: string, files: Record<string, unknown>): Promise<void> => {
+      const dir = join(basePath, '.cron8n', 'templates', name)
+      await nodeFs.mkdir(dir, { recursive: true })
+      for (const [file, content] of Object.entries(files)) {
+        await nodeFs.writeFile(join(dir, file), JSON.stringify(content))
+      }
+    }
+
+    it('should add project templates to the built-in ones', async () => {
+      await writeTemplate('db-backup', { 'template.json': meta, 'workflow.json': createWorkflow() })
+      const { templates, errors } = await loadTemplates(basePath)
+
+      expect(errors).toEqual([])
+      expect(Object.keys(templates)).toContain('cron-only')
+      expect(getTemplate('db-backup', templates).source).toBe(join(basePath, '.cron8n', 'templates', 'db-backup'))
+      expect(getTemplateChoices(templates).find(c => c.value === 'db-backup')!.title).toBe('DB Backup (db-backup)')
+    })
+
+    it('should report invalid templates', async () => {
+      await writeTemplate('broken', { 'template.json': { description: 'no name' }, 'workflow.json': createWorkflow() })
+      const { templates, errors } = await loadTemplates(basePath)
+
+      expect(templates['broken']).toBeUndefined()
+      expect(errors).toHaveLength(1)
+      expect(errors[0]!.error).toContain('name')
+    })
+  })
+
+  describe('findTemplateParameters', () => {
+    it('should list string parameters outside schedule and run trigger nodes', () => {
+      const workflow = injectRunTrigger(getTemplate('webhook-call').create('Test', '0 * * * *', 'UTC'), 'cron8n-test', { id: 'c1', name: 'cron8n Run Trigger' })
+
+      expect(findTemplateParameters(workflow).map(p => `${p.node}.${p.path}`)).toEqual([
+        'Webhook Call.method',
+        'Webhook Call.url',
+        'Webhook Call.bodyParameters.parameters.0.name',
+        'Webhook Call.bodyParameters.parameters.0.value',
+        'Webhook Call.bodyParameters.parameters.1.name',
+        'Webhook Call.bodyParameters.parameters.1.value'
+      ])
+    })
+  })
+
+  describe('suggestOptionKey', () => {
+    it('should use the last named path segment and avoid taken keys', () => {
+      expect(suggestOptionKey({ path: 'url' })).toBe('url')
+      expect(suggestOptionKey({ path: 'bodyParameters.parameters.0.value' }, ['value'])).toBe('value2')
+    })
+  })
+
+  describe('createTemplateFromWorkflow', () => {
+    const createSource = (): N8nWorkflow => {
+      const workflow = getTemplate('http-request').create('Ping', '0 9 * * *', 'UTC', {
+        additionalSchedules: [{ cronExpression: '0 18 * * *', timezone: 'Europe/Berlin' }]
+      })
+      workflow.id = 'wf-1'
+      workflow.nodes[2]!.credentials = { httpHeaderAuth: { id: '7', name: 'API key' } }
+      return injectRunTrigger(workflow, 'cron8n-ping', { id: 'c1', name: 'cron8n Run Trigger' })
+    }
+
+    it('should strip ids, credentials and extra triggers', () => {
+      const { workflow, strippedCredentials } = createTemplateFromWorkflow(createSource(), { name: 'Ping' })
+
+      expect(workflow.id).toBeUndefined()
+      expect(workflow.name).toBe('{{cron8n.workflowName}}')
+      expect(workflow.nodes.map(n => n.name)).toEqual(['Schedule Trigger', 'HTTP Request'])
+      expect(workflow.nodes.every(n => n.id === undefined && n.credentials === undefined)).toBe(true)
+      expect(Object.keys(workflow.connections)).toEqual(['Schedule Trigger'])
+      expect(strippedCredentials).toEqual(['HTTP Request'])
+    })
+
+    it('should turn chosen parameters into options', () => {
+      const { meta, workflow } = createTemplateFromWorkflow(
+        createSource(),
+        { name: 'Ping', description: 'Pings an API' },
+        [{ node: 'HTTP Request', path: 'url', key: 'endpoint' }]
+      )
+
+      expect(meta.options).toEqual([
+        { key: 'endpoint', message: 'HTTP Request url:', default: 'https://api.example.com/endpoint' }
+      ])
+      expect(workflow.nodes[1]!.parameters!['url']).toBe('{{cron8n.endpoint}}')
+
+      const created = createUserTemplate(meta, workflow).create('Orders', '0 5 * * *', 'UTC', {
+        values: { endpoint: 'https://example.com/orders' }
+      })
+      expect(created.nodes[1]!.parameters!['url']).toBe('https://example.com/orders')
+    })
+
+    it('should reject unknown parameters and workflows without a schedule', () => {
+      expect(() => createTemplateFromWorkflow(createSource(), { name: 'X' }, [{ node: 'HTTP Request', path: 'nope', key: 'a' }]))
+        .toThrow('Parameter not found: HTTP Request.nope')
+
+      const workflow = createSource()
+      workflow.nodes = workflow.nodes.filter(n => n.name === 'HTTP Request')
+      expect(() => createTemplateFromWorkflow(workflow, { name: 'X' })).toThrow('no schedule trigger')
+    })
+  })
+
+  describe('getTemplate', () => {
+    it('should throw for unknown templates', () => {
+      expect(() => getTemplate('nope')).toThrow('Unknown template: nope')
+    })
+  })
+})